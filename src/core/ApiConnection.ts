@@ -0,0 +1,62 @@
+// ApiConnection.ts - Endpoint and authentication settings shared by the OpenAI-compatible clients
+
+export const DEFAULT_API_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * How the API key is sent to the server
+ * - bearer: Authorization: Bearer <key> (OpenAI and most gateways)
+ * - api-key: api-key: <key> (Azure OpenAI deployments)
+ * - none: no auth header (local stand-in servers, gateways that inject credentials)
+ */
+export type ApiAuthScheme = 'bearer' | 'api-key' | 'none';
+
+export const API_AUTH_SCHEMES: readonly ApiAuthScheme[] = ['bearer', 'api-key', 'none'];
+
+export interface ApiConnectionConfig {
+    baseURL?: string;
+    authScheme?: ApiAuthScheme;
+    extraHeaders?: Record<string, string>;
+}
+
+/**
+ * Check whether the auth scheme needs an API key
+ */
+export function authSchemeRequiresApiKey(authScheme: string | undefined): boolean {
+    return authScheme !== 'none';
+}
+
+/**
+ * Joining the base URL and endpoint, keeping any query string (e.g. ?api-version=) at the end
+ */
+export function buildApiUrl(baseURL: string, endpoint: string): string {
+    const [base, query] = baseURL.split('?', 2);
+    const url = `${base.replace(/\/+$/, '')}${endpoint}`;
+    return query ? `${url}?${query}` : url;
+}
+
+/**
+ * Building request headers for the auth scheme, with extra headers applied last
+ */
+export function buildApiHeaders(apiKey: string, connection: ApiConnectionConfig, maskKey = false): Record<string, string> {
+    const key = maskKey ? `${apiKey.substring(0, 7)}...` : apiKey;
+    const headers: Record<string, string> = {
+        'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
+    };
+
+    switch (connection.authScheme || 'bearer') {
+        case 'bearer':
+            headers['Authorization'] = `Bearer ${key}`;
+            break;
+        case 'api-key':
+            headers['api-key'] = key;
+            break;
+        case 'none':
+            break;
+    }
+
+    for (const [name, value] of Object.entries(connection.extraHeaders || {})) {
+        headers[name] = maskKey && /auth|key|token|secret/i.test(name) ? '***' : value;
+    }
+
+    return headers;
+}
@@ -0,0 +1,149 @@
+// AudioArchive.ts - Keeping recordings of history entries for replay and re-transcription
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { UploadEncoder } from './UploadEncoder';
+
+export interface AudioRetentionPolicy {
+    maxSizeBytes: number;
+    maxAgeMs: number;
+}
+
+export interface ArchivedFile {
+    name: string;
+    size: number;
+    modified: number;   // mtime in milliseconds
+}
+
+// Kept recordings are stored as Opus, falling back to the original audio if FFmpeg can't encode
+const ARCHIVE_ENCODING = { codec: 'opus', bitrate: '32k' } as const;
+
+const MIME_TYPES: Record<string, string> = {
+    '.ogg': 'audio/ogg',
+    '.wav': 'audio/wav',
+    '.mp3': 'audio/mpeg',
+    '.webm': 'audio/webm'
+};
+
+/**
+ * Choosing files to delete: unreferenced ones, ones older than the age limit,
+ * then the oldest until the rest fits in the size cap
+ */
+export function selectFilesToPrune(
+    files: ArchivedFile[],
+    policy: AudioRetentionPolicy,
+    referenced: Set<string>,
+    now: number = Date.now()
+): string[] {
+    const pruned: string[] = [];
+    const kept: ArchivedFile[] = [];
+
+    for (const file of files) {
+        if (!referenced.has(file.name) || now - file.modified > policy.maxAgeMs) {
+            pruned.push(file.name);
+        } else {
+            kept.push(file);
+        }
+    }
+
+    let totalSize = 0;
+    for (const file of [...kept].sort((a, b) => b.modified - a.modified)) {
+        totalSize += file.size;
+        if (totalSize > policy.maxSizeBytes) {
+            pruned.push(file.name);
+        }
+    }
+
+    return pruned;
+}
+
+/**
+ * Directory of kept recordings, one file per history entry
+ */
+export class AudioArchive {
+    constructor(private directory: string) {}
+
+    /**
+     * Pointing the archive at another folder, e.g. the workspace storage for per-workspace history
+     */
+    setDirectory(directory: string): void {
+        this.directory = directory;
+    }
+
+    /**
+     * Compressing and storing a recording; returns the file name to keep in the history entry
+     */
+    async save(audioBlob: Blob): Promise<string> {
+        fs.mkdirSync(this.directory, { recursive: true });
+
+        const encoded = await new UploadEncoder(ARCHIVE_ENCODING).encode(audioBlob);
+        const extension = Object.keys(MIME_TYPES).find(key => MIME_TYPES[key] === encoded.type) || '.wav';
+        const fileName = `recording_${Date.now()}_${Math.random().toString(36).substr(2, 6)}${extension}`;
+
+        fs.writeFileSync(path.join(this.directory, fileName), Buffer.from(await encoded.arrayBuffer()));
+
+        ExtensionLog.info(`🗄️ [AUDIO-ARCHIVE] Recording kept:`, {
+            file: fileName,
+            size: `${(encoded.size / 1024).toFixed(2)} KB`
+        });
+
+        return fileName;
+    }
+
+    /**
+     * Full path of a kept recording, or null if it was pruned
+     */
+    getPath(fileName: string): string | null {
+        const filePath = path.join(this.directory, path.basename(fileName));
+        return fs.existsSync(filePath) ? filePath : null;
+    }
+
+    /**
+     * Reading a kept recording back as a blob for the transcription pipeline
+     */
+    async load(fileName: string): Promise<Blob & { name?: string }> {
+        const filePath = this.getPath(fileName);
+        if (!filePath) {
+            throw new Error('The recording for this entry is no longer kept');
+        }
+
+        const extension = path.extname(filePath).toLowerCase();
+        const blob = new Blob([fs.readFileSync(filePath)], { type: MIME_TYPES[extension] || 'audio/wav' }) as Blob & { name?: string };
+        blob.name = path.basename(filePath);
+        return blob;
+    }
+
+    listFiles(): ArchivedFile[] {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.directory)
+            .map(name => ({ name, stats: fs.statSync(path.join(this.directory, name)) }))
+            .filter(({ stats }) => stats.isFile())
+            .map(({ name, stats }) => ({ name, size: stats.size, modified: stats.mtimeMs }));
+    }
+
+    /**
+     * Deleting recordings outside the retention policy; returns the number of deleted files
+     */
+    prune(policy: AudioRetentionPolicy, referenced: Set<string>): number {
+        const files = this.listFiles();
+        const pruned = selectFilesToPrune(files, policy, referenced);
+
+        for (const name of pruned) {
+            try {
+                fs.unlinkSync(path.join(this.directory, name));
+            } catch (error) {
+                ExtensionLog.warn(`🗄️ [AUDIO-ARCHIVE] Failed to delete ${name}: ${(error as Error).message}`);
+            }
+        }
+
+        if (pruned.length > 0) {
+            ExtensionLog.info(`🗄️ [AUDIO-ARCHIVE] Pruned ${pruned.length} of ${files.length} kept recordings`);
+        }
+
+        return pruned.length;
+    }
+}
@@ -0,0 +1,246 @@
+// AudioChunker.ts - Splitting long recordings into chunks that fit the transcription upload limit
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tmp from 'tmp';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { runFFmpeg } from './FFmpegProcess';
+import { buildSilenceDetectFilter, parseSilenceEvents } from './SilenceDetect';
+
+export interface AudioChunkerOptions {
+    maxChunkDuration?: number;    // upper bound for a chunk in seconds (default: 600)
+    overlap?: number;             // seconds repeated between chunks cut outside silence (default: 2)
+    silenceThreshold?: number;    // silencedetect noise level in dB (default: -35)
+    minSilenceDuration?: number;  // shortest pause used as a cut point in seconds (default: 0.5)
+}
+
+// Pause found by the silencedetect filter
+export interface SilenceInterval {
+    start: number;
+    end: number;
+}
+
+// Time range of one chunk in the source recording
+export interface ChunkBoundary {
+    start: number;
+    end: number;
+    overlap: number;    // seconds repeated from the previous chunk; 0 for the first chunk and cuts at a pause
+}
+
+export interface AudioChunk {
+    index: number;
+    start: number;
+    end: number;
+    overlap: number;
+    blob: Blob & { name?: string };
+}
+
+// Chunks are re-encoded to 16 kHz mono PCM: Whisper resamples to 16 kHz anyway
+const CHUNK_BYTES_PER_SECOND = 16000 * 2;
+
+/**
+ * Longest chunk duration that stays under the upload limit, with 10% headroom for the WAV header
+ */
+export function getMaxChunkDuration(maxFileSize: number, preferred: number = 600): number {
+    return Math.max(30, Math.min(preferred, Math.floor((maxFileSize * 0.9) / CHUNK_BYTES_PER_SECOND)));
+}
+
+/**
+ * Parsing silence_start / silence_end lines written by the silencedetect filter
+ */
+export function parseSilenceDetectOutput(output: string): SilenceInterval[] {
+    const silences: SilenceInterval[] = [];
+    let pendingStart: number | null = null;
+
+    for (const event of parseSilenceEvents(output)) {
+        if (event.type === 'start') {
+            pendingStart = event.time;
+        } else if (pendingStart !== null) {
+            silences.push({ start: pendingStart, end: event.time });
+            pendingStart = null;
+        }
+    }
+
+    return silences;
+}
+
+/**
+ * Choosing chunk boundaries: cut in the middle of the last pause before the limit,
+ * or cut hard at the limit with an overlap when no pause is found
+ */
+export function planChunkBoundaries(
+    duration: number,
+    silences: SilenceInterval[],
+    maxChunkDuration: number,
+    overlap: number = 2
+): ChunkBoundary[] {
+    const boundaries: ChunkBoundary[] = [];
+    let start = 0;
+    let startOverlap = 0;
+
+    while (duration - start > maxChunkDuration) {
+        const limit = start + maxChunkDuration;
+        // Don't accept pauses in the first half, otherwise chunks get too small
+        const earliest = start + maxChunkDuration / 2;
+        const candidates = silences.filter(silence => {
+            const middle = (silence.start + silence.end) / 2;
+            return middle > earliest && middle < limit;
+        });
+
+        if (candidates.length > 0) {
+            const silence = candidates[candidates.length - 1];
+            const cut = (silence.start + silence.end) / 2;
+            boundaries.push({ start, end: cut, overlap: startOverlap });
+            start = cut;
+            startOverlap = 0;
+        } else {
+            boundaries.push({ start, end: limit, overlap: startOverlap });
+            start = limit - overlap;
+            startOverlap = overlap;
+        }
+    }
+
+    boundaries.push({ start, end: duration, overlap: startOverlap });
+    return boundaries;
+}
+
+/**
+ * Joining chunk transcripts. overlaps[i] is the audio chunk i repeats from the previous one
+ * (see ChunkBoundary.overlap); only there are words repeated at the join removed.
+ */
+export function stitchTranscripts(parts: string[], overlaps: number[] = [], maxOverlapWords: number = 12): string {
+    let result = '';
+
+    for (let index = 0; index < parts.length; index++) {
+        const text = parts[index].trim();
+        if (!text) {
+            continue;
+        }
+        if (!result) {
+            result = text;
+            continue;
+        }
+        if (!(overlaps[index] > 0)) {
+            result = `${result} ${text}`;
+            continue;
+        }
+
+        const previousWords = result.split(/\s+/);
+        const nextWords = text.split(/\s+/);
+        const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+        let overlapLength = 0;
+        const maxLength = Math.min(maxOverlapWords, previousWords.length, nextWords.length);
+        for (let length = maxLength; length > 0; length--) {
+            const tail = previousWords.slice(-length).map(normalize).join(' ');
+            const head = nextWords.slice(0, length).map(normalize).join(' ');
+            if (tail && tail === head) {
+                overlapLength = length;
+                break;
+            }
+        }
+
+        const remainder = nextWords.slice(overlapLength).join(' ');
+        result = remainder ? `${result} ${remainder}` : result;
+    }
+
+    return result;
+}
+
+/**
+ * Last words of a transcript, used as the prompt for the next chunk
+ */
+export function getPromptTail(text: string, maxLength: number = 200): string {
+    if (text.length <= maxLength) {
+        return text.trim();
+    }
+    const tail = text.slice(-maxLength);
+    const firstSpace = tail.indexOf(' ');
+    return (firstSpace >= 0 ? tail.slice(firstSpace + 1) : tail).trim();
+}
+
+/**
+ * Splits a recording into chunks with FFmpeg, preferring silence boundaries
+ */
+export class AudioChunker {
+    private readonly options: Required<AudioChunkerOptions>;
+
+    constructor(options: AudioChunkerOptions = {}) {
+        this.options = {
+            maxChunkDuration: options.maxChunkDuration ?? 600,
+            overlap: options.overlap ?? 2,
+            silenceThreshold: options.silenceThreshold ?? -35,
+            minSilenceDuration: options.minSilenceDuration ?? 0.5
+        };
+    }
+
+    /**
+     * Splitting the audio blob into chunks; temporary files are removed before returning
+     */
+    async split(audioBlob: Blob): Promise<AudioChunk[]> {
+        const blobName = (audioBlob as Blob & { name?: string }).name;
+        const workDir = tmp.dirSync({ prefix: 'vscs-chunks-', unsafeCleanup: true });
+
+        try {
+            const sourcePath = path.join(workDir.name, `source${path.extname(blobName || '') || '.wav'}`);
+            fs.writeFileSync(sourcePath, Buffer.from(await audioBlob.arrayBuffer()));
+
+            // One pass gives both the duration and the pauses
+            const analysis = await runFFmpeg([
+                '-hide_banner', '-nostats',
+                '-i', sourcePath,
+                '-af', buildSilenceDetectFilter(this.options.silenceThreshold, this.options.minSilenceDuration),
+                '-f', 'null', '-'
+            ]);
+
+            const duration = this.parseDuration(analysis);
+            if (!duration) {
+                throw new Error('Could not determine recording duration for chunking');
+            }
+
+            const silences = parseSilenceDetectOutput(analysis);
+            const boundaries = planChunkBoundaries(duration, silences, this.options.maxChunkDuration, this.options.overlap);
+
+            ExtensionLog.info(`✂️ [CHUNKER] Planned ${boundaries.length} chunks:`, {
+                duration,
+                silencesFound: silences.length,
+                maxChunkDuration: this.options.maxChunkDuration,
+                boundaries
+            });
+
+            const chunks: AudioChunk[] = [];
+            for (let index = 0; index < boundaries.length; index++) {
+                const boundary = boundaries[index];
+                const chunkPath = path.join(workDir.name, `chunk-${index}.wav`);
+
+                await runFFmpeg([
+                    '-hide_banner', '-nostats', '-y',
+                    '-ss', boundary.start.toFixed(3),
+                    '-i', sourcePath,
+                    '-t', (boundary.end - boundary.start).toFixed(3),
+                    '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+                    chunkPath
+                ]);
+
+                const blob = new Blob([fs.readFileSync(chunkPath)], { type: 'audio/wav' }) as Blob & { name?: string };
+                blob.name = `chunk-${index + 1}.wav`;
+                chunks.push({ index, start: boundary.start, end: boundary.end, overlap: boundary.overlap, blob });
+            }
+
+            return chunks;
+        } finally {
+            workDir.removeCallback();
+        }
+    }
+
+    /**
+     * Extracting the duration in seconds from FFmpeg stderr
+     */
+    private parseDuration(output: string): number | null {
+        const match = output.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+        if (!match) {
+            return null;
+        }
+        return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+    }
+}
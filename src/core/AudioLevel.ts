@@ -0,0 +1,113 @@
+// AudioLevel.ts - Microphone level parsing and clipping / too-quiet detection for the level meter
+
+// Input level in dBFS (0 = full scale)
+export interface AudioLevel {
+    rms: number;
+    peak: number;
+}
+
+export type LevelWarning = 'clipping' | 'tooQuiet';
+
+// Floor used for "-inf" and anything quieter
+export const LEVEL_FLOOR_DB = -91;
+
+// Range shown by the meter bars
+const METER_MIN_DB = -60;
+
+const CLIPPING_PEAK_DB = -0.5;      // peaks at or above this are treated as clipping
+const TOO_QUIET_PEAK_DB = -45;      // loudest peak below this over the whole window means no usable signal
+const WARNING_WINDOW_MS = 3000;
+
+/**
+ * FFmpeg filter chain that prints per-frame RMS and peak levels to stderr
+ */
+export function buildLevelMeterFilter(): string {
+    return [
+        'astats=metadata=1:reset=1',
+        'ametadata=mode=print:key=lavfi.astats.Overall.RMS_level',
+        'ametadata=mode=print:key=lavfi.astats.Overall.Peak_level'
+    ].join(',');
+}
+
+/**
+ * Parsing levels printed by the buildLevelMeterFilter chain; RMS and peak values are paired in order
+ */
+export function parseAudioLevels(output: string): AudioLevel[] {
+    const rmsValues: number[] = [];
+    const peakValues: number[] = [];
+    const pattern = /lavfi\.astats\.Overall\.(RMS|Peak)_level=(-?inf|-?\d+(?:\.\d+)?)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(output)) !== null) {
+        const value = match[2].endsWith('inf') ? LEVEL_FLOOR_DB : Math.max(LEVEL_FLOOR_DB, parseFloat(match[2]));
+        (match[1] === 'RMS' ? rmsValues : peakValues).push(value);
+    }
+
+    const count = Math.min(rmsValues.length, peakValues.length);
+    const levels: AudioLevel[] = [];
+    for (let index = 0; index < count; index++) {
+        levels.push({ rms: rmsValues[index], peak: peakValues[index] });
+    }
+    return levels;
+}
+
+/**
+ * Rendering a level as a bar of filled and empty blocks
+ */
+export function renderLevelBar(db: number, width: number): string {
+    const ratio = Math.min(1, Math.max(0, (db - METER_MIN_DB) / -METER_MIN_DB));
+    const filled = Math.round(ratio * width);
+    return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
+
+/**
+ * Human-readable text for a level warning
+ */
+export function describeLevelWarning(warning: LevelWarning): string {
+    return warning === 'clipping'
+        ? 'Input is clipping, lower the microphone gain'
+        : 'Input is very quiet, check that the right microphone is selected';
+}
+
+/**
+ * Keeping recent levels and deciding whether the input clips or is too quiet
+ */
+export class LevelMonitor {
+    private samples: Array<{ time: number; level: AudioLevel }> = [];
+    private firstSampleTime: number | null = null;
+
+    add(level: AudioLevel, now: number = Date.now()): void {
+        if (this.firstSampleTime === null) {
+            this.firstSampleTime = now;
+        }
+        this.samples.push({ time: now, level });
+        this.samples = this.samples.filter(sample => now - sample.time <= WARNING_WINDOW_MS);
+    }
+
+    reset(): void {
+        this.samples = [];
+        this.firstSampleTime = null;
+    }
+
+    /**
+     * Clipping wins over too-quiet; too-quiet needs a full window of samples
+     */
+    getWarning(now: number = Date.now()): LevelWarning | null {
+        const recent = this.samples.filter(sample => now - sample.time <= WARNING_WINDOW_MS);
+        if (recent.length === 0) {
+            return null;
+        }
+
+        const maxPeak = Math.max(...recent.map(sample => sample.level.peak));
+        if (maxPeak >= CLIPPING_PEAK_DB) {
+            return 'clipping';
+        }
+
+        const observedFor = this.firstSampleTime === null ? 0 : now - this.firstSampleTime;
+        if (observedFor >= WARNING_WINDOW_MS && maxPeak < TOO_QUIET_PEAK_DB) {
+            return 'tooQuiet';
+        }
+
+        return null;
+    }
+}
@@ -1,8 +1,17 @@
 import * as vscode from 'vscode';
-import { SUPPORTED_OPENAI_MODELS, DEFAULT_OPENAI_MODEL } from './OpenAIModels';
+import { SUPPORTED_OPENAI_MODELS, DEFAULT_OPENAI_MODEL, ModelPrice } from './OpenAIModels';
+import { API_AUTH_SCHEMES } from './ApiConnection';
+import { UPLOAD_CODECS } from './UploadEncoder';
+import { SILENCE_DETECTION_METHODS } from './SilenceDetect';
+import { DEFAULT_TRANSCRIPTION_PROVIDER, isSupportedProvider, providerRequiresApiKey } from './TranscriptionProviderFactory';
+import { HISTORY_STORAGE_SCOPES } from '../types/TranscriptionHistory';
+import { BUDGET_LIMIT_ACTIONS } from './UsageBudget';
+import { DEFAULT_PROFILE_NAME, PostProcessingProfile } from './PostProcessingProfiles';
+import { TextRule, validateTextRules } from './TextRules';
 
 // Interfaces for different configuration types
 export interface WhisperConfiguration {
+    provider: string;
     apiKey: string;
     language: string;
     whisperModel: string;
@@ -10,6 +19,13 @@ export interface WhisperConfiguration {
     temperature: number;
     timeout: number;
     maxRetries: number;
+    baseURL: string;
+    authScheme: string;
+    extraHeaders: Record<string, string>;
+    localBinaryPath: string;
+    localModelPath: string;
+    localThreads: number;
+    timestamps: boolean;
 }
 
 export interface AudioConfiguration {
@@ -19,11 +35,21 @@ export interface AudioConfiguration {
     silenceDetection: boolean;
     silenceDuration: number;
     silenceThreshold: number;
+    silenceDetectionMethod: string;
     inputDevice: string;
+    uploadCodec: string;
+    uploadBitrate: string;
+    holdToRecordMinDuration: number;
+    audioRetention: boolean;
+    audioRetentionMaxSize: number;      // in MB
+    audioRetentionMaxAge: number;       // in days
 }
 
 export interface UIConfiguration {
     showStatusBar: boolean;
+    livePreviewMode: string;
+    livePreviewSegmentDuration: number;
+    showLevelMeter: boolean;
 }
 
 export interface PostProcessingConfiguration {
@@ -31,6 +57,33 @@ export interface PostProcessingConfiguration {
     prompt: string;
     minTextLength: number;
     timeout: number;
+    baseURL: string;
+    profiles: Array<Partial<PostProcessingProfile>>;    // custom profiles and overrides of built-in ones
+    profile: string;                                    // name of the active profile
+    editorContext: boolean;                             // send language, nearby code and identifiers as system context
+    editorContextTokens: number;                        // token budget of the editor context
+}
+
+export interface HistoryConfiguration {
+    enabled: boolean;       // false = never store transcriptions
+    maxEntries: number;     // pinned entries don't count
+    maxAgeDays: number;     // 0 = no age limit
+    storage: string;        // 'global' (all workspaces) or 'workspace' (per-workspace workspaceState)
+}
+
+export interface UsageConfiguration {
+    prices: Record<string, ModelPrice>;     // overrides of the default price table, by model
+    dailyCostLimit: number;                 // USD, 0 = no limit
+    monthlyCostLimit: number;               // USD, 0 = no limit
+    dailyMinutesLimit: number;              // audio minutes, 0 = no limit
+    monthlyMinutesLimit: number;            // audio minutes, 0 = no limit
+    warningPercent: number;                 // share of a limit that triggers the warning
+    limitAction: string;                    // 'block', 'skipPostProcessing' or 'local'
+}
+
+export interface TextRulesConfiguration {
+    enabled: boolean;       // false = rules are not applied to transcriptions
+    rules: TextRule[];      // applied in order after post-processing
 }
 
 export interface FullConfiguration {
@@ -38,10 +91,13 @@ export interface FullConfiguration {
     audio: AudioConfiguration;
     ui: UIConfiguration;
     postProcessing: PostProcessingConfiguration;
+    history: HistoryConfiguration;
+    usage: UsageConfiguration;
+    textRules: TextRulesConfiguration;
 }
 
 // Type for configuration change listeners
-export type ConfigurationChangeListener = (config: FullConfiguration) => void;
+export type ConfigurationChangeListener = (config: FullConfiguration, event: vscode.ConfigurationChangeEvent) => void;
 
 /**
  * Centralized manager for managing extension settings
@@ -58,7 +114,7 @@ export class ConfigurationManager {
         const configChangeDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
             if (event.affectsConfiguration('speechToTextWhisper')) {
                 this.invalidateCache();
-                this.notifyListeners();
+                this.notifyListeners(event);
             }
         });
         this.disposables.push(configChangeDisposable);
@@ -112,6 +168,27 @@ export class ConfigurationManager {
         return this.getConfiguration().postProcessing;
     }
 
+    /**
+     * Get the transcription history configuration
+     */
+    public getHistoryConfiguration(): HistoryConfiguration {
+        return this.getConfiguration().history;
+    }
+
+    /**
+     * Get the usage tracking configuration
+     */
+    public getUsageConfiguration(): UsageConfiguration {
+        return this.getConfiguration().usage;
+    }
+
+    /**
+     * Get the text rules configuration
+     */
+    public getTextRulesConfiguration(): TextRulesConfiguration {
+        return this.getConfiguration().textRules;
+    }
+
     /**
      * Set the configuration value
      */
@@ -146,10 +223,27 @@ export class ConfigurationManager {
         const errors: string[] = [];
 
         // Validate the Whisper configuration
-        if (!config.whisper.apiKey || config.whisper.apiKey.trim() === '') {
+        const provider = config.whisper.provider || DEFAULT_TRANSCRIPTION_PROVIDER;
+        if (!isSupportedProvider(provider)) {
+            errors.push(`Unknown transcription provider: ${provider}`);
+        }
+
+        if (config.whisper.authScheme && !(API_AUTH_SCHEMES as readonly string[]).includes(config.whisper.authScheme)) {
+            errors.push(`Unknown API auth scheme: ${config.whisper.authScheme}`);
+        }
+
+        if (config.whisper.baseURL && !/^https?:\/\//.test(config.whisper.baseURL)) {
+            errors.push('API base URL must start with http:// or https://');
+        }
+
+        if (providerRequiresApiKey(provider, config.whisper.authScheme) && (!config.whisper.apiKey || config.whisper.apiKey.trim() === '')) {
             errors.push('Whisper API key is required');
         }
 
+        if (provider === 'local' && (!config.whisper.localModelPath || config.whisper.localModelPath.trim() === '')) {
+            errors.push('Local whisper model path is required');
+        }
+
         if (config.whisper.temperature < 0 || config.whisper.temperature > 1) {
             errors.push('Temperature must be between 0 and 1');
         }
@@ -175,6 +269,26 @@ export class ConfigurationManager {
             errors.push('Silence threshold must be between 20 and 80');
         }
 
+        if (config.audio.silenceDetectionMethod && !(SILENCE_DETECTION_METHODS as readonly string[]).includes(config.audio.silenceDetectionMethod)) {
+            errors.push(`Unknown silence detection method: ${config.audio.silenceDetectionMethod}`);
+        }
+
+        if (config.audio.uploadCodec && !(UPLOAD_CODECS as readonly string[]).includes(config.audio.uploadCodec)) {
+            errors.push(`Unknown upload codec: ${config.audio.uploadCodec}`);
+        }
+
+        if (config.audio.uploadBitrate && !/^\d+k$/.test(config.audio.uploadBitrate)) {
+            errors.push('Upload bitrate must look like 32k');
+        }
+
+        if (config.audio.holdToRecordMinDuration < 0) {
+            errors.push('Hold-to-record minimum duration must be non-negative');
+        }
+
+        if (config.audio.audioRetentionMaxSize <= 0 || config.audio.audioRetentionMaxAge <= 0) {
+            errors.push('Audio retention size and age limits must be greater than 0');
+        }
+
         // Validate the post-processing configuration
         if (config.postProcessing) {
             const validModels = SUPPORTED_OPENAI_MODELS as readonly string[];
@@ -191,6 +305,77 @@ export class ConfigurationManager {
             if (config.postProcessing.timeout <= 0) {
                 errors.push('Post-processing timeout must be greater than 0');
             }
+
+            if (config.postProcessing.baseURL && !/^https?:\/\//.test(config.postProcessing.baseURL)) {
+                errors.push('Post-processing base URL must start with http:// or https://');
+            }
+
+            if (config.postProcessing.editorContextTokens < 100) {
+                errors.push('Editor context token budget must be at least 100');
+            }
+
+            const validModels = SUPPORTED_OPENAI_MODELS as readonly string[];
+            for (const profile of config.postProcessing.profiles || []) {
+                if (!profile?.name?.trim()) {
+                    errors.push('Post-processing profiles must have a name');
+                    continue;
+                }
+
+                if (profile.model !== undefined && !validModels.includes(profile.model)) {
+                    errors.push(`Invalid model in post-processing profile ${profile.name}: ${profile.model}`);
+                }
+
+                if (profile.temperature !== undefined && (profile.temperature < 0 || profile.temperature > 2)) {
+                    errors.push(`Temperature of post-processing profile ${profile.name} must be between 0 and 2`);
+                }
+
+                if (profile.minTextLength !== undefined && profile.minTextLength < 0) {
+                    errors.push(`Minimum text length of post-processing profile ${profile.name} must be non-negative`);
+                }
+            }
+        }
+
+        // Validate the history configuration
+        if (config.history) {
+            if (config.history.maxEntries < 1) {
+                errors.push('History max entries must be at least 1');
+            }
+
+            if (config.history.maxAgeDays < 0) {
+                errors.push('History max age must be non-negative');
+            }
+
+            if (!(HISTORY_STORAGE_SCOPES as readonly string[]).includes(config.history.storage)) {
+                errors.push(`Unknown history storage: ${config.history.storage}`);
+            }
+        }
+
+        // Validate the usage configuration
+        if (config.usage) {
+            for (const [model, price] of Object.entries(config.usage.prices || {})) {
+                const values = [price?.perMinute, price?.inputPerMillion, price?.outputPerMillion];
+                if (values.some(value => value !== undefined && (typeof value !== 'number' || value < 0))) {
+                    errors.push(`Prices of ${model} must be non-negative numbers`);
+                }
+            }
+
+            const limits = [config.usage.dailyCostLimit, config.usage.monthlyCostLimit, config.usage.dailyMinutesLimit, config.usage.monthlyMinutesLimit];
+            if (limits.some(limit => limit < 0)) {
+                errors.push('Usage budget limits must be non-negative');
+            }
+
+            if (config.usage.warningPercent < 1 || config.usage.warningPercent > 100) {
+                errors.push('Usage budget warning must be between 1 and 100 percent');
+            }
+
+            if (!(BUDGET_LIMIT_ACTIONS as readonly string[]).includes(config.usage.limitAction)) {
+                errors.push(`Unknown usage budget action: ${config.usage.limitAction}`);
+            }
+        }
+
+        // Validate the text rules
+        if (config.textRules) {
+            errors.push(...validateTextRules(config.textRules.rules || []));
         }
 
         return {
@@ -205,13 +390,21 @@ export class ConfigurationManager {
     public getDefaultConfiguration(): FullConfiguration {
         return {
             whisper: {
+                provider: DEFAULT_TRANSCRIPTION_PROVIDER,
                 apiKey: '',
                 language: 'auto',
                 whisperModel: 'whisper-1',
                 prompt: "This is a technical instruction about programming in Visual Studio Code IDE. The speaker provides step-by-step coding instructions related to features, extensions, debugging, and software development workflows. Output should be formatted in markdown with proper code blocks and structure.",
                 temperature: 0.1,
                 timeout: 30000,
-                maxRetries: 3
+                maxRetries: 3,
+                baseURL: '',
+                authScheme: 'bearer',
+                extraHeaders: {},
+                localBinaryPath: '',
+                localModelPath: '',
+                localThreads: 0,
+                timestamps: false
             },
             audio: {
                 audioQuality: 'standard',
@@ -220,16 +413,50 @@ export class ConfigurationManager {
                 silenceDetection: true,
                 silenceDuration: 3,
                 silenceThreshold: 50,
-                inputDevice: 'auto'
+                silenceDetectionMethod: 'silencedetect',
+                inputDevice: 'auto',
+                uploadCodec: 'none',
+                uploadBitrate: '32k',
+                holdToRecordMinDuration: 0.5,
+                audioRetention: false,
+                audioRetentionMaxSize: 500,
+                audioRetentionMaxAge: 30
             },
             ui: {
-                showStatusBar: true
+                showStatusBar: true,
+                livePreviewMode: 'off',
+                livePreviewSegmentDuration: 5,
+                showLevelMeter: true
             },
             postProcessing: {
                 model: DEFAULT_OPENAI_MODEL,
                 prompt: 'Please improve this transcribed text by:\n1. Adding proper punctuation and capitalization\n2. Removing filler words (um, uh, like, you know)\n3. Always try to structure sentences for lists and paragraphs for better readability\n4. Maintaining the original meaning and technical terms\n5. Return improved text without any additional text or explanations\n\nOriginal text:',
                 minTextLength: 50,
-                timeout: 30000
+                timeout: 30000,
+                baseURL: '',
+                profiles: [],
+                profile: DEFAULT_PROFILE_NAME,
+                editorContext: false,
+                editorContextTokens: 1000
+            },
+            history: {
+                enabled: true,
+                maxEntries: 100,
+                maxAgeDays: 0,
+                storage: 'global'
+            },
+            usage: {
+                prices: {},
+                dailyCostLimit: 0,
+                monthlyCostLimit: 0,
+                dailyMinutesLimit: 0,
+                monthlyMinutesLimit: 0,
+                warningPercent: 80,
+                limitAction: 'block'
+            },
+            textRules: {
+                enabled: true,
+                rules: []
             }
         };
     }
@@ -242,12 +469,20 @@ export class ConfigurationManager {
         const config = vscode.workspace.getConfiguration('speechToTextWhisper');
 
         // Reset Whisper settings
+        await config.update('provider', defaultConfig.whisper.provider, vscode.ConfigurationTarget.Global);
         await config.update('language', defaultConfig.whisper.language, vscode.ConfigurationTarget.Global);
         await config.update('whisperModel', defaultConfig.whisper.whisperModel, vscode.ConfigurationTarget.Global);
         await config.update('prompt', defaultConfig.whisper.prompt, vscode.ConfigurationTarget.Global);
         await config.update('temperature', defaultConfig.whisper.temperature, vscode.ConfigurationTarget.Global);
         await config.update('timeout', defaultConfig.whisper.timeout, vscode.ConfigurationTarget.Global);
         await config.update('maxRetries', defaultConfig.whisper.maxRetries, vscode.ConfigurationTarget.Global);
+        await config.update('api.baseURL', defaultConfig.whisper.baseURL, vscode.ConfigurationTarget.Global);
+        await config.update('api.authScheme', defaultConfig.whisper.authScheme, vscode.ConfigurationTarget.Global);
+        await config.update('api.headers', defaultConfig.whisper.extraHeaders, vscode.ConfigurationTarget.Global);
+        await config.update('local.binaryPath', defaultConfig.whisper.localBinaryPath, vscode.ConfigurationTarget.Global);
+        await config.update('local.modelPath', defaultConfig.whisper.localModelPath, vscode.ConfigurationTarget.Global);
+        await config.update('local.threads', defaultConfig.whisper.localThreads, vscode.ConfigurationTarget.Global);
+        await config.update('timestamps', defaultConfig.whisper.timestamps, vscode.ConfigurationTarget.Global);
 
         // Reset audio settings
         await config.update('audioQuality', defaultConfig.audio.audioQuality, vscode.ConfigurationTarget.Global);
@@ -256,16 +491,50 @@ export class ConfigurationManager {
         await config.update('silenceDetection', defaultConfig.audio.silenceDetection, vscode.ConfigurationTarget.Global);
         await config.update('silenceDuration', defaultConfig.audio.silenceDuration, vscode.ConfigurationTarget.Global);
         await config.update('silenceThreshold', defaultConfig.audio.silenceThreshold, vscode.ConfigurationTarget.Global);
+        await config.update('silenceDetectionMethod', defaultConfig.audio.silenceDetectionMethod, vscode.ConfigurationTarget.Global);
         await config.update('inputDevice', defaultConfig.audio.inputDevice, vscode.ConfigurationTarget.Global);
+        await config.update('uploadEncoding.codec', defaultConfig.audio.uploadCodec, vscode.ConfigurationTarget.Global);
+        await config.update('uploadEncoding.bitrate', defaultConfig.audio.uploadBitrate, vscode.ConfigurationTarget.Global);
+        await config.update('holdToRecord.minDuration', defaultConfig.audio.holdToRecordMinDuration, vscode.ConfigurationTarget.Global);
+        await config.update('audioRetention.enabled', defaultConfig.audio.audioRetention, vscode.ConfigurationTarget.Global);
+        await config.update('audioRetention.maxSizeMB', defaultConfig.audio.audioRetentionMaxSize, vscode.ConfigurationTarget.Global);
+        await config.update('audioRetention.maxAgeDays', defaultConfig.audio.audioRetentionMaxAge, vscode.ConfigurationTarget.Global);
 
         // Reset UI settings
         await config.update('showStatusBar', defaultConfig.ui.showStatusBar, vscode.ConfigurationTarget.Global);
+        await config.update('livePreview.mode', defaultConfig.ui.livePreviewMode, vscode.ConfigurationTarget.Global);
+        await config.update('livePreview.segmentDuration', defaultConfig.ui.livePreviewSegmentDuration, vscode.ConfigurationTarget.Global);
+        await config.update('showLevelMeter', defaultConfig.ui.showLevelMeter, vscode.ConfigurationTarget.Global);
 
         // Reset post-processing settings
         await config.update('postProcessing.model', defaultConfig.postProcessing.model, vscode.ConfigurationTarget.Global);
         await config.update('postProcessing.prompt', defaultConfig.postProcessing.prompt, vscode.ConfigurationTarget.Global);
         await config.update('postProcessing.minTextLength', defaultConfig.postProcessing.minTextLength, vscode.ConfigurationTarget.Global);
         await config.update('postProcessing.timeout', defaultConfig.postProcessing.timeout, vscode.ConfigurationTarget.Global);
+        await config.update('postProcessing.baseURL', defaultConfig.postProcessing.baseURL, vscode.ConfigurationTarget.Global);
+        await config.update('postProcessing.profiles', defaultConfig.postProcessing.profiles, vscode.ConfigurationTarget.Global);
+        await config.update('postProcessing.profile', defaultConfig.postProcessing.profile, vscode.ConfigurationTarget.Global);
+        await config.update('postProcessing.editorContext', defaultConfig.postProcessing.editorContext, vscode.ConfigurationTarget.Global);
+        await config.update('postProcessing.editorContextTokens', defaultConfig.postProcessing.editorContextTokens, vscode.ConfigurationTarget.Global);
+
+        // Reset history settings
+        await config.update('history.enabled', defaultConfig.history.enabled, vscode.ConfigurationTarget.Global);
+        await config.update('history.maxEntries', defaultConfig.history.maxEntries, vscode.ConfigurationTarget.Global);
+        await config.update('history.maxAgeDays', defaultConfig.history.maxAgeDays, vscode.ConfigurationTarget.Global);
+        await config.update('history.storage', defaultConfig.history.storage, vscode.ConfigurationTarget.Global);
+
+        // Reset usage settings
+        await config.update('usage.prices', defaultConfig.usage.prices, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.dailyCost', defaultConfig.usage.dailyCostLimit, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.monthlyCost', defaultConfig.usage.monthlyCostLimit, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.dailyMinutes', defaultConfig.usage.dailyMinutesLimit, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.monthlyMinutes', defaultConfig.usage.monthlyMinutesLimit, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.warningPercent', defaultConfig.usage.warningPercent, vscode.ConfigurationTarget.Global);
+        await config.update('usage.budget.action', defaultConfig.usage.limitAction, vscode.ConfigurationTarget.Global);
+
+        // Reset text rules
+        await config.update('textRules.enabled', defaultConfig.textRules.enabled, vscode.ConfigurationTarget.Global);
+        await config.update('textRules.rules', defaultConfig.textRules.rules, vscode.ConfigurationTarget.Global);
 
         this.invalidateCache();
     }
@@ -289,13 +558,21 @@ export class ConfigurationManager {
 
         return {
             whisper: {
+                provider: config.get<string>('provider', defaultConfig.whisper.provider),
                 apiKey: config.get<string>('apiKey', defaultConfig.whisper.apiKey),
                 language: config.get<string>('language', defaultConfig.whisper.language),
                 whisperModel: config.get<string>('whisperModel', defaultConfig.whisper.whisperModel),
                 prompt: config.get<string>('prompt', defaultConfig.whisper.prompt),
                 temperature: config.get<number>('temperature', defaultConfig.whisper.temperature),
                 timeout: config.get<number>('timeout', defaultConfig.whisper.timeout),
-                maxRetries: config.get<number>('maxRetries', defaultConfig.whisper.maxRetries)
+                maxRetries: config.get<number>('maxRetries', defaultConfig.whisper.maxRetries),
+                baseURL: config.get<string>('api.baseURL', defaultConfig.whisper.baseURL),
+                authScheme: config.get<string>('api.authScheme', defaultConfig.whisper.authScheme),
+                extraHeaders: config.get<Record<string, string>>('api.headers', defaultConfig.whisper.extraHeaders),
+                localBinaryPath: config.get<string>('local.binaryPath', defaultConfig.whisper.localBinaryPath),
+                localModelPath: config.get<string>('local.modelPath', defaultConfig.whisper.localModelPath),
+                localThreads: config.get<number>('local.threads', defaultConfig.whisper.localThreads),
+                timestamps: config.get<boolean>('timestamps', defaultConfig.whisper.timestamps)
             },
             audio: {
                 audioQuality: config.get<string>('audioQuality', defaultConfig.audio.audioQuality),
@@ -304,16 +581,50 @@ export class ConfigurationManager {
                 silenceDetection: config.get<boolean>('silenceDetection', defaultConfig.audio.silenceDetection),
                 silenceDuration: config.get<number>('silenceDuration', defaultConfig.audio.silenceDuration),
                 silenceThreshold: config.get<number>('silenceThreshold', defaultConfig.audio.silenceThreshold),
-                inputDevice: config.get<string>('inputDevice', defaultConfig.audio.inputDevice)
+                silenceDetectionMethod: config.get<string>('silenceDetectionMethod', defaultConfig.audio.silenceDetectionMethod),
+                inputDevice: config.get<string>('inputDevice', defaultConfig.audio.inputDevice),
+                uploadCodec: config.get<string>('uploadEncoding.codec', defaultConfig.audio.uploadCodec),
+                uploadBitrate: config.get<string>('uploadEncoding.bitrate', defaultConfig.audio.uploadBitrate),
+                holdToRecordMinDuration: config.get<number>('holdToRecord.minDuration', defaultConfig.audio.holdToRecordMinDuration),
+                audioRetention: config.get<boolean>('audioRetention.enabled', defaultConfig.audio.audioRetention),
+                audioRetentionMaxSize: config.get<number>('audioRetention.maxSizeMB', defaultConfig.audio.audioRetentionMaxSize),
+                audioRetentionMaxAge: config.get<number>('audioRetention.maxAgeDays', defaultConfig.audio.audioRetentionMaxAge)
             },
             ui: {
-                showStatusBar: config.get<boolean>('showStatusBar', defaultConfig.ui.showStatusBar)
+                showStatusBar: config.get<boolean>('showStatusBar', defaultConfig.ui.showStatusBar),
+                livePreviewMode: config.get<string>('livePreview.mode', defaultConfig.ui.livePreviewMode),
+                livePreviewSegmentDuration: config.get<number>('livePreview.segmentDuration', defaultConfig.ui.livePreviewSegmentDuration),
+                showLevelMeter: config.get<boolean>('showLevelMeter', defaultConfig.ui.showLevelMeter)
             },
             postProcessing: {
                 model: config.get<string>('postProcessing.model', defaultConfig.postProcessing.model),
                 prompt: config.get<string>('postProcessing.prompt', defaultConfig.postProcessing.prompt),
                 minTextLength: config.get<number>('postProcessing.minTextLength', defaultConfig.postProcessing.minTextLength),
-                timeout: config.get<number>('postProcessing.timeout', defaultConfig.postProcessing.timeout)
+                timeout: config.get<number>('postProcessing.timeout', defaultConfig.postProcessing.timeout),
+                baseURL: config.get<string>('postProcessing.baseURL', defaultConfig.postProcessing.baseURL),
+                profiles: config.get<Array<Partial<PostProcessingProfile>>>('postProcessing.profiles', defaultConfig.postProcessing.profiles),
+                profile: config.get<string>('postProcessing.profile', defaultConfig.postProcessing.profile),
+                editorContext: config.get<boolean>('postProcessing.editorContext', defaultConfig.postProcessing.editorContext),
+                editorContextTokens: config.get<number>('postProcessing.editorContextTokens', defaultConfig.postProcessing.editorContextTokens)
+            },
+            history: {
+                enabled: config.get<boolean>('history.enabled', defaultConfig.history.enabled),
+                maxEntries: config.get<number>('history.maxEntries', defaultConfig.history.maxEntries),
+                maxAgeDays: config.get<number>('history.maxAgeDays', defaultConfig.history.maxAgeDays),
+                storage: config.get<string>('history.storage', defaultConfig.history.storage)
+            },
+            usage: {
+                prices: config.get<Record<string, ModelPrice>>('usage.prices', defaultConfig.usage.prices),
+                dailyCostLimit: config.get<number>('usage.budget.dailyCost', defaultConfig.usage.dailyCostLimit),
+                monthlyCostLimit: config.get<number>('usage.budget.monthlyCost', defaultConfig.usage.monthlyCostLimit),
+                dailyMinutesLimit: config.get<number>('usage.budget.dailyMinutes', defaultConfig.usage.dailyMinutesLimit),
+                monthlyMinutesLimit: config.get<number>('usage.budget.monthlyMinutes', defaultConfig.usage.monthlyMinutesLimit),
+                warningPercent: config.get<number>('usage.budget.warningPercent', defaultConfig.usage.warningPercent),
+                limitAction: config.get<string>('usage.budget.action', defaultConfig.usage.limitAction)
+            },
+            textRules: {
+                enabled: config.get<boolean>('textRules.enabled', defaultConfig.textRules.enabled),
+                rules: config.get<TextRule[]>('textRules.rules', defaultConfig.textRules.rules)
             }
         };
     }
@@ -328,11 +639,11 @@ export class ConfigurationManager {
     /**
      * Notify all listeners about configuration changes
      */
-    private notifyListeners(): void {
+    private notifyListeners(event: vscode.ConfigurationChangeEvent): void {
         const config = this.getConfiguration();
         this.changeListeners.forEach(listener => {
             try {
-                listener(config);
+                listener(config, event);
             } catch (error) {
                 console.error('Error in configuration change listener:', error);
             }
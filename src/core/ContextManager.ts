@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { EditorContext, extractIdentifiers } from './EditorContext';
 
 /**
  * IDE types supported by SpeechToTextWhisper
@@ -508,6 +509,35 @@ export class ContextManager {
         return this.currentContext.activeEditor?.language || null;
     }
 
+    /**
+     * Get the active file's language, selection, lines around the cursor and identifiers
+     */
+    getEditorContext(lineRadius: number = 50): EditorContext | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return undefined;
+        }
+
+        const document = editor.document;
+        const cursorLine = editor.selection.active.line;
+        const firstLine = Math.max(0, cursorLine - lineRadius);
+        const lastLine = Math.min(document.lineCount - 1, cursorLine + lineRadius);
+        const lines: string[] = [];
+        for (let line = firstLine; line <= lastLine; line++) {
+            lines.push(document.lineAt(line).text);
+        }
+
+        return {
+            languageId: document.languageId,
+            languageName: this.getLanguageInfo(document.languageId).name,
+            fileName: document.isUntitled ? undefined : vscode.workspace.asRelativePath(document.uri),
+            selection: editor.selection.isEmpty ? undefined : document.getText(editor.selection),
+            lines,
+            cursorIndex: cursorLine - firstLine,
+            identifiers: extractIdentifiers(document.getText())
+        };
+    }
+
     /**
      * Check if the support of a certain type of comments
      */
@@ -0,0 +1,110 @@
+// EditorContext.ts - Code around the cursor sent as system context for post-processing
+
+export interface EditorContext {
+    languageId: string;
+    languageName?: string;
+    fileName?: string;          // workspace-relative path
+    selection?: string;
+    lines: string[];            // document lines around the cursor
+    cursorIndex: number;        // index of the cursor line in lines
+    identifiers: string[];      // symbol names of the document, most frequent first
+}
+
+// Documents larger than this are only scanned up to this length for identifiers
+const MAX_SCANNED_LENGTH = 500000;
+
+/**
+ * Rough token count of text for budgeting (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Symbol-like names of a document: camelCase, PascalCase and snake_case words of three or more
+ * characters, most frequent first. Plain words are left out since the model spells them anyway.
+ */
+export function extractIdentifiers(text: string, maxCount: number = 200): string[] {
+    const counts = new Map<string, number>();
+    const matches = text.slice(0, MAX_SCANNED_LENGTH).match(/[A-Za-z_$][\w$]{2,}/g) || [];
+
+    for (const word of matches) {
+        const isSymbol = /[a-z][A-Z]/.test(word) || /[A-Za-z0-9]_[A-Za-z0-9]/.test(word) || /^[A-Z][a-z0-9]+[A-Z]/.test(word);
+        if (isSymbol) {
+            counts.set(word, (counts.get(word) || 0) + 1);
+        }
+    }
+
+    // Map iteration keeps first-seen order, so equally frequent names stay in document order
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxCount)
+        .map(([word]) => word);
+}
+
+/**
+ * System message describing the editor the text was dictated in. Within the token budget the
+ * selection gets up to half, the identifier list up to a quarter and the lines nearest to the
+ * cursor the rest, so large files are trimmed rather than sent whole.
+ */
+export function buildEditorContextPrompt(context: EditorContext, maxTokens: number): string {
+    const language = context.languageName || context.languageId;
+    const header = [
+        `The text below was dictated while editing ${context.fileName ? `${context.fileName} (${language})` : `a ${language} file`}.`,
+        'Use the code context only to spell symbol names, file names and technical terms exactly as they appear in the code',
+        '(for example "get user by id" becomes getUserById when that symbol exists). Do not include the context in your answer.'
+    ].join(' ');
+    let budget = maxTokens - estimateTokens(header);
+    const sections = [header];
+
+    if (context.selection && budget > 0) {
+        const selection = trimToTokens(context.selection, Math.floor(maxTokens / 2));
+        sections.push(`Selected code:\n${selection}`);
+        budget -= estimateTokens(selection);
+    }
+
+    const identifiers: string[] = [];
+    let identifierBudget = Math.min(budget, Math.floor(maxTokens / 4));
+    for (const identifier of context.identifiers) {
+        const cost = estimateTokens(identifier) + 1;
+        if (cost > identifierBudget) {
+            break;
+        }
+        identifiers.push(identifier);
+        identifierBudget -= cost;
+        budget -= cost;
+    }
+    if (identifiers.length > 0) {
+        sections.push(`Identifiers in this file: ${identifiers.join(', ')}`);
+    }
+
+    // Nearest lines first, alternating above and below the cursor
+    const picked = new Set<number>();
+    for (let distance = 0; distance < context.lines.length && budget > 0; distance++) {
+        for (const index of distance === 0 ? [context.cursorIndex] : [context.cursorIndex - distance, context.cursorIndex + distance]) {
+            if (index < 0 || index >= context.lines.length) {
+                continue;
+            }
+            const cost = estimateTokens(context.lines[index]) + 1;
+            if (cost > budget) {
+                budget = 0;
+                break;
+            }
+            picked.add(index);
+            budget -= cost;
+        }
+    }
+    if (picked.size > 0) {
+        const nearby = [...picked].sort((a, b) => a - b).map(index => context.lines[index]).join('\n');
+        if (nearby.trim()) {
+            sections.push(`Code around the cursor:\n${nearby}`);
+        }
+    }
+
+    return sections.join('\n\n');
+}
+
+function trimToTokens(text: string, maxTokens: number): string {
+    const maxLength = maxTokens * 4;
+    return text.length > maxLength ? `${text.slice(0, maxLength)}\n…` : text;
+}
@@ -7,6 +7,10 @@ import which from 'which';
 import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { findWavDataOffset, createWavBuffer } from './WavUtils';
+import { RecordingClock } from './RecordingClock';
+import { buildSilenceDetectFilter, parseSilenceEvents, SilenceDetectionMethod } from './SilenceDetect';
+import { AudioLevel, buildLevelMeterFilter, parseAudioLevels } from './AudioLevel';
 
 // Compatible interfaces with the current AudioRecorder
 export interface AudioRecorderEvents {
@@ -14,6 +18,9 @@ export interface AudioRecorderEvents {
     onRecordingStop: (audioBlob: Blob) => void;
     onError: (error: Error) => void;
     onDataAvailable?: (data: Blob) => void;
+    onRecordingPause?: () => void;
+    onRecordingResume?: () => void;
+    onVolumeLevel?: (level: AudioLevel) => void;
 }
 
 export interface AudioRecordingOptions {
@@ -28,10 +35,13 @@ export interface AudioRecordingOptions {
     silenceDetection?: boolean;    // silence detection
     silenceThreshold?: number;     // silence threshold in dB (default: -50)
     silenceDuration?: number;      // silence duration for auto-stop in seconds (default: 3)
+    silenceDetectionMethod?: SilenceDetectionMethod; // silencedetect filter on the recording process (default) or a separate volumedetect process
     inputDevice?: string;          // auto-detection or device path
     codec?: string;               // -acodec (default: pcm_s16le for WAV)
     outputPath?: string;          // temporary folder for files
     ffmpegPath?: string;          // path to the FFmpeg executable file
+    segmentDuration?: number;     // seconds between rolling segments sent to onDataAvailable (0 = disabled, WAV only)
+    levelMeter?: boolean;         // measure input levels on the recording process for onVolumeLevel
 }
 
 // Platform-specific commands for FFmpeg
@@ -56,10 +66,19 @@ export interface AudioDevice {
     isDefault?: boolean;  // Is the device the default one
 }
 
+// Shortest silence reported by the silencedetect filter, in seconds
+const SILENCE_DETECT_WINDOW = 0.5;
+
+// Minimum interval between onVolumeLevel events
+const LEVEL_EVENT_INTERVAL = 100;
+
+// Bytes read from the start of the growing WAV to find the data chunk (FFmpeg may write a LIST chunk first)
+const SEGMENT_HEADER_READ_SIZE = 4096;
+
 export class FFmpegAudioRecorder {
     private ffmpegProcess: ChildProcess | null = null;
     private isRecording = false;
-    private recordingStartTime: number = 0;
+    private recordingClock = new RecordingClock();
     private maxDurationTimer: NodeJS.Timeout | null = null;
     private tempFilePath: string | null = null;
     private tempFileCleanup: (() => void) | null = null;
@@ -69,6 +88,7 @@ export class FFmpegAudioRecorder {
     private lastAudioTime: number = 0;
     private silenceDetectionEnabled: boolean = false;
     private lastFileSize: number = 0; // DEPRECATED: Tracking file size for growth detection
+    private silenceStartedAt: number | null = null; // wall-clock start of the silence reported by silencedetect
     
     // New variables for volumedetect system
     private volumeDetectProcess: ChildProcess | null = null;
@@ -79,6 +99,19 @@ export class FFmpegAudioRecorder {
     private volumeSegmentDuration: number = 1; // seconds for analyzing segments
     private currentRecordingDevice: string | null = null; // current recording device
 
+    // Level meter: loudest level since the last onVolumeLevel event
+    private pendingLevel: AudioLevel | null = null;
+    private lastLevelEventTime: number = 0;
+
+    // Rolling segments for live transcription
+    private segmentTimer: NodeJS.Timeout | null = null;
+    private segmentReadOffset: number = 0; // PCM bytes already sent to onDataAvailable
+
+    // Pause / resume: every take is recorded to its own file and joined at stop
+    private isPaused = false;
+    private completedTakes: Array<{ path: string; cleanup: () => void }> = [];
+    private pendingTakeClose: Promise<void> | null = null;
+
     constructor(
         private events: AudioRecorderEvents,
         private options: AudioRecordingOptions = {},
@@ -415,7 +448,7 @@ export class FFmpegAudioRecorder {
             this.ffmpegProcess = spawn(ffmpegCheck.path!, ffmpegArgs);
             
             this.setupFFmpegEvents();
-            this.recordingStartTime = Date.now();
+            this.recordingClock.start();
             this.lastFileSize = 0; // Reset the file size for a new recording
             this.isRecording = true;
 
@@ -425,6 +458,9 @@ export class FFmpegAudioRecorder {
             // Initialize silence detection if enabled
             this.setupSilenceDetection();
 
+            // Emit rolling segments for live transcription if requested
+            this.setupSegmentEmitter();
+
             // Save the device for volumedetect and start volume analysis
             this.currentRecordingDevice = deviceToUse;
             if (this.options.silenceDetection) {
@@ -453,13 +489,20 @@ export class FFmpegAudioRecorder {
         this.log(`🎤 [RECORDER] stopRecording: ffmpegProcess exists: ${!!this.ffmpegProcess}`);
         this.log(`🎤 [RECORDER] stopRecording: ffmpegProcess killed: ${this.ffmpegProcess?.killed}`);
         this.log(`🎤 [RECORDER] stopRecording: tempFilePath: ${this.tempFilePath}`);
-        
+
+        // While paused there is no FFmpeg process: the recorded takes are finalized directly
+        if (this.isRecording && this.isPaused) {
+            this.log(`⏸️ [PAUSE] stopRecording while paused: finalizing ${this.completedTakes.length} take(s)`);
+            this.handleRecordingComplete(0);
+            return;
+        }
+
         if (!this.isRecording || !this.ffmpegProcess) {
             this.logWarn(`🎤 [RECORDER] stopRecording: Not recording or no process. isRecording: ${this.isRecording}, ffmpegProcess: ${!!this.ffmpegProcess}`);
             return;
         }
 
-        const recordingDuration = Date.now() - this.recordingStartTime;
+        const recordingDuration = this.recordingClock.getElapsed();
         this.log(`📊 Recording duration: ${recordingDuration}ms`);
 
         // If the recording is too short (less than 500ms), show a warning
@@ -472,6 +515,7 @@ export class FFmpegAudioRecorder {
         this.log(`🎤 [RECORDER] stopRecording: Clearing timers...`);
         this.clearMaxDurationTimer();
         this.clearSilenceTimer();
+        this.clearSegmentTimer();
         this.log(`🎤 [RECORDER] stopRecording: Timers cleared`);
 
         try {
@@ -498,6 +542,168 @@ export class FFmpegAudioRecorder {
         this.log(`🎤 [RECORDER] stopRecording: Method completed, waiting for 'close' event...`);
     }
 
+    /**
+     * Cancel recording: FFmpeg is stopped and the audio is discarded without onRecordingStop
+     */
+    cancelRecording(): void {
+        if (!this.isRecording) {
+            return;
+        }
+
+        this.log(`🗑️ [RECORDER] Recording cancelled after ${this.recordingClock.getElapsed()}ms, discarding audio`);
+        this.cleanup();
+    }
+
+    /**
+     * Pause recording: the current take is closed and kept until the recording is stopped
+     */
+    async pauseRecording(): Promise<void> {
+        if (!this.isRecording || !this.ffmpegProcess) {
+            throw new Error('No recording in progress');
+        }
+        if (this.isPaused) {
+            return;
+        }
+        if ((this.options.audioFormat || 'wav') !== 'wav') {
+            throw new Error('Pausing is only supported for WAV recordings');
+        }
+
+        this.log(`⏸️ [PAUSE] Pausing recording after ${this.recordingClock.getElapsed()}ms`);
+
+        // Send the audio captured since the last segment before the take is closed
+        this.emitSegment();
+
+        this.isPaused = true;
+        this.recordingClock.pause();
+        this.clearMaxDurationTimer();
+        this.clearSilenceTimer();
+        this.clearSegmentTimer();
+        this.cleanupVolumeDetection();
+
+        const takeProcess = this.ffmpegProcess;
+        this.ffmpegProcess = null;
+        if (this.tempFilePath && this.tempFileCleanup) {
+            this.completedTakes.push({ path: this.tempFilePath, cleanup: this.tempFileCleanup });
+        }
+        this.tempFilePath = null;
+        this.tempFileCleanup = null;
+
+        this.pendingTakeClose = this.closeTakeProcess(takeProcess);
+        await this.pendingTakeClose;
+
+        this.events.onRecordingPause?.();
+    }
+
+    /**
+     * Resume a paused recording into a new take
+     */
+    async resumeRecording(): Promise<void> {
+        if (!this.isRecording || !this.isPaused) {
+            throw new Error('Recording is not paused');
+        }
+
+        const ffmpegCheck = await FFmpegAudioRecorder.checkFFmpegAvailability();
+        if (!ffmpegCheck.available || !ffmpegCheck.path) {
+            throw new Error(ffmpegCheck.error || 'FFmpeg is not available');
+        }
+
+        // The recording may have been stopped while FFmpeg was being checked
+        if (!this.isRecording || !this.isPaused) {
+            return;
+        }
+
+        const tempFile = tmp.fileSync({
+            prefix: 'vscs-recording-',
+            postfix: '.wav',
+            keep: false
+        });
+        this.tempFilePath = tempFile.name;
+        this.tempFileCleanup = tempFile.removeCallback;
+
+        const device = this.currentRecordingDevice || undefined;
+        this.ffmpegProcess = spawn(ffmpegCheck.path, this.buildFFmpegArgs(this.tempFilePath, device));
+        this.setupFFmpegEvents();
+
+        this.isPaused = false;
+        this.recordingClock.resume();
+        this.log(`▶️ [PAUSE] Resuming recording (take ${this.completedTakes.length + 1}, paused ${this.recordingClock.getPausedTime()}ms in total)`);
+
+        this.setupMaxDurationTimer();
+        this.setupSilenceDetection();
+        this.setupSegmentEmitter();
+        if (this.options.silenceDetection) {
+            await this.startVolumeDetection(device);
+        }
+
+        this.events.onRecordingResume?.();
+    }
+
+    /**
+     * Stopping the FFmpeg process of a take and waiting until its file is finalized
+     */
+    private closeTakeProcess(takeProcess: ChildProcess): Promise<void> {
+        return new Promise((resolve) => {
+            const forceKillTimer = setTimeout(() => {
+                this.logWarn('⏸️ [PAUSE] FFmpeg take did not terminate gracefully, forcing kill');
+                takeProcess.kill('SIGKILL');
+                resolve();
+            }, 5000);
+
+            takeProcess.once('close', () => {
+                clearTimeout(forceKillTimer);
+                resolve();
+            });
+
+            takeProcess.kill('SIGTERM');
+        });
+    }
+
+    /**
+     * Joining the PCM data of all takes into one WAV file that replaces the current temp file
+     */
+    private mergeTakes(): void {
+        const takes = [...this.completedTakes];
+        if (this.tempFilePath && this.tempFileCleanup) {
+            takes.push({ path: this.tempFilePath, cleanup: this.tempFileCleanup });
+        }
+
+        const sampleRate = this.options.sampleRate || 16000;
+        const channelCount = this.options.channelCount || 1;
+        const blockAlign = channelCount * 2;
+
+        const pcmParts = takes
+            .filter(take => fs.existsSync(take.path))
+            .map(take => {
+                const buffer = fs.readFileSync(take.path);
+                const dataOffset = findWavDataOffset(buffer);
+                if (dataOffset === null) {
+                    return Buffer.alloc(0);
+                }
+                const available = buffer.length - dataOffset;
+                return buffer.subarray(dataOffset, dataOffset + available - (available % blockAlign));
+            });
+
+        const mergedFile = tmp.fileSync({
+            prefix: 'vscs-recording-',
+            postfix: '.wav',
+            keep: false
+        });
+        fs.writeFileSync(mergedFile.name, createWavBuffer(Buffer.concat(pcmParts), sampleRate, channelCount));
+        this.log(`⏸️ [PAUSE] Merged ${takes.length} take(s) into ${mergedFile.name}`);
+
+        for (const take of takes) {
+            try {
+                take.cleanup();
+            } catch (error) {
+                // Ignore cleaning errors
+            }
+        }
+
+        this.completedTakes = [];
+        this.tempFilePath = mergedFile.name;
+        this.tempFileCleanup = mergedFile.removeCallback;
+    }
+
     /**
      * Creating arguments for the FFmpeg command
      */
@@ -534,6 +740,18 @@ export class FFmpegAudioRecorder {
         const codec = this.options.codec || this.getDefaultCodec();
         args.push('-acodec', codec);
 
+        // Silence and levels are reported on stderr by the recording process itself
+        const filters: string[] = [];
+        if (this.usesSilenceDetectFilter()) {
+            filters.push(buildSilenceDetectFilter(-(this.options.silenceThreshold || 50), SILENCE_DETECT_WINDOW));
+        }
+        if (this.options.levelMeter) {
+            filters.push(buildLevelMeterFilter());
+        }
+        if (filters.length > 0) {
+            args.push('-af', filters.join(','));
+        }
+
         // Maximum duration
         if (this.options.maxDuration) {
             args.push('-t', this.options.maxDuration.toString());
@@ -577,7 +795,15 @@ export class FFmpegAudioRecorder {
 
         this.log(`🎤 [RECORDER] setupFFmpegEvents: Setting up events for FFmpeg PID: ${this.ffmpegProcess.pid}`);
 
+        const takeProcess = this.ffmpegProcess;
+
         this.ffmpegProcess.on('close', (code) => {
+            // A take closed by pauseRecording: the recording itself continues
+            if (this.isRecording && takeProcess !== this.ffmpegProcess) {
+                this.log(`⏸️ [PAUSE] FFmpeg take closed with code: ${code}`);
+                return;
+            }
+
             this.log(`🎤 [RECORDER] FFmpeg 'close' event triggered!`);
             this.log(`🎤 [RECORDER] FFmpeg process closed with code: ${code}`);
             this.log(`🎤 [RECORDER] Current isRecording state at close: ${this.isRecording}`);
@@ -596,6 +822,11 @@ export class FFmpegAudioRecorder {
         });
 
         this.ffmpegProcess.on('error', (error) => {
+            if (this.isRecording && takeProcess !== this.ffmpegProcess) {
+                this.logWarn(`⏸️ [PAUSE] Error in a closed FFmpeg take: ${error.message}`);
+                return;
+            }
+
             this.logError(`🎤 [RECORDER] FFmpeg process error event: ${error}`);
             this.log(`🎤 [RECORDER] Error event: Setting isRecording to false`);
             this.isRecording = false;
@@ -612,7 +843,27 @@ export class FFmpegAudioRecorder {
 
         this.ffmpegProcess.stderr?.on('data', (data) => {
             const output = data.toString();
-            this.log(`🎤 [RECORDER] FFmpeg stderr: ${output.trim()}`);
+            const levels = this.options.levelMeter ? parseAudioLevels(output) : [];
+
+            // Level lines arrive many times per second and would flood the log
+            const logOutput = levels.length > 0
+                ? output.split('\n').filter((line: string) => !line.includes('Parsed_ametadata')).join('\n')
+                : output;
+            if (logOutput.trim()) {
+                this.log(`🎤 [RECORDER] FFmpeg stderr: ${logOutput.trim()}`);
+            }
+
+            if (takeProcess === this.ffmpegProcess) {
+                for (const level of levels) {
+                    this.emitVolumeLevel(level);
+                }
+            }
+
+            if (this.usesSilenceDetectFilter() && takeProcess === this.ffmpegProcess) {
+                for (const event of parseSilenceEvents(output)) {
+                    this.handleSilenceEvent(event.type, event.time);
+                }
+            }
             
             // Detailed logging for silence detection (now volumedetect controls activity)
             if (this.silenceDetectionEnabled) {
@@ -756,6 +1007,13 @@ export class FFmpegAudioRecorder {
                 this.logWarn(`FFmpeg exited with code ${exitCode}, but checking if file was created anyway`);
             }
 
+            // Joining the takes of a paused and resumed recording into one file
+            if (this.completedTakes.length > 0) {
+                await this.pendingTakeClose;
+                await new Promise(resolve => setTimeout(resolve, 100));
+                this.mergeTakes();
+            }
+
             // Check for the presence of tempFilePath before all operations
             if (!this.tempFilePath) {
                 throw new Error('Recording was cancelled or temp file path is not available');
@@ -780,7 +1038,7 @@ export class FFmpegAudioRecorder {
             const stats = fs.statSync(currentTempFilePath);
             this.log(`Recording file size: ${stats.size} bytes`);
             
-            const recordingDuration = Date.now() - this.recordingStartTime;
+            const recordingDuration = this.recordingClock.getElapsed();
             const MIN_FILE_SIZE = 1000; // Minimum 1KB for a valid audio file
             
             if (stats.size === 0) {
@@ -882,8 +1140,9 @@ export class FFmpegAudioRecorder {
         this.log(`⏰ [MAX_DURATION] maxDuration option: ${this.options.maxDuration} seconds`);
         
         if (this.options.maxDuration && this.options.maxDuration > 0) {
-            const maxDurationMs = this.options.maxDuration * 1000;
-            this.log(`⏰ [MAX_DURATION] Setting max duration timer for ${maxDurationMs}ms (${this.options.maxDuration}s)`);
+            // After a resume only the remaining active time is left
+            const maxDurationMs = Math.max(0, this.options.maxDuration * 1000 - this.recordingClock.getElapsed());
+            this.log(`⏰ [MAX_DURATION] Setting max duration timer for ${maxDurationMs}ms (limit ${this.options.maxDuration}s)`);
             
             this.maxDurationTimer = setTimeout(() => {
                 this.log(`⏰ [MAX_DURATION] MAX DURATION REACHED! Stopping recording after ${this.options.maxDuration} seconds`);
@@ -896,11 +1155,95 @@ export class FFmpegAudioRecorder {
         }
     }
 
+    /**
+     * Setting up the timer that sends new audio to onDataAvailable as standalone WAV segments
+     */
+    private setupSegmentEmitter(): void {
+        const segmentDuration = this.options.segmentDuration || 0;
+        const format = this.options.audioFormat || 'wav';
+
+        if (segmentDuration <= 0 || !this.events.onDataAvailable) {
+            return;
+        }
+
+        if (format !== 'wav') {
+            this.logWarn(`🎙️ [SEGMENTS] Rolling segments need WAV recording, current format: ${format}`);
+            return;
+        }
+
+        this.segmentReadOffset = 0;
+        this.segmentTimer = setInterval(() => this.emitSegment(), segmentDuration * 1000);
+        this.log(`🎙️ [SEGMENTS] Emitting rolling segments every ${segmentDuration}s`);
+    }
+
+    /**
+     * Reading PCM written since the last segment and sending it as a WAV blob. Only the header
+     * and the new bytes are read, so each tick costs the same however long the recording is.
+     */
+    private emitSegment(): void {
+        if (!this.tempFilePath || !this.events.onDataAvailable || !fs.existsSync(this.tempFilePath)) {
+            return;
+        }
+
+        let fd: number | null = null;
+        try {
+            fd = fs.openSync(this.tempFilePath, 'r');
+            const fileSize = fs.fstatSync(fd).size;
+            const header = Buffer.alloc(Math.min(fileSize, SEGMENT_HEADER_READ_SIZE));
+            fs.readSync(fd, header, 0, header.length, 0);
+            const dataOffset = findWavDataOffset(header);
+            if (dataOffset === null) {
+                return;
+            }
+
+            const sampleRate = this.options.sampleRate || 16000;
+            const channelCount = this.options.channelCount || 1;
+            const blockAlign = channelCount * 2;
+
+            const available = fileSize - dataOffset;
+            const end = available - (available % blockAlign);
+            const newBytes = end - this.segmentReadOffset;
+
+            // Skip fragments shorter than half a second, they only produce noise in transcription
+            if (newBytes < sampleRate * blockAlign / 2) {
+                return;
+            }
+
+            const pcm = Buffer.alloc(newBytes);
+            const bytesRead = fs.readSync(fd, pcm, 0, newBytes, dataOffset + this.segmentReadOffset);
+            if (bytesRead < newBytes) {
+                return; // read again on the next tick
+            }
+            this.segmentReadOffset = end;
+
+            const segmentBlob = new Blob([createWavBuffer(pcm, sampleRate, channelCount)], { type: 'audio/wav' }) as Blob & { name?: string };
+            segmentBlob.name = 'segment.wav';
+            this.log(`🎙️ [SEGMENTS] Emitting segment: ${pcm.length} bytes (${(pcm.length / (sampleRate * blockAlign)).toFixed(1)}s)`);
+            this.events.onDataAvailable(segmentBlob);
+        } catch (error) {
+            this.logWarn(`🎙️ [SEGMENTS] Failed to read segment: ${(error as Error).message}`);
+        } finally {
+            if (fd !== null) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+
+    /**
+     * Clearing the rolling segment timer
+     */
+    private clearSegmentTimer(): void {
+        if (this.segmentTimer) {
+            clearInterval(this.segmentTimer);
+            this.segmentTimer = null;
+        }
+    }
+
     /**
      * Starting the volumedetect process for audio volume analysis
      */
     private async startVolumeDetection(recommendedDevice?: string): Promise<void> {
-        if (!this.options.silenceDetection) {
+        if (!this.options.silenceDetection || this.usesSilenceDetectFilter()) {
             return;
         }
 
@@ -994,6 +1337,11 @@ export class FFmpegAudioRecorder {
                 if (currentVolume !== null) {
                     this.lastVolumeLevel = currentVolume;
                     this.processVolumeLevel(currentVolume);
+
+                    // Without the level meter filter the probe process feeds the meter
+                    if (!this.options.levelMeter) {
+                        this.emitVolumeLevel({ rms: meanVolume ?? currentVolume, peak: currentVolume });
+                    }
                 }
             }
         });
@@ -1106,7 +1454,7 @@ export class FFmpegAudioRecorder {
         this.log(`🔇 [SILENCE DEBUG] 🚀 setupSilenceDetection called`);
         this.log(`🔇 [SILENCE DEBUG] silenceDetection option: ${this.options.silenceDetection}`);
         this.log(`🔇 [SILENCE DEBUG] silenceDuration option: ${this.options.silenceDuration}`);
-        this.log(`🔇 [SILENCE DEBUG] Recording start time: ${this.recordingStartTime}`);
+        this.log(`🔇 [SILENCE DEBUG] Recording duration: ${this.recordingClock.getElapsed()}ms`);
         
         if (this.options.silenceDetection !== true) {
             this.log('🔇 [SILENCE DEBUG] ❌ Silence detection disabled - will only use maxDuration timer');
@@ -1118,8 +1466,9 @@ export class FFmpegAudioRecorder {
         this.log('🔇 [SILENCE DEBUG] ✅ Silence detection enabled - setting up silence monitoring');
         this.silenceDetectionEnabled = true;
         
-        // Set the initial time of audio activity at the start of recording
-        this.lastAudioTime = this.recordingStartTime;
+        // Set the initial time of audio activity at the start (or resume) of recording
+        this.lastAudioTime = Date.now();
+        this.silenceStartedAt = null;
 
         const silenceDuration = (this.options.silenceDuration || 3) * 1000; // Convert to milliseconds
         const minRecordingTime = 5000; // Minimum 5 seconds of recording before enabling silence detection
@@ -1140,8 +1489,11 @@ export class FFmpegAudioRecorder {
                 return;
             }
 
-            const recordingDuration = Date.now() - this.recordingStartTime;
-            const timeSinceLastAudio = Date.now() - this.lastAudioTime;
+            const recordingDuration = this.recordingClock.getElapsed();
+            // With the silencedetect filter the input counts as active until a silence_start is reported
+            const timeSinceLastAudio = this.usesSilenceDetectFilter() && this.silenceStartedAt === null
+                ? 0
+                : Date.now() - this.lastAudioTime;
             
             this.log(`🔇 [SILENCE DEBUG] 🔍 Silence check cycle:`);
             this.log(`🔇 [SILENCE DEBUG]   - Recording duration: ${recordingDuration}ms`);
@@ -1150,7 +1502,7 @@ export class FFmpegAudioRecorder {
             this.log(`🔇 [SILENCE DEBUG]   - Silence threshold: ${silenceDuration}ms`);
             this.log(`🔇 [SILENCE DEBUG]   - Current time: ${Date.now()}`);
             this.log(`🔇 [SILENCE DEBUG]   - Last audio time: ${this.lastAudioTime}`);
-            this.log(`🔇 [SILENCE DEBUG]   - Recording start time: ${this.recordingStartTime}`);
+            this.log(`🔇 [SILENCE DEBUG]   - Paused time: ${this.recordingClock.getPausedTime()}ms`);
             
             // Do not check for silence in the first minRecordingTime milliseconds
             if (recordingDuration < minRecordingTime) {
@@ -1181,6 +1533,53 @@ export class FFmpegAudioRecorder {
         this.log('🎯 [SILENCE DEBUG] 🎯 Silence detection setup completed successfully');
     }
 
+    /**
+     * Sending the loudest level since the last event to onVolumeLevel, at most every LEVEL_EVENT_INTERVAL ms
+     */
+    private emitVolumeLevel(level: AudioLevel): void {
+        if (!this.events.onVolumeLevel || this.isPaused) {
+            return;
+        }
+
+        this.pendingLevel = this.pendingLevel
+            ? { rms: Math.max(this.pendingLevel.rms, level.rms), peak: Math.max(this.pendingLevel.peak, level.peak) }
+            : level;
+
+        const now = Date.now();
+        if (now - this.lastLevelEventTime < LEVEL_EVENT_INTERVAL) {
+            return;
+        }
+
+        this.lastLevelEventTime = now;
+        const pending = this.pendingLevel;
+        this.pendingLevel = null;
+        this.events.onVolumeLevel(pending);
+    }
+
+    /**
+     * Checking whether silence is detected by the silencedetect filter on the recording process
+     */
+    private usesSilenceDetectFilter(): boolean {
+        return this.options.silenceDetection === true
+            && (this.options.silenceDetectionMethod || 'silencedetect') === 'silencedetect';
+    }
+
+    /**
+     * Handling silence_start / silence_end from the silencedetect filter
+     */
+    private handleSilenceEvent(type: 'start' | 'end', streamTime: number): void {
+        if (type === 'start') {
+            // The filter reports silence once it has lasted SILENCE_DETECT_WINDOW seconds
+            this.silenceStartedAt = Date.now() - SILENCE_DETECT_WINDOW * 1000;
+            this.lastAudioTime = this.silenceStartedAt;
+            this.log(`🔇 [SILENCEDETECT] Silence started at ${streamTime.toFixed(2)}s of the take`);
+        } else {
+            this.silenceStartedAt = null;
+            this.log(`🎵 [SILENCEDETECT] Silence ended at ${streamTime.toFixed(2)}s of the take`);
+            this.updateLastAudioTime();
+        }
+    }
+
     /**
      * Updating the time of the last audio activity
      */
@@ -1189,7 +1588,7 @@ export class FFmpegAudioRecorder {
             const oldTime = this.lastAudioTime;
             this.lastAudioTime = Date.now();
             const timeSinceLastUpdate = this.lastAudioTime - oldTime;
-            const recordingDuration = Date.now() - this.recordingStartTime;
+            const recordingDuration = this.recordingClock.getElapsed();
             
             this.log(`🔇 [SILENCE DEBUG] 🎵 Audio activity: lastAudioTime updated`);
             this.log(`🔇 [SILENCE DEBUG] Previous lastAudioTime: ${oldTime} (${timeSinceLastUpdate}ms ago)`);
@@ -1241,6 +1640,7 @@ export class FFmpegAudioRecorder {
     private cleanup(): void {
         this.clearMaxDurationTimer();
         this.clearSilenceTimer();
+        this.clearSegmentTimer();
         this.cleanupVolumeDetection(); // Add volumedetect cleanup
         
         if (this.ffmpegProcess && !this.ffmpegProcess.killed) {
@@ -1257,6 +1657,19 @@ export class FFmpegAudioRecorder {
             this.tempFileCleanup = null;
         }
 
+        for (const take of this.completedTakes) {
+            try {
+                take.cleanup();
+            } catch (error) {
+                // Ignore cleaning errors
+            }
+        }
+        this.completedTakes = [];
+        this.pendingTakeClose = null;
+        this.isPaused = false;
+        this.recordingClock.reset();
+        this.pendingLevel = null;
+
         this.tempFilePath = null;
         this.currentRecordingDevice = null;
         this.isRecording = false;
@@ -1272,13 +1685,20 @@ export class FFmpegAudioRecorder {
     }
 
     /**
-     * Getting the duration of the current recording in milliseconds
+     * Getting the pause status
+     */
+    getIsPaused(): boolean {
+        return this.isPaused;
+    }
+
+    /**
+     * Getting the duration of the current recording in milliseconds, without paused time
      */
     getRecordingDuration(): number {
         if (!this.isRecording) {
             return 0;
         }
-        return Date.now() - this.recordingStartTime;
+        return this.recordingClock.getElapsed();
     }
 
     /**
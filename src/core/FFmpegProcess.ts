@@ -0,0 +1,44 @@
+// FFmpegProcess.ts - Running one-off FFmpeg commands (analysis, conversion, encoding)
+
+import { spawn } from 'child_process';
+import { FFmpegAudioRecorder } from './FFmpegAudioRecorder';
+
+/**
+ * Running FFmpeg with the given arguments and collecting stderr, where it writes diagnostics
+ */
+export async function runFFmpeg(args: string[], timeout: number = 120000): Promise<string> {
+    const ffmpegCheck = await FFmpegAudioRecorder.checkFFmpegAvailability();
+    if (!ffmpegCheck.available || !ffmpegCheck.path) {
+        throw new Error(ffmpegCheck.error || 'FFmpeg is not available');
+    }
+    const ffmpegPath = ffmpegCheck.path;
+
+    return new Promise((resolve, reject) => {
+        const ffmpegProcess = spawn(ffmpegPath, args);
+        let stderr = '';
+
+        const timer = setTimeout(() => {
+            ffmpegProcess.kill('SIGKILL');
+            reject(new Error(`FFmpeg timeout after ${timeout}ms`));
+        }, timeout);
+
+        ffmpegProcess.stderr.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        ffmpegProcess.on('close', (code) => {
+            clearTimeout(timer);
+            if (code === 0) {
+                resolve(stderr);
+            } else {
+                const lastLine = stderr.trim().split('\n').pop() || 'no output';
+                reject(new Error(`FFmpeg exited with code ${code}: ${lastLine}`));
+            }
+        });
+
+        ffmpegProcess.on('error', (error) => {
+            clearTimeout(timer);
+            reject(new Error(`Error running FFmpeg: ${error.message}`));
+        });
+    });
+}
@@ -0,0 +1,276 @@
+// Glossary.ts - Workspace vocabulary for the Whisper prompt, post-processing and fixed replacements
+
+import { estimateTokens } from './EditorContext';
+
+export interface GlossaryTerm {
+    term: string;           // preferred spelling
+    aliases?: string[];     // how it tends to be transcribed, replaced by the term
+    note?: string;          // meaning, passed to post-processing
+}
+
+export interface Glossary {
+    terms: GlossaryTerm[];
+}
+
+// Workspace-relative location of the glossary file
+export const GLOSSARY_FILE = '.vscode/speech-glossary.json';
+
+// Whisper only considers the last 224 tokens of the prompt
+export const WHISPER_PROMPT_MAX_TOKENS = 224;
+
+export const EMPTY_GLOSSARY: Glossary = { terms: [] };
+
+/**
+ * Parsing a glossary file; throws with a readable message when the content is invalid
+ */
+export function parseGlossary(content: string): Glossary {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Glossary is not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (!isRecord(data) || !Array.isArray(data.terms)) {
+        throw new Error('Glossary must be an object with a "terms" array');
+    }
+
+    const terms: GlossaryTerm[] = [];
+    for (const [index, item] of (data.terms as unknown[]).entries()) {
+        if (!isRecord(item) || typeof item.term !== 'string' || !item.term.trim()) {
+            throw new Error(`Glossary term ${index + 1} has no "term"`);
+        }
+        const aliases = item.aliases;
+        if (aliases !== undefined && (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string'))) {
+            throw new Error(`Aliases of glossary term "${item.term}" must be an array of strings`);
+        }
+
+        terms.push({
+            term: item.term.trim(),
+            aliases: (aliases as string[] | undefined)?.map(alias => alias.trim()).filter(Boolean),
+            note: typeof item.note === 'string' && item.note.trim() ? item.note.trim() : undefined
+        });
+    }
+
+    return { terms };
+}
+
+/**
+ * Merging the glossaries of several workspace folders; the first definition of a term wins
+ */
+export function mergeGlossaries(glossaries: Glossary[]): Glossary {
+    const seen = new Set<string>();
+    const terms: GlossaryTerm[] = [];
+
+    for (const glossary of glossaries) {
+        for (const term of glossary.terms) {
+            if (!seen.has(term.term)) {
+                seen.add(term.term);
+                terms.push(term);
+            }
+        }
+    }
+
+    return { terms };
+}
+
+/**
+ * Whisper prompt with the glossary terms appended, as many as fit within Whisper's prompt limit
+ */
+export function buildWhisperPrompt(basePrompt: string, glossary: Glossary, maxTokens: number = WHISPER_PROMPT_MAX_TOKENS): string {
+    const prompt = basePrompt.trim();
+    let budget = maxTokens - estimateTokens(prompt) - estimateTokens(' Glossary: .');
+    const terms: string[] = [];
+
+    for (const { term } of glossary.terms) {
+        const cost = estimateTokens(`${term}, `);
+        if (cost > budget) {
+            break;
+        }
+        terms.push(term);
+        budget -= cost;
+    }
+
+    if (terms.length === 0) {
+        return basePrompt;
+    }
+    return `${prompt ? `${prompt} ` : ''}Glossary: ${terms.join(', ')}.`;
+}
+
+/**
+ * Whisper prompt for the next chunk of a long recording, ending with the previous transcript tail.
+ * Whisper drops the front of longer prompts, so fewer glossary terms are added to leave room for the tail.
+ */
+export function buildContinuationPrompt(basePrompt: string, glossary: Glossary, tail: string, maxTokens: number = WHISPER_PROMPT_MAX_TOKENS): string {
+    const prompt = buildWhisperPrompt(basePrompt, glossary, maxTokens - estimateTokens(`\n\n${tail}`));
+    return prompt ? `${prompt}\n\n${tail}` : tail;
+}
+
+/**
+ * Post-processing instructions listing the preferred spellings, their aliases and notes
+ */
+export function buildGlossaryInstructions(glossary: Glossary): string | undefined {
+    if (glossary.terms.length === 0) {
+        return undefined;
+    }
+
+    const lines = glossary.terms.map(({ term, aliases, note }) => {
+        const heardAs = aliases && aliases.length > 0 ? ` (may be transcribed as ${aliases.map(alias => `"${alias}"`).join(', ')})` : '';
+        return `- ${term}${heardAs}${note ? `: ${note}` : ''}`;
+    });
+    return `Project glossary. Always use these exact spellings:\n${lines.join('\n')}`;
+}
+
+/**
+ * Replacing glossary aliases with their terms: whole words, any case, any whitespace between words.
+ * Longer aliases are replaced first so "cube control" wins over "cube".
+ */
+export function applyGlossaryReplacements(text: string, glossary: Glossary): { text: string; replacements: number } {
+    const pairs = glossary.terms
+        .flatMap(({ term, aliases }) => (aliases || []).map(alias => ({ alias, term })))
+        .sort((a, b) => b.alias.length - a.alias.length);
+    let replacements = 0;
+
+    for (const { alias, term } of pairs) {
+        const pattern = alias.split(/\s+/).map(escapeRegExp).join('\\s+');
+        const regex = new RegExp(`(?<![\\p{L}\\p{N}_])${pattern}(?![\\p{L}\\p{N}_])`, 'giu');
+        text = text.replace(regex, () => {
+            replacements++;
+            return term;
+        });
+    }
+
+    return { text, replacements };
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export type GlossaryCandidateSource = 'workspace' | 'package' | 'symbol' | 'heading';
+
+/**
+ * Term proposed by scanning the workspace, with the number of places it was found
+ */
+export interface GlossaryCandidate {
+    term: string;
+    source: GlossaryCandidateSource;
+    count: number;
+}
+
+const CANDIDATE_SOURCE_ORDER: GlossaryCandidateSource[] = ['workspace', 'package', 'symbol', 'heading'];
+
+// Upper-case words common in documentation that Whisper spells correctly anyway
+const COMMON_UPPERCASE_WORDS = new Set(['README', 'TODO', 'FIXME', 'NOTE', 'FAQ', 'LICENSE', 'CHANGELOG', 'THE', 'AND', 'FOR', 'NOT']);
+
+/**
+ * Words Whisper is likely to misspell: camelCase and PascalCase names with an inner capital,
+ * acronyms, and names joined with dots, dashes or underscores
+ */
+export function isDistinctiveTerm(word: string): boolean {
+    if (word.length < 2 || word.length > 40 || COMMON_UPPERCASE_WORDS.has(word.toUpperCase())) {
+        return false;
+    }
+
+    return /[a-z][A-Z]/.test(word)
+        || /^[A-Z][A-Z0-9]+s?$/.test(word)
+        || /^[A-Z]{2,}[a-z]/.test(word)
+        || /^[A-Za-z][A-Za-z0-9]*(?:[._-][A-Za-z0-9]+)+$/.test(word);
+}
+
+/**
+ * Distinctive package and dependency names of a package.json. Plain names like express or mocha
+ * are spelled right anyway and would only take room in the Whisper prompt; type packages are left out.
+ */
+export function extractPackageNames(packageJson: string): string[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(packageJson);
+    } catch {
+        return [];
+    }
+    if (!isRecord(data)) {
+        return [];
+    }
+
+    const names = [
+        data.name,
+        ...Object.keys(isRecord(data.dependencies) ? data.dependencies : {}),
+        ...Object.keys(isRecord(data.devDependencies) ? data.devDependencies : {}),
+        ...Object.keys(isRecord(data.peerDependencies) ? data.peerDependencies : {})
+    ];
+    return names.filter((name): name is string => typeof name === 'string'
+        && !name.startsWith('@types/')
+        && isDistinctiveTerm(name.replace(/^@[^/]+\//, '')));
+}
+
+/**
+ * Distinctive words of the Markdown headings of a README
+ */
+export function extractHeadingTerms(markdown: string): string[] {
+    const terms: string[] = [];
+    for (const match of markdown.matchAll(/^#{1,6}\s+(.+)$/gm)) {
+        const words = match[1].match(/[A-Za-z][\w.-]*[A-Za-z0-9]/g) || [];
+        terms.push(...words.filter(isDistinctiveTerm));
+    }
+    return terms;
+}
+
+/**
+ * Counting and ordering scanned terms, leaving out those already in the glossary (as a term or an alias)
+ */
+export function rankGlossaryCandidates(
+    found: Array<{ term: string; source: GlossaryCandidateSource }>,
+    existing: Glossary,
+    maxCount: number = 150
+): GlossaryCandidate[] {
+    const known = new Set(existing.terms.flatMap(({ term, aliases }) => [term, ...(aliases || [])]).map(word => word.toLowerCase()));
+    const candidates = new Map<string, GlossaryCandidate>();
+
+    for (const { term, source } of found) {
+        const trimmed = term.trim();
+        if (!trimmed || known.has(trimmed.toLowerCase())) {
+            continue;
+        }
+
+        const candidate = candidates.get(trimmed);
+        if (!candidate) {
+            candidates.set(trimmed, { term: trimmed, source, count: 1 });
+            continue;
+        }
+        candidate.count++;
+        if (CANDIDATE_SOURCE_ORDER.indexOf(source) < CANDIDATE_SOURCE_ORDER.indexOf(candidate.source)) {
+            candidate.source = source;
+        }
+    }
+
+    return [...candidates.values()]
+        .sort((a, b) => CANDIDATE_SOURCE_ORDER.indexOf(a.source) - CANDIDATE_SOURCE_ORDER.indexOf(b.source) || b.count - a.count)
+        .slice(0, maxCount);
+}
+
+/**
+ * Glossary file content with the terms added; other content of an existing file is kept
+ */
+export function addGlossaryTerms(content: string | undefined, terms: string[]): string {
+    const data: unknown = content ? JSON.parse(content) : {};
+    if (!isRecord(data)) {
+        throw new Error('Glossary must be an object with a "terms" array');
+    }
+
+    const existing: unknown[] = Array.isArray(data.terms) ? data.terms : [];
+    const present = new Set(existing.map(item => isRecord(item) ? item.term : undefined));
+    for (const term of terms) {
+        if (!present.has(term)) {
+            existing.push({ term });
+            present.add(term);
+        }
+    }
+    data.terms = existing;
+
+    return JSON.stringify(data, null, 2) + '\n';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,95 @@
+// GlossaryHarvester.ts - Collecting glossary candidates from package manifests, symbols and READMEs
+
+import * as vscode from 'vscode';
+import { ContextManager } from './ContextManager';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { GlossaryCandidateSource, extractHeadingTerms, extractPackageNames, isDistinctiveTerm } from './Glossary';
+
+const EXCLUDED_FOLDERS = '{**/node_modules/**,**/out/**,**/dist/**,**/build/**,**/.git/**,**/*.d.ts}';
+const SOURCE_FILES = '**/*.{ts,tsx,js,jsx,mjs,py,go,rs,java,kt,cs,rb,php,swift}';
+
+// Document symbols are requested from language servers, so the number of scanned files is capped
+const MAX_SOURCE_FILES = 300;
+const MAX_MANIFEST_FILES = 20;
+
+const SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum,
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Module,
+    vscode.SymbolKind.Namespace,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Constant
+]);
+
+/**
+ * Scanning the workspace folders known to the ContextManager for terms worth adding to the glossary
+ */
+export class GlossaryHarvester {
+    constructor(private readonly contextManager: ContextManager) {}
+
+    async harvest(
+        progress?: vscode.Progress<{ message?: string }>,
+        token?: vscode.CancellationToken
+    ): Promise<Array<{ term: string; source: GlossaryCandidateSource }>> {
+        const workspace = this.contextManager.getContext().workspace;
+        const found: Array<{ term: string; source: GlossaryCandidateSource }> = [];
+        if (!workspace || workspace.folders.length === 0) {
+            return found;
+        }
+
+        if (workspace.name && isDistinctiveTerm(workspace.name)) {
+            found.push({ term: workspace.name, source: 'workspace' });
+        }
+
+        for (const folder of workspace.folders) {
+            progress?.report({ message: 'Reading package manifests and READMEs...' });
+            for (const uri of await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/package.json'), EXCLUDED_FOLDERS, MAX_MANIFEST_FILES, token)) {
+                found.push(...extractPackageNames(await this.readText(uri)).map(term => ({ term, source: 'package' as const })));
+            }
+            for (const uri of await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/[Rr][Ee][Aa][Dd][Mm][Ee].md'), EXCLUDED_FOLDERS, MAX_MANIFEST_FILES, token)) {
+                found.push(...extractHeadingTerms(await this.readText(uri)).map(term => ({ term, source: 'heading' as const })));
+            }
+
+            const sourceFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, SOURCE_FILES), EXCLUDED_FOLDERS, MAX_SOURCE_FILES, token);
+            for (const [index, uri] of sourceFiles.entries()) {
+                if (token?.isCancellationRequested) {
+                    break;
+                }
+                progress?.report({ message: `Reading symbols (${index + 1}/${sourceFiles.length})...` });
+                found.push(...(await this.getTopLevelSymbols(uri)).map(term => ({ term, source: 'symbol' as const })));
+            }
+        }
+
+        ExtensionLog.info(`📖 [GLOSSARY] Harvested ${found.length} term occurrences from ${workspace.folders.length} folder(s)`);
+        return found;
+    }
+
+    private async readText(uri: vscode.Uri): Promise<string> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Distinctive names of the top-level classes, functions, constants and modules of a file
+     */
+    private async getTopLevelSymbols(uri: vscode.Uri): Promise<string[]> {
+        try {
+            const symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+                'vscode.executeDocumentSymbolProvider',
+                uri
+            );
+            return (symbols || [])
+                .filter(symbol => SYMBOL_KINDS.has(symbol.kind) && !('containerName' in symbol && symbol.containerName))
+                .map(symbol => symbol.name)
+                .filter(isDistinctiveTerm);
+        } catch (error) {
+            ExtensionLog.warn(`📖 [GLOSSARY] No symbols for ${uri.fsPath}: ${(error as Error).message}`);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,84 @@
+// GlossaryStore.ts - Loading and watching the glossary files of the workspace folders
+
+import * as vscode from 'vscode';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { EMPTY_GLOSSARY, GLOSSARY_FILE, Glossary, mergeGlossaries, parseGlossary } from './Glossary';
+
+/**
+ * Glossary of the open workspace: .vscode/speech-glossary.json of every folder, merged and
+ * reloaded when a file changes
+ */
+export class GlossaryStore implements vscode.Disposable {
+    private glossary: Glossary = EMPTY_GLOSSARY;
+    private disposables: vscode.Disposable[] = [];
+    // Last problem shown per file, so an invalid file isn't reported again on every save
+    private reportedErrors = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${GLOSSARY_FILE}`);
+        this.disposables.push(
+            watcher,
+            watcher.onDidChange(() => this.reload()),
+            watcher.onDidCreate(() => this.reload()),
+            watcher.onDidDelete(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()),
+            this._onDidChange
+        );
+    }
+
+    getGlossary(): Glossary {
+        return this.glossary;
+    }
+
+    /**
+     * Glossary file of a workspace folder (the first one when none is given)
+     */
+    getFileUri(folder?: vscode.WorkspaceFolder): vscode.Uri | undefined {
+        const target = folder || vscode.workspace.workspaceFolders?.[0];
+        return target ? vscode.Uri.joinPath(target.uri, GLOSSARY_FILE) : undefined;
+    }
+
+    async load(): Promise<void> {
+        const glossaries: Glossary[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = this.getFileUri(folder)!;
+            let content: string;
+            try {
+                content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue; // no glossary in this folder
+            }
+
+            try {
+                glossaries.push(parseGlossary(content));
+                this.reportedErrors.delete(uri.fsPath);
+            } catch (error) {
+                const message = (error as Error).message;
+                ExtensionLog.warn(`📖 [GLOSSARY] Ignoring ${uri.fsPath}: ${message}`);
+                if (this.reportedErrors.get(uri.fsPath) !== message) {
+                    this.reportedErrors.set(uri.fsPath, message);
+                    vscode.window.showWarningMessage(`Speech glossary ignored: ${message}`);
+                }
+            }
+        }
+
+        this.glossary = mergeGlossaries(glossaries);
+        ExtensionLog.info(`📖 [GLOSSARY] Loaded ${this.glossary.terms.length} terms`);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Loading from an event handler, where a rejection would go unhandled
+     */
+    private reload(): void {
+        this.load().catch(error => ExtensionLog.error('📖 [GLOSSARY] Failed to load the glossary:', undefined, error as Error));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,81 @@
+// HistoryExport.ts - Serializing transcription history to JSON, CSV and a Markdown journal
+
+import { TranscriptionEntry, TranscriptionHistory } from '../types/TranscriptionHistory';
+
+export type HistoryExportFormat = 'json' | 'csv' | 'markdown';
+
+const CSV_COLUMNS: Array<keyof TranscriptionEntry> = [
+    'id', 'timestamp', 'language', 'mode', 'duration', 'isPostProcessed', 'postProcessingModel', 'text', 'originalText', 'sourceFile'
+];
+
+/**
+ * Full-fidelity export that the import command reads back, including the format version
+ */
+export function exportHistoryJson(history: TranscriptionHistory): string {
+    return JSON.stringify(history, null, 2) + '\n';
+}
+
+function escapeCsvValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportHistoryCsv(entries: TranscriptionEntry[]): string {
+    const rows = entries.map(entry => CSV_COLUMNS.map(column => escapeCsvValue(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Journal with one section per local day, oldest first
+ */
+export function exportHistoryMarkdown(entries: TranscriptionEntry[]): string {
+    const sorted = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const lines: string[] = ['# Transcription Journal'];
+    let currentDay = '';
+
+    for (const entry of sorted) {
+        const date = new Date(entry.timestamp);
+        const day = formatDay(date);
+        if (day !== currentDay) {
+            lines.push('', `## ${day}`);
+            currentDay = day;
+        }
+
+        const details = [
+            entry.language,
+            entry.isPostProcessed ? `post-processed${entry.postProcessingModel ? ` with ${entry.postProcessingModel}` : ''}` : '',
+            entry.sourceFile ? `from ${entry.sourceFile}` : ''
+        ].filter(Boolean).join(', ');
+
+        lines.push('', `### ${formatTime(date)}${details ? ` (${details})` : ''}`, '', entry.text.trim());
+
+        if (entry.isPostProcessed && entry.originalText && entry.originalText !== entry.text) {
+            lines.push('', ...entry.originalText.trim().split('\n').map(line => `> ${line}`));
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function exportHistory(history: TranscriptionHistory, format: HistoryExportFormat): string {
+    switch (format) {
+        case 'json':
+            return exportHistoryJson(history);
+        case 'csv':
+            return exportHistoryCsv(history.entries);
+        case 'markdown':
+            return exportHistoryMarkdown(history.entries);
+    }
+}
@@ -0,0 +1,42 @@
+// HistoryRetention.ts - Size and age limits for transcription history entries
+
+import { TranscriptionEntry } from '../types/TranscriptionHistory';
+
+export interface HistoryRetentionPolicy {
+    enabled: boolean;       // false = never store new entries
+    maxEntries: number;
+    maxAgeDays: number;     // 0 = no age limit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Splitting newest-first entries into kept and removed ones; pinned entries are always kept
+ * and don't count toward the entry limit
+ */
+export function applyHistoryRetention(
+    entries: TranscriptionEntry[],
+    policy: HistoryRetentionPolicy,
+    now: number = Date.now()
+): { kept: TranscriptionEntry[]; removed: TranscriptionEntry[] } {
+    const kept: TranscriptionEntry[] = [];
+    const removed: TranscriptionEntry[] = [];
+    let unpinnedCount = 0;
+
+    for (const entry of entries) {
+        if (entry.pinned) {
+            kept.push(entry);
+            continue;
+        }
+
+        const tooOld = policy.maxAgeDays > 0 && now - new Date(entry.timestamp).getTime() > policy.maxAgeDays * DAY_MS;
+        if (tooOld || unpinnedCount >= policy.maxEntries) {
+            removed.push(entry);
+        } else {
+            kept.push(entry);
+            unpinnedCount++;
+        }
+    }
+
+    return { kept, removed };
+}
@@ -0,0 +1,206 @@
+// HistorySearch.ts - Full-text search and filters over transcription history entries
+
+import { TranscriptionEntry, RecordingMode } from '../types/TranscriptionHistory';
+
+export type DateRangePreset = 'today' | 'yesterday' | 'week' | 'month';
+
+export interface HistorySearchFilters {
+    language?: string;
+    mode?: RecordingMode;
+    postProcessed?: boolean;
+    dateRange?: DateRangePreset;
+    after?: Date;       // inclusive, start of day
+    before?: Date;      // inclusive, end of day
+}
+
+export interface HistorySearchQuery {
+    terms: string[];
+    filters: HistorySearchFilters;
+}
+
+export interface HistorySearchMatch {
+    entry: TranscriptionEntry;
+    field: 'text' | 'originalText' | 'variant';
+    snippet: string;
+    highlights: Array<[number, number]>;    // [start, end) ranges of the terms in the snippet
+}
+
+// Short names accepted by the mode: filter
+export const MODE_FILTER_NAMES: Record<string, RecordingMode> = {
+    insert: RecordingMode.INSERT_OR_CLIPBOARD,
+    chat: RecordingMode.INSERT_AT_CURRENT_CHAT,
+    file: RecordingMode.TRANSCRIBE_FILE
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parsing a search input: plain words and "quoted phrases" are search terms,
+ * lang:, mode:, processed:, date:, after: and before: tokens are filters
+ */
+export function parseSearchQuery(input: string): HistorySearchQuery {
+    const terms: string[] = [];
+    const filters: HistorySearchFilters = {};
+    const tokenPattern = /"([^"]+)"|(\S+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(input)) !== null) {
+        if (match[1]) {
+            terms.push(match[1].toLowerCase());
+            continue;
+        }
+
+        const token = match[2];
+        const separator = token.indexOf(':');
+        const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+        const value = separator > 0 ? token.slice(separator + 1).toLowerCase() : '';
+
+        if (key === 'lang' && value) {
+            filters.language = value;
+        } else if (key === 'mode' && MODE_FILTER_NAMES[value]) {
+            filters.mode = MODE_FILTER_NAMES[value];
+        } else if (key === 'processed' && (value === 'yes' || value === 'no')) {
+            filters.postProcessed = value === 'yes';
+        } else if (key === 'date' && ['today', 'yesterday', 'week', 'month'].includes(value)) {
+            filters.dateRange = value as DateRangePreset;
+        } else if ((key === 'after' || key === 'before') && parseDay(value)) {
+            filters[key] = parseDay(value)!;
+        } else {
+            terms.push(token.toLowerCase());
+        }
+    }
+
+    return { terms, filters };
+}
+
+function parseDay(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        return null;
+    }
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Local-time bounds of a date filter; `to` is exclusive
+ */
+export function getDateBounds(filters: HistorySearchFilters, now: Date = new Date()): { from?: number; to?: number } {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    let from: number | undefined;
+    let to: number | undefined;
+
+    switch (filters.dateRange) {
+        case 'today':
+            from = today;
+            break;
+        case 'yesterday':
+            from = today - DAY_MS;
+            to = today;
+            break;
+        case 'week':
+            from = today - 7 * DAY_MS;
+            break;
+        case 'month':
+            from = today - 30 * DAY_MS;
+            break;
+    }
+
+    if (filters.after) {
+        from = Math.max(from ?? -Infinity, filters.after.getTime());
+    }
+    if (filters.before) {
+        to = Math.min(to ?? Infinity, filters.before.getTime() + DAY_MS);
+    }
+
+    return { from, to };
+}
+
+export function matchesFilters(entry: TranscriptionEntry, filters: HistorySearchFilters, now: Date = new Date()): boolean {
+    if (filters.language && entry.language.toLowerCase() !== filters.language) {
+        return false;
+    }
+    if (filters.mode && entry.mode !== filters.mode) {
+        return false;
+    }
+    if (filters.postProcessed !== undefined && !!entry.isPostProcessed !== filters.postProcessed) {
+        return false;
+    }
+
+    const { from, to } = getDateBounds(filters, now);
+    const time = new Date(entry.timestamp).getTime();
+    if ((from !== undefined && time < from) || (to !== undefined && time >= to)) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Entries dictated in one of the given workspace folders (URIs). Entries without a workspace
+ * folder, like ones recorded before it was tracked, can't be attributed and are always kept.
+ */
+export function filterByWorkspace(entries: TranscriptionEntry[], workspaceFolders: string[]): TranscriptionEntry[] {
+    const folders = new Set(workspaceFolders);
+    return entries.filter(entry => !entry.workspaceFolder || folders.has(entry.workspaceFolder));
+}
+
+/**
+ * Cutting a window of the text around the first term and locating every term in it
+ */
+export function buildSnippet(text: string, terms: string[], width: number = 60): { snippet: string; highlights: Array<[number, number]> } {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const firstIndex = terms.length > 0 ? Math.max(0, lower.indexOf(terms[0])) : 0;
+
+    let start = Math.max(0, firstIndex - Math.floor(width / 3));
+    const end = Math.min(flat.length, start + width);
+    start = Math.max(0, end - width);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < flat.length ? '…' : '';
+    const snippet = prefix + flat.slice(start, end) + suffix;
+
+    const highlights: Array<[number, number]> = [];
+    const snippetLower = snippet.toLowerCase();
+    for (const term of terms) {
+        let index = snippetLower.indexOf(term);
+        while (index !== -1 && term.length > 0) {
+            highlights.push([index, index + term.length]);
+            index = snippetLower.indexOf(term, index + term.length);
+        }
+    }
+    highlights.sort((a, b) => a[0] - b[0]);
+
+    return { snippet, highlights };
+}
+
+/**
+ * Entries passing the filters whose text, original text or a re-transcription contains every term
+ */
+export function searchHistory(entries: TranscriptionEntry[], query: HistorySearchQuery, now: Date = new Date()): HistorySearchMatch[] {
+    const matches: HistorySearchMatch[] = [];
+
+    for (const entry of entries) {
+        if (!matchesFilters(entry, query.filters, now)) {
+            continue;
+        }
+
+        const fields: Array<{ field: HistorySearchMatch['field']; text: string }> = [
+            { field: 'text', text: entry.text },
+            ...(entry.originalText ? [{ field: 'originalText' as const, text: entry.originalText }] : []),
+            ...(entry.variants || []).map(variant => ({ field: 'variant' as const, text: variant.text }))
+        ];
+
+        const found = fields.find(({ text }) => {
+            const lower = text.toLowerCase();
+            return query.terms.every(term => lower.includes(term));
+        });
+
+        if (found) {
+            matches.push({ entry, field: found.field, ...buildSnippet(found.text, query.terms) });
+        }
+    }
+
+    return matches;
+}
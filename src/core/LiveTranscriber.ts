@@ -0,0 +1,113 @@
+// LiveTranscriber.ts - Incremental transcription of rolling segments while recording
+
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { TranscriptionProvider, TranscriptionOptions } from './TranscriptionProvider';
+import { getPromptTail, stitchTranscripts } from './AudioChunker';
+import { UsageTracker } from './UsageTracker';
+import { getWavDuration } from './WavUtils';
+
+export interface LiveTranscriberEvents {
+    onPartialText: (text: string) => void;
+    onError?: (error: Error) => void;
+    canTranscribe?: () => boolean;  // checked before each segment request; false stops the transcriber
+}
+
+/**
+ * Transcribes recording segments one after another and keeps the joined partial text.
+ * The partial text is only a preview: the full recording is transcribed again at stop.
+ */
+export class LiveTranscriber {
+    private parts: string[] = [];
+    private queue: Promise<void> = Promise.resolve();
+    private stopped = false;
+    private pendingSegments = 0;
+
+    constructor(
+        private provider: TranscriptionProvider,
+        private options: TranscriptionOptions,
+        private events: LiveTranscriberEvents,
+        private usageTracker?: UsageTracker,
+        private usageModel?: string     // usage key of the model, see TextProcessingPipeline.getUsageModel
+    ) {}
+
+    /**
+     * Queue a segment; segments run sequentially so each one gets the previous text as prompt
+     */
+    addSegment(segment: Blob): void {
+        if (this.stopped) {
+            return;
+        }
+
+        this.pendingSegments++;
+        this.queue = this.queue.then(() => this.transcribeSegment(segment));
+    }
+
+    /**
+     * Current partial text; segments follow each other without overlap, so no words are dropped at the joins
+     */
+    getText(): string {
+        return stitchTranscripts(this.parts);
+    }
+
+    /**
+     * Stop accepting segments; queued segments are dropped
+     */
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private async transcribeSegment(segment: Blob): Promise<void> {
+        this.pendingSegments--;
+        if (this.stopped) {
+            return;
+        }
+
+        if (this.events.canTranscribe && !this.events.canTranscribe()) {
+            ExtensionLog.warn(`📝 [LIVE] Live transcription stopped, ${this.pendingSegments} queued segments dropped`);
+            this.stop();
+            return;
+        }
+
+        const options: TranscriptionOptions = { ...this.options };
+        const previousText = this.getText();
+        if (previousText && this.provider.getCapabilities().prompt) {
+            const tail = getPromptTail(previousText);
+            options.prompt = this.options.prompt ? `${this.options.prompt}\n\n${tail}` : tail;
+        }
+
+        try {
+            const startTime = Date.now();
+            const text = await this.provider.transcribe(segment, options);
+            await this.recordUsage(segment, true);
+            if (this.stopped) {
+                return;
+            }
+
+            this.parts.push(text);
+            ExtensionLog.info(`📝 [LIVE] Segment transcribed:`, {
+                segmentSize: `${(segment.size / 1024).toFixed(2)} KB`,
+                latency: `${Date.now() - startTime}ms`,
+                pendingSegments: this.pendingSegments,
+                textLength: text.length
+            });
+
+            this.events.onPartialText(this.getText());
+        } catch (error) {
+            ExtensionLog.warn(`📝 [LIVE] Segment transcription failed: ${(error as Error).message}`);
+            await this.recordUsage(segment, false);
+            this.events.onError?.(error as Error);
+        }
+    }
+
+    /**
+     * Counting a segment request like any other transcription; segments are WAV, so the length comes from the header
+     */
+    private async recordUsage(segment: Blob, success: boolean): Promise<void> {
+        if (!this.usageTracker || !this.usageModel) {
+            return;
+        }
+
+        const audioSeconds = success ? getWavDuration(Buffer.from(await segment.slice(0, 4096).arrayBuffer()), segment.size) ?? 0 : undefined;
+        await this.usageTracker.record({ kind: 'transcription', model: this.usageModel, success, audioSeconds });
+    }
+}
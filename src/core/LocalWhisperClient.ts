@@ -0,0 +1,414 @@
+// LocalWhisperClient.ts - Offline transcription through a locally installed whisper.cpp binary
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as tmp from 'tmp';
+import which from 'which';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { runFFmpeg } from './FFmpegProcess';
+import {
+    TranscriptionOptions,
+    TranscriptionResult,
+    TranscriptionProvider,
+    TranscriptionProviderCapabilities,
+    ProviderAvailability,
+    SegmentTimestamp
+} from './TranscriptionProvider';
+
+export interface LocalWhisperConfig {
+    binaryPath?: string;    // path to the whisper.cpp executable (empty = auto-detection)
+    modelPath: string;      // path to the ggml model file
+    threads?: number;       // number of CPU threads (0 = binary default)
+    timeout?: number;       // process timeout in ms
+}
+
+// Result of checking the local whisper installation
+export interface LocalWhisperAvailability {
+    available: boolean;
+    version?: string;
+    path?: string;
+    modelPath?: string;
+    error?: string;
+}
+
+// Segment written by whisper.cpp to its JSON output (-oj)
+interface WhisperCppSegment {
+    offsets?: { from?: number; to?: number };
+    text?: string;
+}
+
+// JSON output of whisper.cpp, only the fields we read
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription?: WhisperCppSegment[];
+}
+
+// Executable names used by whisper.cpp builds, newest first
+const BINARY_CANDIDATES = ['whisper-cli', 'whisper-cpp', 'whisper'];
+
+// Default process timeout, local models are slower than the API
+const DEFAULT_TIMEOUT = 120000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Narrowing parsed whisper.cpp JSON, dropping fields with unexpected types
+ */
+function toWhisperCppOutput(output: unknown): WhisperCppOutput {
+    if (!isRecord(output)) {
+        return {};
+    }
+
+    const language = isRecord(output.result) && typeof output.result.language === 'string'
+        ? output.result.language
+        : undefined;
+
+    const transcription = Array.isArray(output.transcription)
+        ? output.transcription.filter(isRecord).map((entry): WhisperCppSegment => ({
+            offsets: isRecord(entry.offsets)
+                ? { from: toNumber(entry.offsets.from), to: toNumber(entry.offsets.to) }
+                : undefined,
+            text: typeof entry.text === 'string' ? entry.text : undefined
+        }))
+        : [];
+
+    return { result: { language }, transcription };
+}
+
+/**
+ * Transcription provider that runs whisper.cpp (or a compatible CLI) as a child process
+ */
+export class LocalWhisperClient implements TranscriptionProvider {
+    readonly id = 'local' as const;
+    readonly displayName = 'Local whisper.cpp';
+
+    private binaryPath?: string;
+    private modelPath: string;
+    private threads: number;
+    private timeout: number;
+
+    constructor(config: LocalWhisperConfig) {
+        this.binaryPath = config.binaryPath || undefined;
+        this.modelPath = config.modelPath;
+        this.threads = config.threads || 0;
+        this.timeout = config.timeout || DEFAULT_TIMEOUT;
+    }
+
+    /**
+     * Resolving the whisper.cpp executable: configured path first, then PATH
+     */
+    static async resolveBinaryPath(configuredPath?: string): Promise<string> {
+        if (configuredPath) {
+            if (!fs.existsSync(configuredPath)) {
+                throw new Error(`Local whisper binary not found at: ${configuredPath}`);
+            }
+            return configuredPath;
+        }
+
+        for (const candidate of BINARY_CANDIDATES) {
+            try {
+                return await which(candidate);
+            } catch {
+                // Try the next candidate
+            }
+        }
+
+        throw new Error(`Local whisper binary not found in PATH (tried: ${BINARY_CANDIDATES.join(', ')}). Please install whisper.cpp or specify the path in extension settings.`);
+    }
+
+    /**
+     * Checking the availability of the local whisper binary and model
+     */
+    static async checkLocalWhisperAvailability(binaryPath?: string, modelPath?: string, timeout: number = DEFAULT_TIMEOUT): Promise<LocalWhisperAvailability> {
+        let resolvedPath: string;
+        try {
+            resolvedPath = await LocalWhisperClient.resolveBinaryPath(binaryPath);
+        } catch (error) {
+            return {
+                available: false,
+                error: (error as Error).message
+            };
+        }
+
+        if (!modelPath) {
+            return {
+                available: false,
+                path: resolvedPath,
+                error: 'Local whisper model path is not configured'
+            };
+        }
+
+        if (!fs.existsSync(modelPath)) {
+            return {
+                available: false,
+                path: resolvedPath,
+                error: `Local whisper model not found at: ${modelPath}`
+            };
+        }
+
+        // Run the binary to confirm it works
+        return new Promise((resolve) => {
+            const helpProcess = spawn(resolvedPath, ['--help']);
+            let output = '';
+
+            const timer = setTimeout(() => {
+                helpProcess.kill('SIGKILL');
+                resolve({
+                    available: false,
+                    path: resolvedPath,
+                    error: `Local whisper binary did not respond within ${timeout}ms`
+                });
+            }, timeout);
+
+            helpProcess.stdout.on('data', (data) => {
+                output += data.toString();
+            });
+
+            helpProcess.stderr.on('data', (data) => {
+                output += data.toString();
+            });
+
+            helpProcess.on('close', (code) => {
+                clearTimeout(timer);
+                if (code === 0 || /usage:/i.test(output)) {
+                    const versionMatch = output.match(/version[:\s]+([^\s]+)/i);
+                    resolve({
+                        available: true,
+                        version: versionMatch ? versionMatch[1] : 'unknown',
+                        path: resolvedPath,
+                        modelPath
+                    });
+                } else {
+                    resolve({
+                        available: false,
+                        path: resolvedPath,
+                        error: `Local whisper binary found but not working properly (exit code: ${code})`
+                    });
+                }
+            });
+
+            helpProcess.on('error', (error) => {
+                clearTimeout(timer);
+                resolve({
+                    available: false,
+                    path: resolvedPath,
+                    error: `Error running local whisper binary: ${error.message}`
+                });
+            });
+        });
+    }
+
+    /**
+     * Parsing the JSON written by whisper.cpp (-oj) into the common result shape
+     */
+    static parseOutput(output: unknown): TranscriptionResult {
+        const parsed = toWhisperCppOutput(output);
+        const entries = parsed.transcription ?? [];
+
+        const segments: SegmentTimestamp[] = entries.map((entry, index) => ({
+            id: index,
+            seek: 0,
+            start: (entry.offsets?.from ?? 0) / 1000,
+            end: (entry.offsets?.to ?? 0) / 1000,
+            text: entry.text ?? '',
+            tokens: [],
+            temperature: 0,
+            avg_logprob: 0,
+            compression_ratio: 0,
+            no_speech_prob: 0
+        }));
+
+        const text = segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+
+        return {
+            text,
+            language: parsed.result?.language,
+            duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+            segments
+        };
+    }
+
+    /**
+     * Transcription of an audio file
+     */
+    async transcribe(audioBlob: Blob, options: TranscriptionOptions = {}): Promise<string> {
+        const result = await this.transcribeWithTimestamps(audioBlob, options);
+        return result.text;
+    }
+
+    /**
+     * Transcription keeping the segment timings whisper.cpp writes to its JSON output
+     */
+    async transcribeWithTimestamps(audioBlob: Blob, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+        if (!audioBlob || audioBlob.size === 0) {
+            throw new Error('Audio blob is empty');
+        }
+
+        const binaryPath = await LocalWhisperClient.resolveBinaryPath(this.binaryPath);
+        if (!this.modelPath || !fs.existsSync(this.modelPath)) {
+            throw new Error(`Local whisper model not found at: ${this.modelPath || '(not configured)'}`);
+        }
+
+        const inputFile = tmp.fileSync({ prefix: 'vscs-local-input-', postfix: this.getFileExtension(audioBlob) });
+        const wavFile = tmp.fileSync({ prefix: 'vscs-local-', postfix: '.wav' });
+        const outputBase = wavFile.name.replace(/\.wav$/, '');
+        const jsonPath = `${outputBase}.json`;
+
+        try {
+            fs.writeFileSync(inputFile.name, Buffer.from(await audioBlob.arrayBuffer()));
+
+            // whisper.cpp only reads 16 kHz mono WAV
+            await this.convertToWav(inputFile.name, wavFile.name);
+
+            const args = this.buildArgs(wavFile.name, outputBase, options);
+            ExtensionLog.info(`🖥️ [LOCAL-WHISPER] Starting transcription:`, {
+                binary: binaryPath,
+                model: this.modelPath,
+                size: `${(audioBlob.size / 1024).toFixed(2)} KB`,
+                language: options.language && options.language !== 'auto' ? options.language : 'auto-detect'
+            });
+
+            const startTime = Date.now();
+            const stdout = await this.runProcess(binaryPath, args);
+
+            const result: TranscriptionResult = fs.existsSync(jsonPath)
+                ? LocalWhisperClient.parseOutput(JSON.parse(fs.readFileSync(jsonPath, 'utf8')) as unknown)
+                : { text: stdout.replace(/\[[^\]]*-->[^\]]*\]/g, '').replace(/\s+/g, ' ').trim() };
+
+            ExtensionLog.info(`🖥️ [LOCAL-WHISPER] Transcription completed successfully:`, {
+                latency: `${Date.now() - startTime}ms`,
+                length: result.text.length,
+                language: result.language || 'unknown',
+                duration: result.duration || 'unknown'
+            });
+
+            return result;
+        } finally {
+            inputFile.removeCallback();
+            wavFile.removeCallback();
+            if (fs.existsSync(jsonPath)) {
+                fs.unlinkSync(jsonPath);
+            }
+        }
+    }
+
+    /**
+     * Check whether the binary and model can be used
+     */
+    async checkAvailability(): Promise<ProviderAvailability> {
+        const check = await LocalWhisperClient.checkLocalWhisperAvailability(this.binaryPath, this.modelPath, this.timeout);
+        return check.available
+            ? { available: true, details: `${check.path} (${check.version})` }
+            : { available: false, error: check.error };
+    }
+
+    /**
+     * Features supported by whisper.cpp
+     */
+    getCapabilities(): TranscriptionProviderCapabilities {
+        return {
+            wordTimestamps: false,
+            segmentTimestamps: true,
+            languageDetection: true,
+            prompt: true,
+            temperature: true,
+            uploadsAudio: false
+        };
+    }
+
+    /**
+     * Building whisper.cpp command line arguments
+     */
+    private buildArgs(wavPath: string, outputBase: string, options: TranscriptionOptions): string[] {
+        const args = [
+            '-m', this.modelPath,
+            '-f', wavPath,
+            '-l', options.language && options.language !== 'auto' ? options.language : 'auto',
+            '-oj',
+            '-of', outputBase,
+            '-np'
+        ];
+
+        if (this.threads > 0) {
+            args.push('-t', String(this.threads));
+        }
+
+        if (options.prompt) {
+            args.push('--prompt', options.prompt);
+        }
+
+        if (options.temperature !== undefined) {
+            args.push('-tp', String(options.temperature));
+        }
+
+        return args;
+    }
+
+    /**
+     * Converting the recording to the WAV format expected by whisper.cpp
+     */
+    private async convertToWav(inputPath: string, outputPath: string): Promise<void> {
+        await runFFmpeg([
+            '-y', '-i', inputPath,
+            '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+            outputPath
+        ], this.timeout);
+    }
+
+    /**
+     * Running a child process and collecting its stdout
+     */
+    private runProcess(command: string, args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, args);
+            let stdout = '';
+            let stderr = '';
+
+            const timer = setTimeout(() => {
+                child.kill('SIGKILL');
+                reject(new Error(`Local transcription timeout after ${this.timeout}ms`));
+            }, this.timeout);
+
+            child.stdout.on('data', (data) => {
+                stdout += data.toString();
+            });
+
+            child.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            child.on('close', (code) => {
+                clearTimeout(timer);
+                if (code === 0) {
+                    resolve(stdout);
+                } else {
+                    const lastLine = stderr.trim().split('\n').pop() || 'no output';
+                    reject(new Error(`${command} exited with code ${code}: ${lastLine}`));
+                }
+            });
+
+            child.on('error', (error) => {
+                clearTimeout(timer);
+                reject(new Error(`Failed to start ${command}: ${error.message}`));
+            });
+        });
+    }
+
+    /**
+     * Getting the file extension from the blob name or MIME type
+     */
+    private getFileExtension(audioBlob: Blob): string {
+        const name = (audioBlob as Blob & { name?: string }).name;
+        const match = name?.match(/\.[a-z0-9]+$/i);
+        if (match) {
+            return match[0];
+        }
+        return audioBlob.type.includes('wav') ? '.wav' : '.audio';
+    }
+}
@@ -72,4 +72,54 @@ export function isSupportedModel(model: string): model is SupportedOpenAIModel {
  */
 export function getSupportedModels(): readonly string[] {
     return SUPPORTED_OPENAI_MODELS;
-} 
\ No newline at end of file
+} 
+/**
+ * Transcription models offered when re-transcribing a kept recording
+ */
+export const SUPPORTED_TRANSCRIPTION_MODELS = [
+    'whisper-1',
+    'gpt-4o-transcribe',
+    'gpt-4o-mini-transcribe'
+] as const;
+
+/**
+ * Estimated price of a model in USD: per audio minute for transcription,
+ * per million input and output tokens for post-processing
+ */
+export interface ModelPrice {
+    perMinute?: number;
+    inputPerMillion?: number;
+    outputPerMillion?: number;
+}
+
+/**
+ * Default prices from the OpenAI pricing page (June 2025); overridden by speechToTextWhisper.usage.prices
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    // Transcription
+    'whisper-1': { perMinute: 0.006 },
+    'gpt-4o-transcribe': { perMinute: 0.006 },
+    'gpt-4o-mini-transcribe': { perMinute: 0.003 },
+    // Post-processing
+    'gpt-4.1-2025-04-14': { inputPerMillion: 2, outputPerMillion: 8 },
+    'gpt-4.1-mini-2025-04-14': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    'gpt-4.1-nano-2025-04-14': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gpt-4.5-preview-2025-02-27': { inputPerMillion: 75, outputPerMillion: 150 },
+    'gpt-4o-2024-08-06': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini-2024-07-18': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4-turbo-2024-04-09': { inputPerMillion: 10, outputPerMillion: 30 },
+    'gpt-3.5-turbo-0125': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    'o1-2024-12-17': { inputPerMillion: 15, outputPerMillion: 60 },
+    'o1-mini-2024-09-12': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    'o3-2025-04-16': { inputPerMillion: 2, outputPerMillion: 8 },
+    'o3-mini-2025-01-31': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    'o4-mini-2025-04-16': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    'chatgpt-4o-latest': { inputPerMillion: 5, outputPerMillion: 15 }
+};
+
+/**
+ * Price table with user overrides applied per model
+ */
+export function getModelPrices(overrides: Record<string, ModelPrice> = {}): Record<string, ModelPrice> {
+    return { ...DEFAULT_MODEL_PRICES, ...overrides };
+}
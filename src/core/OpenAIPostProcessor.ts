@@ -1,6 +1,7 @@
 // OpenAIPostProcessor.ts - HTTP client for text post-processing using OpenAI GPT API
 
 import { ExtensionLog } from '../utils/GlobalOutput';
+import { ApiConnectionConfig, DEFAULT_API_BASE_URL, buildApiHeaders, buildApiUrl } from './ApiConnection';
 import { SUPPORTED_OPENAI_MODELS, DEFAULT_OPENAI_MODEL, getSupportedModels } from './OpenAIModels';
 
 export interface PostProcessingOptions {
@@ -8,6 +9,7 @@ export interface PostProcessingOptions {
     prompt?: string;        // Custom prompt for text improvement
     temperature?: number;   // 0-1, creativity (0 = deterministic)
     maxTokens?: number;     // Maximum tokens in response
+    context?: string;       // System message with glossary and editor context, sent before the prompt
 }
 
 export interface PostProcessingResult {
@@ -15,6 +17,9 @@ export interface PostProcessingResult {
     originalText: string;
     model: string;
     tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    failed?: boolean;       // every attempt failed and the original text was returned
 }
 
 export interface PostProcessingError extends Error {
@@ -36,9 +41,8 @@ export interface OpenAIResponse {
     };
 }
 
-export interface OpenAIPostProcessorConfig {
+export interface OpenAIPostProcessorConfig extends ApiConnectionConfig {
     apiKey: string;
-    baseURL?: string;
     timeout?: number;
     maxRetries?: number;
     retryDelay?: number;
@@ -50,6 +54,7 @@ export interface OpenAIPostProcessorConfig {
 export class OpenAIPostProcessor {
     private apiKey: string;
     private baseURL: string;
+    private connection: ApiConnectionConfig;
     private timeout: number;
     private maxRetries: number;
     private retryDelay: number;
@@ -59,7 +64,11 @@ export class OpenAIPostProcessor {
 
     constructor(config: OpenAIPostProcessorConfig) {
         this.apiKey = config.apiKey;
-        this.baseURL = config.baseURL || 'https://api.openai.com/v1';
+        this.baseURL = config.baseURL || DEFAULT_API_BASE_URL;
+        this.connection = {
+            authScheme: config.authScheme || 'bearer',
+            extraHeaders: config.extraHeaders || {}
+        };
         this.timeout = config.timeout || 30000; // 30 seconds
         this.maxRetries = config.maxRetries || 3;
         this.retryDelay = config.retryDelay || 1000; // 1 second
@@ -68,7 +77,7 @@ export class OpenAIPostProcessor {
     /**
      * Process text to improve quality
      */
-    async processText(text: string, options: PostProcessingOptions = {}): Promise<string> {
+    async processText(text: string, options: PostProcessingOptions = {}): Promise<PostProcessingResult> {
         // Validate input
         this.validateText(text);
         
@@ -84,7 +93,7 @@ export class OpenAIPostProcessor {
         for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
             try {
                 const response = await this.makeRequest('/chat/completions', requestBody);
-                return this.processResponse(response, text);
+                return await this.processResponse(response, text, model);
             } catch (error) {
                 ExtensionLog.error(`🤖 [POST-PROCESSOR] Attempt ${attempt} failed:`, undefined, error as Error);
                 
@@ -94,7 +103,7 @@ export class OpenAIPostProcessor {
                 if (attempt === this.maxRetries || !isRetryable) {
                     // Fallback: return original text on any error
                     ExtensionLog.warn(`🤖 [POST-PROCESSOR] All attempts failed, returning original text`);
-                    return text;
+                    return { processedText: text, originalText: text, model, failed: true };
                 }
                 
                 // Wait before the next attempt
@@ -104,7 +113,7 @@ export class OpenAIPostProcessor {
         
         // Final fallback (should not reach here, but just in case)
         ExtensionLog.warn(`🤖 [POST-PROCESSOR] Exhausted all retries, returning original text`);
-        return text;
+        return { processedText: text, originalText: text, model, failed: true };
     }
 
     /**
@@ -112,12 +121,9 @@ export class OpenAIPostProcessor {
      */
     async checkApiKey(): Promise<boolean> {
         try {
-            const response = await fetch(`${this.baseURL}/models`, {
+            const response = await fetch(buildApiUrl(this.baseURL, '/models'), {
                 method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
-                },
+                headers: buildApiHeaders(this.apiKey, this.connection),
                 signal: AbortSignal.timeout(this.timeout)
             });
             return response.ok;
@@ -161,14 +167,14 @@ export class OpenAIPostProcessor {
         const userPrompt = options.prompt || this.getDefaultPrompt();
         const fullPrompt = `${userPrompt} ${text}`;
         
+        const messages = [{ role: 'user', content: fullPrompt }];
+        if (options.context) {
+            messages.unshift({ role: 'system', content: options.context });
+        }
+        
         return {
             model: model,
-            messages: [
-                {
-                    role: 'user',
-                    content: fullPrompt
-                }
-            ],
+            messages: messages,
             temperature: temperature,
             max_tokens: maxTokens,
             stream: false
@@ -197,7 +203,7 @@ Return only the improved text without any additional comments or explanations.`;
         const fullRequest = `${prompt} ${text}`;
         
         const requestInfo = {
-            endpoint: `${this.baseURL}/chat/completions`,
+            endpoint: buildApiUrl(this.baseURL, '/chat/completions'),
             method: 'POST',
             parameters: {
                 model: options.model || DEFAULT_OPENAI_MODEL,
@@ -205,7 +211,8 @@ Return only the improved text without any additional comments or explanations.`;
                 maxTokens: options.maxTokens || 4000,
                 promptLength: prompt.length,
                 originalTextLength: text.length,
-                fullRequestLength: fullRequest.length
+                fullRequestLength: fullRequest.length,
+                contextLength: options.context?.length ?? 0
             }
         };
 
@@ -235,6 +242,13 @@ Return only the improved text without any additional comments or explanations.`;
             note: "This is the final text sent to OpenAI API (prompt + original text)"
         });
         
+        if (options.context) {
+            ExtensionLog.info(`🤖 [POST-PROCESSOR] Context sent as system message:`, {
+                context: options.context,
+                contextLength: options.context.length
+            });
+        }
+        
         ExtensionLog.info(`🤖 [POST-PROCESSOR] === END POST-PROCESSING DETAILS ===`);
     }
 
@@ -242,7 +256,7 @@ Return only the improved text without any additional comments or explanations.`;
      * Make HTTP request to OpenAI API
      */
     private async makeRequest(endpoint: string, requestBody: any): Promise<Response> {
-        const url = `${this.baseURL}${endpoint}`;
+        const url = buildApiUrl(this.baseURL, endpoint);
         
         // Log the actual request being sent
         ExtensionLog.info(`🤖 [POST-PROCESSOR] Sending HTTP request:`, {
@@ -250,8 +264,7 @@ Return only the improved text without any additional comments or explanations.`;
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey.substring(0, 7)}...`,
-                'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
+                ...buildApiHeaders(this.apiKey, this.connection, true)
             },
             bodySize: JSON.stringify(requestBody).length,
             timeout: this.timeout
@@ -271,8 +284,7 @@ Return only the improved text without any additional comments or explanations.`;
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey}`,
-                'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
+                ...buildApiHeaders(this.apiKey, this.connection)
             },
             body: JSON.stringify(requestBody),
             signal: AbortSignal.timeout(this.timeout)
@@ -299,7 +311,7 @@ Return only the improved text without any additional comments or explanations.`;
     /**
      * Process API response
      */
-    private async processResponse(response: Response, originalText: string): Promise<string> {
+    private async processResponse(response: Response, originalText: string, model: string): Promise<PostProcessingResult> {
         try {
             const result = await response.json() as OpenAIResponse;
             
@@ -308,10 +320,15 @@ Return only the improved text without any additional comments or explanations.`;
             }
 
             const processedText = result.choices[0].message?.content?.trim();
+            const usage = {
+                tokensUsed: result.usage?.total_tokens,
+                promptTokens: result.usage?.prompt_tokens,
+                completionTokens: result.usage?.completion_tokens
+            };
             
             if (!processedText) {
                 ExtensionLog.warn(`🤖 [POST-PROCESSOR] Empty response, returning original text`);
-                return originalText;
+                return { processedText: originalText, originalText, model, ...usage };
             }
 
             ExtensionLog.info(`🤖 [POST-PROCESSOR] Text processed successfully:`, {
@@ -328,7 +345,7 @@ Return only the improved text without any additional comments or explanations.`;
                 improvementApplied: processedText !== originalText
             });
 
-            return processedText;
+            return { processedText, originalText, model, ...usage };
         } catch (error) {
             ExtensionLog.error(`🤖 [POST-PROCESSOR] Error processing response:`, undefined, error as Error);
             throw this.enhanceError(error as Error);
@@ -0,0 +1,93 @@
+// PostProcessingProfiles.ts - Named post-processing presets: model, prompt, temperature and minimum length
+
+import { DEFAULT_OPENAI_MODEL } from './OpenAIModels';
+
+export interface PostProcessingProfile {
+    name: string;
+    model: string;
+    prompt: string;
+    temperature: number;
+    minTextLength: number;
+}
+
+// Profile built from the postProcessing.model, prompt and minTextLength settings
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+const DEFAULT_TEMPERATURE = 0.1;
+
+/**
+ * Built-in profiles; they use the configured post-processing model, or the default model
+ * when post-processing is turned off
+ */
+export const BUILT_IN_PROFILES: ReadonlyArray<Pick<PostProcessingProfile, 'name' | 'prompt' | 'temperature'>> = [
+    {
+        name: 'Clean prose',
+        prompt: 'Rewrite this dictated text as clean prose: fix punctuation, capitalization and grammar, remove filler words and false starts, and split it into paragraphs. Keep the meaning and all technical terms. Return only the text.\n\nOriginal text:',
+        temperature: 0.2
+    },
+    {
+        name: 'Commit message',
+        prompt: 'Turn this dictated description of a code change into a git commit message: an imperative subject line of at most 72 characters, a blank line, then a short body explaining what changed and why. Return only the commit message.\n\nDictated description:',
+        temperature: 0.1
+    },
+    {
+        name: 'Bullet list',
+        prompt: 'Turn this dictated text into a concise Markdown bullet list, one idea per bullet, without filler words. Keep technical terms unchanged. Return only the list.\n\nOriginal text:',
+        temperature: 0.1
+    },
+    {
+        name: 'Code comment',
+        prompt: 'Turn this dictated explanation into a concise code comment in plain English, written in the present tense, without comment delimiters. Keep identifiers exactly as spoken. Return only the comment text.\n\nDictated explanation:',
+        temperature: 0.1
+    },
+    {
+        name: 'Translate to English',
+        prompt: 'Translate this dictated text into clear, natural English with proper punctuation. Keep code identifiers, product names and technical terms unchanged. Return only the translation.\n\nOriginal text:',
+        temperature: 0.2
+    }
+];
+
+/**
+ * The Default profile, the built-in ones and those from settings. A profile from settings
+ * replaces a built-in one with the same name; its missing fields come from the Default profile.
+ */
+export function getPostProcessingProfiles(
+    base: Pick<PostProcessingProfile, 'model' | 'prompt' | 'minTextLength'>,
+    custom: Array<Partial<PostProcessingProfile>> = []
+): PostProcessingProfile[] {
+    const defaultProfile: PostProcessingProfile = {
+        name: DEFAULT_PROFILE_NAME,
+        model: base.model,
+        prompt: base.prompt,
+        temperature: DEFAULT_TEMPERATURE,
+        minTextLength: base.minTextLength
+    };
+    const builtInModel = base.model === 'Without post-processing' ? DEFAULT_OPENAI_MODEL : base.model;
+
+    const profiles: PostProcessingProfile[] = [
+        defaultProfile,
+        ...BUILT_IN_PROFILES.map(profile => ({ ...defaultProfile, model: builtInModel, ...profile }))
+    ];
+
+    for (const profile of custom) {
+        if (!profile?.name?.trim()) {
+            continue;
+        }
+
+        const index = profiles.findIndex(item => item.name === profile.name);
+        if (index >= 0) {
+            profiles[index] = { ...profiles[index], ...profile };
+        } else {
+            profiles.push({ ...defaultProfile, ...profile });
+        }
+    }
+
+    return profiles;
+}
+
+/**
+ * Profile with the given name, or the Default profile when there is none
+ */
+export function findPostProcessingProfile(profiles: PostProcessingProfile[], name: string): PostProcessingProfile {
+    return profiles.find(profile => profile.name === name) || profiles[0];
+}
@@ -1,16 +1,24 @@
 // PostProcessingService.ts - Main service for text post-processing coordination
 
 import { OpenAIPostProcessor, PostProcessingOptions } from './OpenAIPostProcessor';
-import { ConfigurationManager, PostProcessingConfiguration } from './ConfigurationManager';
+import { ConfigurationManager } from './ConfigurationManager';
 import { ExtensionLog } from '../utils/GlobalOutput';
 import { SUPPORTED_OPENAI_MODELS } from './OpenAIModels';
+import { ApiAuthScheme, authSchemeRequiresApiKey } from './ApiConnection';
+import { PostProcessingProfile, findPostProcessingProfile, getPostProcessingProfiles } from './PostProcessingProfiles';
+import { EditorContext, buildEditorContextPrompt } from './EditorContext';
+import { Glossary, buildGlossaryInstructions } from './Glossary';
 
 export interface PostProcessingResult {
     originalText: string;
     processedText: string;
     wasProcessed: boolean;
     model?: string;
+    profile?: string;           // name of the profile used
     tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    failed?: boolean;           // the model was called but every attempt failed
     processingTime?: number;
 }
 
@@ -28,27 +36,47 @@ export class PostProcessingService {
     private processor: OpenAIPostProcessor | null = null;
     private configurationManager: ConfigurationManager;
 
-    constructor(configurationManager: ConfigurationManager) {
+    constructor(
+        configurationManager: ConfigurationManager,
+        private getEditorContext?: () => EditorContext | undefined,
+        private getGlossary?: () => Glossary
+    ) {
         this.configurationManager = configurationManager;
     }
 
     /**
-     * Process text based on current configuration
+     * Profiles available for post-processing: Default (from the model and prompt settings), built-in and custom ones
      */
-    async processText(text: string): Promise<PostProcessingResult> {
-        const startTime = Date.now();
+    getProfiles(): PostProcessingProfile[] {
         const config = this.configurationManager.getPostProcessingConfiguration();
+        return getPostProcessingProfiles(config, config.profiles);
+    }
+
+    /**
+     * Profile selected in speechToTextWhisper.postProcessing.profile
+     */
+    getActiveProfile(): PostProcessingProfile {
+        const config = this.configurationManager.getPostProcessingConfiguration();
+        return findPostProcessingProfile(this.getProfiles(), config.profile);
+    }
+
+    /**
+     * Process text with the given profile, or the active one
+     */
+    async processText(text: string, profile: PostProcessingProfile = this.getActiveProfile()): Promise<PostProcessingResult> {
+        const startTime = Date.now();
         
         try {
             ExtensionLog.info(`🧠 [POST-PROCESSING] Starting text processing`, {
                 textLength: text.length,
-                model: config.model,
-                minTextLength: config.minTextLength
+                profile: profile.name,
+                model: profile.model,
+                minTextLength: profile.minTextLength
             });
 
             // Check if processing should occur
-            if (!this.shouldProcess(text, config)) {
-                ExtensionLog.info(`🧠 [POST-PROCESSING] Skipping processing (model: ${config.model}, length: ${text.length})`);
+            if (!this.shouldProcess(text, profile)) {
+                ExtensionLog.info(`🧠 [POST-PROCESSING] Skipping processing (model: ${profile.model}, length: ${text.length})`);
                 return {
                     originalText: text,
                     processedText: text,
@@ -57,7 +85,7 @@ export class PostProcessingService {
             }
 
             // Validate configuration before processing
-            const validation = this.validateConfiguration();
+            const validation = this.validateConfiguration(profile);
             if (!validation.isValid) {
                 ExtensionLog.error(`🧠 [POST-PROCESSING] Configuration invalid:`, validation.errors);
                 return {
@@ -81,13 +109,15 @@ export class PostProcessingService {
 
             // Process the text
             const options: PostProcessingOptions = {
-                model: config.model,
-                prompt: config.prompt,
-                temperature: 0.1, // Low temperature for consistency
-                maxTokens: Math.min(4000, Math.ceil(text.length * 2)) // Reasonable limit based on input
+                model: profile.model,
+                prompt: profile.prompt,
+                temperature: profile.temperature,
+                maxTokens: Math.min(4000, Math.ceil(text.length * 2)), // Reasonable limit based on input
+                context: this.buildContext()
             };
 
-            const processedText = await this.processor.processText(text, options);
+            const result = await this.processor.processText(text, options);
+            const processedText = result.processedText;
             const processingTime = Date.now() - startTime;
 
             ExtensionLog.info(`🧠 [POST-PROCESSING] Processing completed`, {
@@ -101,7 +131,12 @@ export class PostProcessingService {
                 originalText: text,
                 processedText: processedText,
                 wasProcessed: processedText !== text, // True only if text was actually changed
-                model: config.model,
+                model: profile.model,
+                profile: profile.name,
+                tokensUsed: result.tokensUsed,
+                promptTokens: result.promptTokens,
+                completionTokens: result.completionTokens,
+                failed: result.failed,
                 processingTime: processingTime
             };
 
@@ -120,13 +155,39 @@ export class PostProcessingService {
     }
 
     /**
-     * Check if text should be processed based on configuration
+     * System message with the workspace glossary and, when speechToTextWhisper.postProcessing.editorContext is on,
+     * the editor context
      */
-    shouldProcess(text: string, config?: PostProcessingConfiguration): boolean {
-        const postConfig = config || this.configurationManager.getPostProcessingConfiguration();
-        
+    private buildContext(): string | undefined {
+        const config = this.configurationManager.getPostProcessingConfiguration();
+        const sections: string[] = [];
+
+        const glossary = this.getGlossary?.();
+        const glossaryInstructions = glossary ? buildGlossaryInstructions(glossary) : undefined;
+        if (glossaryInstructions) {
+            sections.push(glossaryInstructions);
+        }
+
+        if (config.editorContext && this.getEditorContext) {
+            try {
+                const editorContext = this.getEditorContext();
+                if (editorContext) {
+                    sections.push(buildEditorContextPrompt(editorContext, config.editorContextTokens));
+                }
+            } catch (error) {
+                ExtensionLog.warn(`🧠 [POST-PROCESSING] Failed to read the editor context: ${(error as Error).message}`);
+            }
+        }
+
+        return sections.length > 0 ? sections.join('\n\n') : undefined;
+    }
+
+    /**
+     * Check if text should be processed with the given profile, or the active one
+     */
+    shouldProcess(text: string, profile: PostProcessingProfile = this.getActiveProfile()): boolean {
         // Skip if model is set to "Without post-processing"
-        if (postConfig.model === 'Without post-processing') {
+        if (profile.model === 'Without post-processing') {
             return false;
         }
 
@@ -136,8 +197,8 @@ export class PostProcessingService {
         }
 
         // Check minimum text length
-        if (text.length < postConfig.minTextLength) {
-            ExtensionLog.info(`🧠 [POST-PROCESSING] Text too short (${text.length} < ${postConfig.minTextLength})`);
+        if (text.length < profile.minTextLength) {
+            ExtensionLog.info(`🧠 [POST-PROCESSING] Text too short (${text.length} < ${profile.minTextLength})`);
             return false;
         }
 
@@ -145,23 +206,23 @@ export class PostProcessingService {
     }
 
     /**
-     * Validate current configuration for post-processing
+     * Validate current configuration for post-processing with the given profile, or the active one
      */
-    validateConfiguration(): PostProcessingValidationResult {
+    validateConfiguration(profile: PostProcessingProfile = this.getActiveProfile()): PostProcessingValidationResult {
         const config = this.configurationManager.getPostProcessingConfiguration();
         const whisperConfig = this.configurationManager.getWhisperConfiguration();
         const errors: string[] = [];
         const warnings: string[] = [];
 
         // Check if API key is available
-        if (!whisperConfig.apiKey || whisperConfig.apiKey.trim() === '') {
+        if (authSchemeRequiresApiKey(whisperConfig.authScheme) && (!whisperConfig.apiKey || whisperConfig.apiKey.trim() === '')) {
             errors.push('OpenAI API key is required for post-processing');
         }
 
         // Validate model selection 
         const validModels = SUPPORTED_OPENAI_MODELS as readonly string[];
-        if (!validModels.includes(config.model)) {
-            errors.push(`Invalid model selection: ${config.model}`);
+        if (!validModels.includes(profile.model)) {
+            errors.push(`Invalid model selection: ${profile.model}`);
         }
 
         // Validate timeout
@@ -170,12 +231,12 @@ export class PostProcessingService {
         }
 
         // Validate minimum text length
-        if (config.minTextLength < 0) {
+        if (profile.minTextLength < 0) {
             errors.push('Minimum text length cannot be negative');
         }
 
         // Check if prompt is empty (warning, not error)
-        if (!config.prompt || config.prompt.trim().length === 0) {
+        if (!profile.prompt || profile.prompt.trim().length === 0) {
             warnings.push('Post-processing prompt is empty, using default');
         }
 
@@ -196,18 +257,20 @@ export class PostProcessingService {
      */
     getConfigurationStatus(): {
         isEnabled: boolean;
+        profile: string;
         model: string;
         minTextLength: number;
         isConfigValid: boolean;
         validationResult: PostProcessingValidationResult;
     } {
-        const config = this.configurationManager.getPostProcessingConfiguration();
-        const validation = this.validateConfiguration();
+        const profile = this.getActiveProfile();
+        const validation = this.validateConfiguration(profile);
         
         return {
-            isEnabled: config.model !== 'Without post-processing',
-            model: config.model,
-            minTextLength: config.minTextLength,
+            isEnabled: profile.model !== 'Without post-processing',
+            profile: profile.name,
+            model: profile.model,
+            minTextLength: profile.minTextLength,
             isConfigValid: validation.isValid,
             validationResult: validation
         };
@@ -217,8 +280,7 @@ export class PostProcessingService {
      * Check if post-processing is currently enabled
      */
     isEnabled(): boolean {
-        const config = this.configurationManager.getPostProcessingConfiguration();
-        return config.model !== 'Without post-processing';
+        return this.getActiveProfile().model !== 'Without post-processing';
     }
 
     /**
@@ -240,20 +302,26 @@ export class PostProcessingService {
         const whisperConfig = this.configurationManager.getWhisperConfiguration();
         const postConfig = this.configurationManager.getPostProcessingConfiguration();
 
-        if (!whisperConfig.apiKey) {
+        if (!whisperConfig.apiKey && authSchemeRequiresApiKey(whisperConfig.authScheme)) {
             throw new Error('OpenAI API key is required for post-processing');
         }
 
+        // Post-processing can use its own endpoint, otherwise the shared API endpoint
+        const baseURL = postConfig.baseURL || whisperConfig.baseURL;
+
         try {
             this.processor = new OpenAIPostProcessor({
                 apiKey: whisperConfig.apiKey,
                 timeout: postConfig.timeout,
                 maxRetries: 3, // Fixed retry count
-                retryDelay: 1000 // 1 second
+                retryDelay: 1000, // 1 second
+                baseURL: baseURL || undefined,
+                authScheme: whisperConfig.authScheme as ApiAuthScheme,
+                extraHeaders: whisperConfig.extraHeaders
             });
 
-            // Validate the API key
-            const isValidKey = await this.processor.checkApiKey();
+            // Validate the API key (custom endpoints often don't expose /models, so skip it there)
+            const isValidKey = baseURL ? true : await this.processor.checkApiKey();
             if (!isValidKey) {
                 ExtensionLog.warn(`🧠 [POST-PROCESSING] API key validation failed`);
                 this.processor = null;
@@ -0,0 +1,71 @@
+// RecordingClock.ts - Active recording time that excludes paused intervals
+
+/**
+ * Measures how long a recording has actually been capturing audio
+ */
+export class RecordingClock {
+    private startTime: number | null = null;
+    private pausedAt: number | null = null;
+    private pausedTotal = 0;
+
+    /**
+     * Starting a new measurement
+     */
+    start(now: number = Date.now()): void {
+        this.startTime = now;
+        this.pausedAt = null;
+        this.pausedTotal = 0;
+    }
+
+    /**
+     * Freezing the clock until resume
+     */
+    pause(now: number = Date.now()): void {
+        if (this.startTime === null || this.pausedAt !== null) {
+            return;
+        }
+        this.pausedAt = now;
+    }
+
+    /**
+     * Continuing after pause; the paused interval is not counted
+     */
+    resume(now: number = Date.now()): void {
+        if (this.pausedAt === null) {
+            return;
+        }
+        this.pausedTotal += now - this.pausedAt;
+        this.pausedAt = null;
+    }
+
+    /**
+     * Stopping the measurement
+     */
+    reset(): void {
+        this.startTime = null;
+        this.pausedAt = null;
+        this.pausedTotal = 0;
+    }
+
+    isPaused(): boolean {
+        return this.pausedAt !== null;
+    }
+
+    /**
+     * Active time in milliseconds
+     */
+    getElapsed(now: number = Date.now()): number {
+        if (this.startTime === null) {
+            return 0;
+        }
+        const end = this.pausedAt ?? now;
+        return Math.max(0, end - this.startTime - this.pausedTotal);
+    }
+
+    /**
+     * Total time spent paused in milliseconds
+     */
+    getPausedTime(now: number = Date.now()): number {
+        return this.pausedTotal + (this.pausedAt !== null ? now - this.pausedAt : 0);
+    }
+}
@@ -0,0 +1,36 @@
+// SilenceDetect.ts - Helpers for FFmpeg's silencedetect filter
+
+export type SilenceDetectionMethod = 'silencedetect' | 'volumedetect';
+
+export const SILENCE_DETECTION_METHODS: readonly SilenceDetectionMethod[] = ['silencedetect', 'volumedetect'];
+
+// silence_start / silence_end reported by the filter, time in seconds from the start of the stream
+export interface SilenceEvent {
+    type: 'start' | 'end';
+    time: number;
+}
+
+/**
+ * Building the filter that reports silence louder than thresholdDb lasting at least minDuration seconds
+ */
+export function buildSilenceDetectFilter(thresholdDb: number, minDuration: number): string {
+    return `silencedetect=noise=${thresholdDb}dB:d=${minDuration}`;
+}
+
+/**
+ * Parsing silencedetect events from a piece of FFmpeg stderr, in order of appearance
+ */
+export function parseSilenceEvents(output: string): SilenceEvent[] {
+    const events: SilenceEvent[] = [];
+    const pattern = /silence_(start|end):\s*(-?\d+(?:\.\d+)?)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(output)) !== null) {
+        events.push({
+            type: match[1] === 'start' ? 'start' : 'end',
+            time: Math.max(0, parseFloat(match[2]))
+        });
+    }
+
+    return events;
+}
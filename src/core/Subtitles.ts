@@ -0,0 +1,94 @@
+// Subtitles.ts - Timed transcript segments and SRT / VTT / timestamped Markdown formatting
+
+import { SegmentTimestamp } from './TranscriptionProvider';
+import { TranscriptSegment } from '../types/TranscriptionHistory';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'markdown';
+
+// Segments of one transcribed chunk and where the chunk starts in the recording
+export interface ChunkSegments {
+    offset: number;
+    segments: TranscriptSegment[];
+}
+
+/**
+ * Reducing provider segments to the fields kept in the history, dropping empty ones
+ */
+export function toTranscriptSegments(segments: SegmentTimestamp[]): TranscriptSegment[] {
+    return segments
+        .map(segment => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+        .filter(segment => segment.text.length > 0 && segment.end >= segment.start);
+}
+
+/**
+ * Shifting chunk segments onto the recording timeline.
+ * Chunks overlap when cut outside a pause, so segments ending inside the previous chunk are dropped.
+ */
+export function mergeChunkSegments(chunks: ChunkSegments[]): TranscriptSegment[] {
+    const merged: TranscriptSegment[] = [];
+
+    for (const chunk of chunks) {
+        for (const segment of chunk.segments) {
+            const lastEnd = merged.length > 0 ? merged[merged.length - 1].end : 0;
+            const start = Math.max(segment.start + chunk.offset, lastEnd);
+            const end = segment.end + chunk.offset;
+            if (end <= lastEnd) {
+                continue;
+            }
+            merged.push({ start, end, text: segment.text });
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Formatting seconds as HH:MM:SS plus milliseconds after the given separator
+ */
+export function formatTimestamp(seconds: number, millisecondSeparator: ',' | '.' | null = ','): string {
+    const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+    const time = `${pad(hours)}:${pad(minutes)}:${pad(secs)}`;
+    return millisecondSeparator === null ? time : `${time}${millisecondSeparator}${pad(totalMilliseconds % 1000, 3)}`;
+}
+
+export function formatSrt(segments: TranscriptSegment[]): string {
+    return segments
+        .map((segment, index) => [
+            String(index + 1),
+            `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+            segment.text
+        ].join('\n'))
+        .join('\n\n') + '\n';
+}
+
+export function formatVtt(segments: TranscriptSegment[]): string {
+    const cues = segments.map(segment => [
+        `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+        segment.text
+    ].join('\n'));
+
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function formatTimestampedMarkdown(segments: TranscriptSegment[], title?: string): string {
+    const body = segments
+        .map(segment => `**[${formatTimestamp(segment.start, null)}]** ${segment.text}`)
+        .join('\n\n');
+    return title ? `# ${title}\n\n${body}\n` : `${body}\n`;
+}
+
+export function formatSubtitles(segments: TranscriptSegment[], format: SubtitleFormat, title?: string): string {
+    switch (format) {
+        case 'srt':
+            return formatSrt(segments);
+        case 'vtt':
+            return formatVtt(segments);
+        case 'markdown':
+            return formatTimestampedMarkdown(segments, title);
+    }
+}
@@ -1,10 +1,20 @@
 // TextProcessingPipeline.ts - Coordinator for the complete text processing workflow
 
-import { WhisperClient, TranscriptionOptions } from './WhisperClient';
+import { TranscriptionProvider, TranscriptionOptions, filterOptionsByCapabilities } from './TranscriptionProvider';
 import { PostProcessingService, PostProcessingResult } from './PostProcessingService';
 import { TextInserter } from '../ui/TextInserter';
 import { ConfigurationManager } from './ConfigurationManager';
+import { providerRequiresApiKey } from './TranscriptionProviderFactory';
 import { ExtensionLog } from '../utils/GlobalOutput';
+import { UploadEncoder, UploadCodec } from './UploadEncoder';
+import { AudioChunker, getMaxChunkDuration, getPromptTail, stitchTranscripts } from './AudioChunker';
+import { ChunkSegments, mergeChunkSegments, toTranscriptSegments } from './Subtitles';
+import { TranscriptSegment } from '../types/TranscriptionHistory';
+import { UsageTracker } from './UsageTracker';
+import { getWavDuration } from './WavUtils';
+import { GlossaryStore } from './GlossaryStore';
+import { EMPTY_GLOSSARY, applyGlossaryReplacements, buildContinuationPrompt, buildWhisperPrompt } from './Glossary';
+import { applyTextRules } from './TextRules';
 
 export interface ProcessingStep {
     name: string;
@@ -24,38 +34,64 @@ export interface PipelineResult {
     steps: ProcessingStep[];
     totalProcessingTime: number;
     insertionMode: 'cursor' | 'clipboard';
+    segments?: TranscriptSegment[];     // set when timestamps were requested
     error?: Error;
 }
 
+// Transcript text with optional segment timings on the recording timeline
+interface TimedTranscript {
+    text: string;
+    segments?: TranscriptSegment[];
+}
+
 export interface ProcessingProgress {
     currentStep: string;
     stepIndex: number;
     totalSteps: number;
     message: string;
+    chunkIndex?: number;    // 1-based chunk being transcribed when a long recording is split
+    chunkCount?: number;
 }
 
 export type ProgressCallback = (progress: ProcessingProgress) => void;
 
+// Transcription, post-processing, text rules and insertion
+const PIPELINE_STEP_COUNT = 4;
+
+/**
+ * Limits applied to a single run, e.g. once a usage budget is reached
+ */
+export interface ProcessingRestrictions {
+    skipPostProcessing?: boolean;
+    transcriptionProvider?: TranscriptionProvider;  // used instead of the configured provider
+}
+
 /**
  * Coordinates the complete text processing workflow:
- * Audio Blob → Whisper Transcription → Post-processing → Text Insertion
+ * Audio Blob → Transcription (selected provider) → Post-processing → Text Rules → Text Insertion
  */
 export class TextProcessingPipeline {
-    private whisperClient: WhisperClient;
+    private transcriptionProvider: TranscriptionProvider | null;
     private postProcessingService: PostProcessingService;
     private textInserter: TextInserter;
     private configurationManager: ConfigurationManager;
+    private usageTracker?: UsageTracker;
+    private glossaryStore?: GlossaryStore;
 
     constructor(
-        whisperClient: WhisperClient,
+        transcriptionProvider: TranscriptionProvider | null,
         postProcessingService: PostProcessingService,
         textInserter: TextInserter,
-        configurationManager: ConfigurationManager
+        configurationManager: ConfigurationManager,
+        usageTracker?: UsageTracker,
+        glossaryStore?: GlossaryStore
     ) {
-        this.whisperClient = whisperClient;
+        this.transcriptionProvider = transcriptionProvider;
         this.postProcessingService = postProcessingService;
         this.textInserter = textInserter;
         this.configurationManager = configurationManager;
+        this.usageTracker = usageTracker;
+        this.glossaryStore = glossaryStore;
     }
 
     /**
@@ -65,40 +101,54 @@ export class TextProcessingPipeline {
         audioBlob: Blob,
         insertionMode: 'cursor' | 'clipboard' = 'cursor',
         progressCallback?: ProgressCallback,
-        skipTextInsertion: boolean = false
+        skipTextInsertion: boolean = false,
+        restrictions: ProcessingRestrictions = {}
     ): Promise<PipelineResult> {
         const startTime = Date.now();
         const steps: ProcessingStep[] = [];
         
         ExtensionLog.info(`🔄 [PIPELINE] Starting audio processing pipeline`, {
             audioBlobSize: audioBlob.size,
-            insertionMode: insertionMode
+            insertionMode: insertionMode,
+            restrictions: {
+                skipPostProcessing: !!restrictions.skipPostProcessing,
+                provider: restrictions.transcriptionProvider?.id
+            }
         });
 
         try {
             // Step 1: Whisper Transcription
             const transcriptionStep = this.createStep('Whisper Transcription');
             steps.push(transcriptionStep);
-            this.updateProgress(progressCallback, 'Transcribing audio...', 0, 3);
+            this.updateProgress(progressCallback, 'Transcribing audio...', 0, PIPELINE_STEP_COUNT);
 
-            const transcriptionResult = await this.executeTranscription(audioBlob, transcriptionStep);
+            const transcription = await this.executeTranscription(
+                audioBlob, transcriptionStep, progressCallback, undefined, undefined, restrictions.transcriptionProvider
+            );
             
-            if (!transcriptionResult) {
+            if (!transcription) {
                 return this.createFailureResult(audioBlob, steps, startTime, insertionMode, new Error('Transcription failed'));
             }
+            const transcriptionResult = transcription.text;
 
             // Step 2: Post-processing (conditional)
             const postProcessingStep = this.createStep('Post-processing');
             steps.push(postProcessingStep);
-            this.updateProgress(progressCallback, 'Improving text quality...', 1, 3);
+            this.updateProgress(progressCallback, 'Improving text quality...', 1, PIPELINE_STEP_COUNT);
+
+            const postProcessingResult = await this.executePostProcessing(transcriptionResult, postProcessingStep, restrictions.skipPostProcessing);
 
-            const postProcessingResult = await this.executePostProcessing(transcriptionResult, postProcessingStep);
-            const finalText = postProcessingResult.processedText;
+            // Step 3: Text rules (conditional)
+            const textRulesStep = this.createStep('Text Rules');
+            steps.push(textRulesStep);
+            this.updateProgress(progressCallback, 'Applying text rules...', 2, PIPELINE_STEP_COUNT);
 
-            // Step 3: Text Insertion
+            const finalText = this.executeTextRules(postProcessingResult.processedText, textRulesStep);
+
+            // Step 4: Text Insertion
             const insertionStep = this.createStep('Text Insertion');
             steps.push(insertionStep);
-            this.updateProgress(progressCallback, 'Inserting text...', 2, 3);
+            this.updateProgress(progressCallback, 'Inserting text...', 3, PIPELINE_STEP_COUNT);
 
             if (!skipTextInsertion) {
                 await this.executeTextInsertion(finalText, insertionMode, insertionStep);
@@ -132,7 +182,8 @@ export class TextProcessingPipeline {
                 finalText: finalText,
                 steps: steps,
                 totalProcessingTime: totalTime,
-                insertionMode: insertionMode
+                insertionMode: insertionMode,
+                segments: transcription.segments
             };
 
         } catch (error) {
@@ -142,29 +193,68 @@ export class TextProcessingPipeline {
     }
 
     /**
-     * Execute Whisper transcription step
+     * Transcribe audio only (no post-processing or insertion), optionally overriding the configured model, language or prompt.
+     * Text rules are applied as for recordings. The duration (ms) is used for usage tracking when the audio is not WAV.
+     */
+    async transcribeOnly(
+        audioBlob: Blob,
+        overrides: TranscriptionOptions = {},
+        progressCallback?: ProgressCallback,
+        audioDuration?: number
+    ): Promise<string> {
+        ExtensionLog.info(`🔄 [PIPELINE] Starting transcription-only run`, {
+            audioBlobSize: audioBlob.size,
+            overrides: overrides
+        });
+
+        const transcription = await this.executeTranscription(audioBlob, this.createStep('Whisper Transcription'), progressCallback, overrides, audioDuration);
+        return this.executeTextRules(transcription?.text ?? '', this.createStep('Text Rules'));
+    }
+
+    /**
+     * Build transcription options from settings and the workspace glossary, limited to what the provider supports
+     */
+    buildTranscriptionOptions(provider: TranscriptionProvider): TranscriptionOptions {
+        const whisperConfig = this.configurationManager.getWhisperConfiguration();
+        return filterOptionsByCapabilities({
+            language: whisperConfig.language === 'auto' ? undefined : whisperConfig.language,
+            model: whisperConfig.whisperModel,
+            prompt: buildWhisperPrompt(whisperConfig.prompt, this.glossaryStore?.getGlossary() || EMPTY_GLOSSARY),
+            temperature: whisperConfig.temperature,
+            response_format: 'text'
+        }, provider.getCapabilities());
+    }
+
+    /**
+     * Execute transcription step with the configured provider, or the given one
      */
-    private async executeTranscription(audioBlob: Blob, step: ProcessingStep): Promise<string | null> {
+    private async executeTranscription(
+        audioBlob: Blob,
+        step: ProcessingStep,
+        progressCallback?: ProgressCallback,
+        overrides?: TranscriptionOptions,
+        audioDuration?: number,
+        providerOverride?: TranscriptionProvider
+    ): Promise<TimedTranscript | null> {
         step.status = 'in-progress';
         step.startTime = Date.now();
+        let usageModel: string | undefined;
+        const provider = providerOverride || this.transcriptionProvider;
 
         try {
-            // Check if whisperClient is initialized
-            if (!this.whisperClient) {
-                throw new Error('WhisperClient not initialized. Please check your OpenAI API key configuration.');
+            // Check if the transcription provider is initialized
+            if (!provider) {
+                throw new Error('Transcription provider not initialized. Please check your provider and OpenAI API key configuration.');
             }
 
-            const whisperConfig = this.configurationManager.getWhisperConfiguration();
-            const options: TranscriptionOptions = {
-                language: whisperConfig.language === 'auto' ? undefined : whisperConfig.language,
-                model: whisperConfig.whisperModel,
-                prompt: whisperConfig.prompt,
-                temperature: whisperConfig.temperature,
-                response_format: 'text'
-            };
+            const options = overrides
+                ? { ...this.buildTranscriptionOptions(provider), ...filterOptionsByCapabilities(overrides, provider.getCapabilities()) }
+                : this.buildTranscriptionOptions(provider);
+            usageModel = this.getUsageModel(provider, options);
 
             // Log all transcription parameters
             ExtensionLog.info(`🔄 [PIPELINE] Whisper transcription parameters:`, {
+                provider: provider.id,
                 language: options.language || 'auto-detect',
                 model: options.model,
                 prompt: options.prompt || '(no prompt)',
@@ -174,20 +264,45 @@ export class TextProcessingPipeline {
                 audioType: audioBlob.type
             });
 
-            const result = await this.whisperClient.transcribe(audioBlob, options);
+            const capabilities = provider.getCapabilities();
+            // Runs with overrides only produce text, so models without verbose_json work too
+            const timestamps = !overrides && this.configurationManager.getWhisperConfiguration().timestamps && capabilities.segmentTimestamps;
+            const uploadEncoder = this.createUploadEncoder(capabilities.uploadsAudio);
+            const uploadBlob = await uploadEncoder.encode(audioBlob);
+
+            const maxFileSize = capabilities.maxFileSize;
+            const requestStartTime = Date.now();
+            const transcript = this.applyGlossary(maxFileSize && uploadBlob.size > maxFileSize
+                ? await this.transcribeInChunks(provider, audioBlob, options, maxFileSize, uploadEncoder, timestamps, progressCallback, overrides?.prompt)
+                : await this.transcribeBlob(provider, uploadBlob, options, timestamps));
+            const result = transcript.text;
+
+            ExtensionLog.info(`🔄 [PIPELINE] Transcription request latency:`, {
+                uploadSize: `${(uploadBlob.size / 1024).toFixed(2)} KB`,
+                originalSize: `${(audioBlob.size / 1024).toFixed(2)} KB`,
+                requestTime: `${Date.now() - requestStartTime}ms`
+            });
             
             step.status = 'completed';
             step.endTime = Date.now();
-            step.result = { text: result, length: result.length };
+            step.result = { text: result, length: result.length, segmentCount: transcript.segments?.length };
 
             ExtensionLog.info(`🔄 [PIPELINE] Transcription completed:`, {
                 textLength: result.length,
                 processingTime: step.endTime - (step.startTime || 0),
                 transcribedText: result,
-                wordCount: result.split(' ').length
+                wordCount: result.split(' ').length,
+                segments: transcript.segments ? transcript.segments.length : '(not requested)'
             });
 
-            return result;
+            await this.usageTracker?.record({
+                kind: 'transcription',
+                model: usageModel,
+                success: true,
+                audioSeconds: await this.getAudioSeconds(audioBlob, audioDuration)
+            });
+
+            return transcript;
 
         } catch (error) {
             step.status = 'failed';
@@ -195,24 +310,156 @@ export class TextProcessingPipeline {
             step.error = error as Error;
             
             ExtensionLog.error(`🔄 [PIPELINE] Transcription failed:`, undefined, error as Error);
+            if (usageModel) {
+                await this.usageTracker?.record({ kind: 'transcription', model: usageModel, success: false });
+            }
             throw error;
         }
     }
 
+    /**
+     * Replacing glossary aliases in the transcript and its segments with the preferred spellings
+     */
+    private applyGlossary(transcript: TimedTranscript): TimedTranscript {
+        const glossary = this.glossaryStore?.getGlossary();
+        if (!glossary || glossary.terms.length === 0) {
+            return transcript;
+        }
+
+        const { text, replacements } = applyGlossaryReplacements(transcript.text, glossary);
+        if (replacements > 0) {
+            ExtensionLog.info(`🔄 [PIPELINE] Glossary replacements applied: ${replacements}`);
+        }
+
+        return {
+            text,
+            segments: transcript.segments?.map(segment => ({ ...segment, text: applyGlossaryReplacements(segment.text, glossary).text }))
+        };
+    }
+
+    /**
+     * Usage key of the transcription model; other providers are prefixed so they never match OpenAI prices
+     */
+    getUsageModel(provider: TranscriptionProvider, options: TranscriptionOptions): string {
+        const model = options.model || 'default';
+        return provider.id === 'openai' ? model : `${provider.id}/${model}`;
+    }
+
+    /**
+     * Audio length in seconds from the WAV header, or from the known duration for compressed audio
+     */
+    private async getAudioSeconds(audioBlob: Blob, audioDuration?: number): Promise<number> {
+        const header = Buffer.from(await audioBlob.slice(0, 4096).arrayBuffer());
+        const wavDuration = getWavDuration(header, audioBlob.size);
+        return wavDuration ?? (audioDuration ?? 0) / 1000;
+    }
+
+    /**
+     * Transcribe one upload, requesting segment timings when timestamps are enabled
+     */
+    private async transcribeBlob(
+        provider: TranscriptionProvider,
+        audioBlob: Blob,
+        options: TranscriptionOptions,
+        timestamps: boolean
+    ): Promise<TimedTranscript> {
+        if (!timestamps) {
+            return { text: await provider.transcribe(audioBlob, options) };
+        }
+
+        const result = await provider.transcribeWithTimestamps(audioBlob, options);
+        return { text: result.text, segments: toTranscriptSegments(result.segments || []) };
+    }
+
+    /**
+     * Transcribe a recording over the provider upload limit chunk by chunk.
+     * Chunks run sequentially so each one gets the previous transcript tail as prompt.
+     * An overridden prompt replaces the configured prompt and glossary, as for single requests.
+     */
+    private async transcribeInChunks(
+        provider: TranscriptionProvider,
+        audioBlob: Blob,
+        options: TranscriptionOptions,
+        maxFileSize: number,
+        uploadEncoder: UploadEncoder,
+        timestamps: boolean,
+        progressCallback?: ProgressCallback,
+        promptOverride?: string
+    ): Promise<TimedTranscript> {
+        const chunker = new AudioChunker({ maxChunkDuration: getMaxChunkDuration(maxFileSize) });
+        const chunks = await chunker.split(audioBlob);
+
+        ExtensionLog.info(`🔄 [PIPELINE] Recording exceeds upload limit, transcribing in chunks:`, {
+            audioSize: `${(audioBlob.size / 1024 / 1024).toFixed(2)} MB`,
+            maxFileSize: `${(maxFileSize / 1024 / 1024).toFixed(2)} MB`,
+            chunkCount: chunks.length
+        });
+
+        const parts: string[] = [];
+        const overlaps: number[] = [];
+        const timedParts: ChunkSegments[] = [];
+        for (const chunk of chunks) {
+            const chunkNumber = chunk.index + 1;
+            this.updateProgress(progressCallback, 'Transcribing audio...', 0, PIPELINE_STEP_COUNT, chunkNumber, chunks.length);
+
+            const previousText = parts.length > 0 ? parts[parts.length - 1] : '';
+            const chunkOptions: TranscriptionOptions = { ...options };
+            if (previousText && provider.getCapabilities().prompt) {
+                const tail = getPromptTail(previousText);
+                chunkOptions.prompt = promptOverride !== undefined
+                    ? buildContinuationPrompt(promptOverride, EMPTY_GLOSSARY, tail)
+                    : buildContinuationPrompt(this.configurationManager.getWhisperConfiguration().prompt, this.glossaryStore?.getGlossary() || EMPTY_GLOSSARY, tail);
+            }
+
+            const transcript = await this.transcribeBlob(provider, await uploadEncoder.encode(chunk.blob), chunkOptions, timestamps);
+            const text = transcript.text;
+            parts.push(text);
+            overlaps.push(chunk.overlap);
+            if (transcript.segments) {
+                timedParts.push({ offset: chunk.start, segments: transcript.segments });
+            }
+
+            ExtensionLog.info(`🔄 [PIPELINE] Chunk ${chunkNumber}/${chunks.length} transcribed:`, {
+                start: chunk.start,
+                end: chunk.end,
+                textLength: text.length
+            });
+        }
+
+        return {
+            text: stitchTranscripts(parts, overlaps),
+            segments: timestamps ? mergeChunkSegments(timedParts) : undefined
+        };
+    }
+
+    /**
+     * Create the upload encoder from audio settings; providers that don't upload get a pass-through encoder
+     */
+    private createUploadEncoder(uploadsAudio: boolean): UploadEncoder {
+        const audioConfig = this.configurationManager.getAudioConfiguration();
+        return new UploadEncoder({
+            codec: uploadsAudio ? (audioConfig.uploadCodec as UploadCodec) || 'none' : 'none',
+            bitrate: audioConfig.uploadBitrate || '32k'
+        });
+    }
+
     /**
      * Execute post-processing step
      */
-    private async executePostProcessing(text: string, step: ProcessingStep): Promise<PostProcessingResult> {
+    private async executePostProcessing(text: string, step: ProcessingStep, skip: boolean = false): Promise<PostProcessingResult> {
         step.status = 'in-progress';
         step.startTime = Date.now();
 
         try {
+            // The profile is resolved once, so a profile switch mid-run doesn't mix settings
+            const profile = this.postProcessingService.getActiveProfile();
+
             // Check if post-processing should be applied
-            if (!this.postProcessingService.shouldProcess(text)) {
+            if (skip || !this.postProcessingService.shouldProcess(text, profile)) {
                 step.status = 'skipped';
                 step.endTime = Date.now();
                 
-                ExtensionLog.info(`🔄 [PIPELINE] Post-processing skipped`);
+                ExtensionLog.info(`🔄 [PIPELINE] Post-processing skipped`, { restricted: skip });
                 
                 return {
                     originalText: text,
@@ -221,7 +468,16 @@ export class TextProcessingPipeline {
                 };
             }
 
-            const result = await this.postProcessingService.processText(text);
+            const result = await this.postProcessingService.processText(text, profile);
+            if (result.model) {
+                await this.usageTracker?.record({
+                    kind: 'postProcessing',
+                    model: result.model,
+                    success: !result.failed,
+                    promptTokens: result.promptTokens,
+                    completionTokens: result.completionTokens
+                });
+            }
             
             step.status = 'completed';
             step.endTime = Date.now();
@@ -230,6 +486,7 @@ export class TextProcessingPipeline {
                 originalLength: result.originalText.length,
                 processedLength: result.processedText.length,
                 model: result.model,
+                profile: result.profile,
                 processingTime: result.processingTime
             };
 
@@ -260,6 +517,38 @@ export class TextProcessingPipeline {
         }
     }
 
+    /**
+     * Execute text rules step; the rules are deterministic, so no fallback is needed beyond
+     * skipping invalid rules
+     */
+    private executeTextRules(text: string, step: ProcessingStep): string {
+        step.startTime = Date.now();
+        const config = this.configurationManager.getTextRulesConfiguration();
+
+        if (!config.enabled || config.rules.length === 0 || !text) {
+            step.status = 'skipped';
+            step.endTime = Date.now();
+            ExtensionLog.info(`🔄 [PIPELINE] Text rules skipped`, { enabled: config.enabled, ruleCount: config.rules.length });
+            return text;
+        }
+
+        const result = applyTextRules(text, config.rules);
+        step.status = 'completed';
+        step.endTime = Date.now();
+        step.result = {
+            appliedRules: result.steps.length,
+            changedBy: result.steps.filter(ruleStep => ruleStep.changed).map(ruleStep => ruleStep.label)
+        };
+
+        ExtensionLog.info(`🔄 [PIPELINE] Text rules applied:`, {
+            ...step.result,
+            originalText: text,
+            processedText: result.text
+        });
+
+        return result.text;
+    }
+
     /**
      * Execute text insertion step
      */
@@ -304,13 +593,22 @@ export class TextProcessingPipeline {
     /**
      * Update progress callback if provided
      */
-    private updateProgress(callback: ProgressCallback | undefined, message: string, stepIndex: number, totalSteps: number): void {
+    private updateProgress(
+        callback: ProgressCallback | undefined,
+        message: string,
+        stepIndex: number,
+        totalSteps: number,
+        chunkIndex?: number,
+        chunkCount?: number
+    ): void {
         if (callback) {
             callback({
                 currentStep: message,
                 stepIndex: stepIndex,
                 totalSteps: totalSteps,
-                message: message
+                message: chunkCount ? `Transcribing chunk ${chunkIndex}/${chunkCount}...` : message,
+                chunkIndex: chunkIndex,
+                chunkCount: chunkCount
             });
         }
     }
@@ -346,11 +644,10 @@ export class TextProcessingPipeline {
         postProcessingEnabled: boolean;
         postProcessingConfigured: boolean;
     } {
-        const whisperConfig = this.configurationManager.getWhisperConfiguration();
         const postProcessingStatus = this.postProcessingService.getConfigurationStatus();
 
         return {
-            whisperConfigured: !!whisperConfig.apiKey,
+            whisperConfigured: !!this.transcriptionProvider,
             postProcessingEnabled: postProcessingStatus.isEnabled,
             postProcessingConfigured: postProcessingStatus.isConfigValid
         };
@@ -362,9 +659,9 @@ export class TextProcessingPipeline {
     validateConfiguration(): { isValid: boolean; errors: string[] } {
         const errors: string[] = [];
         
-        // Validate Whisper configuration
+        // Validate transcription configuration
         const whisperConfig = this.configurationManager.getWhisperConfiguration();
-        if (!whisperConfig.apiKey) {
+        if (providerRequiresApiKey(whisperConfig.provider, whisperConfig.authScheme) && !whisperConfig.apiKey) {
             errors.push('OpenAI API key is required');
         }
 
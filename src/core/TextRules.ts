@@ -0,0 +1,185 @@
+// TextRules.ts - Ordered deterministic rewrites of transcribed text: replacements, casing and spoken punctuation
+
+export type TextRuleType = 'literal' | 'regex' | 'case' | 'spokenPunctuation';
+
+export const TEXT_RULE_TYPES: readonly TextRuleType[] = ['literal', 'regex', 'case', 'spokenPunctuation'];
+
+export type TextCase = 'sentence' | 'lower' | 'upper' | 'title';
+
+export const TEXT_CASES: readonly TextCase[] = ['sentence', 'lower', 'upper', 'title'];
+
+export interface TextRule {
+    type: TextRuleType;
+    description?: string;
+    enabled?: boolean;          // false = skipped
+    find?: string;              // literal text or regular expression
+    replace?: string;           // replacement; regex rules may use $1 etc. and \n
+    caseSensitive?: boolean;    // literal rules, default false
+    wholeWord?: boolean;        // literal rules, default true
+    flags?: string;             // regex rules, default "g"
+    case?: TextCase;            // case rules
+}
+
+/**
+ * Result of one rule, for the preview
+ */
+export interface TextRuleStep {
+    index: number;
+    label: string;
+    changed: boolean;
+}
+
+/**
+ * Spoken punctuation and layout words, longest phrases first so "new paragraph" wins over "new line"
+ */
+export const SPOKEN_PUNCTUATION: ReadonlyArray<[string, string]> = [
+    ['new paragraph', '\n\n'],
+    ['new line', '\n'],
+    ['newline', '\n'],
+    ['open parenthesis', '('],
+    ['close parenthesis', ')'],
+    ['open paren', '('],
+    ['close paren', ')'],
+    ['open bracket', '['],
+    ['close bracket', ']'],
+    ['open brace', '{'],
+    ['close brace', '}'],
+    ['question mark', '?'],
+    ['exclamation mark', '!'],
+    ['exclamation point', '!'],
+    ['full stop', '.'],
+    ['period', '.'],
+    ['comma', ','],
+    ['semicolon', ';'],
+    ['colon', ':']
+];
+
+/**
+ * Problems of the rules, one message per invalid rule
+ */
+export function validateTextRules(rules: TextRule[]): string[] {
+    const errors: string[] = [];
+
+    rules.forEach((rule, index) => {
+        const name = `Text rule ${index + 1}`;
+        if (!rule || !(TEXT_RULE_TYPES as readonly string[]).includes(rule.type)) {
+            errors.push(`${name}: unknown type ${rule?.type}`);
+            return;
+        }
+
+        if ((rule.type === 'literal' || rule.type === 'regex') && !rule.find) {
+            errors.push(`${name}: "find" is required`);
+        }
+
+        if (rule.type === 'regex' && rule.find) {
+            try {
+                new RegExp(rule.find, rule.flags ?? 'g');
+            } catch (error) {
+                errors.push(`${name}: ${(error as Error).message}`);
+            }
+        }
+
+        if (rule.type === 'case' && !(TEXT_CASES as readonly string[]).includes(rule.case as string)) {
+            errors.push(`${name}: "case" must be one of ${TEXT_CASES.join(', ')}`);
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Applying the enabled rules in order; invalid rules are skipped
+ */
+export function applyTextRules(text: string, rules: TextRule[]): { text: string; steps: TextRuleStep[] } {
+    const steps: TextRuleStep[] = [];
+
+    rules.forEach((rule, index) => {
+        if (!rule || rule.enabled === false || validateTextRules([rule]).length > 0) {
+            return;
+        }
+
+        const result = applyTextRule(text, rule);
+        steps.push({ index, label: describeTextRule(rule), changed: result !== text });
+        text = result;
+    });
+
+    return { text, steps };
+}
+
+export function describeTextRule(rule: TextRule): string {
+    if (rule.description) {
+        return rule.description;
+    }
+
+    switch (rule.type) {
+        case 'literal':
+        case 'regex':
+            return `${rule.type} "${rule.find}" → "${rule.replace ?? ''}"`;
+        case 'case':
+            return `${rule.case} case`;
+        case 'spokenPunctuation':
+            return 'spoken punctuation';
+    }
+}
+
+function applyTextRule(text: string, rule: TextRule): string {
+    switch (rule.type) {
+        case 'literal': {
+            const pattern = escapeRegExp(rule.find!);
+            const bounded = rule.wholeWord === false ? pattern : `(?<![\\p{L}\\p{N}_])${pattern}(?![\\p{L}\\p{N}_])`;
+            const replacement = rule.replace ?? '';
+            return text.replace(new RegExp(bounded, rule.caseSensitive ? 'gu' : 'giu'), () => replacement);
+        }
+        case 'regex':
+            return text.replace(new RegExp(rule.find!, rule.flags ?? 'g'), (rule.replace ?? '').replace(/\\n/g, '\n'));
+        case 'case':
+            return applyCase(text, rule.case!);
+        case 'spokenPunctuation':
+            return applySpokenPunctuation(text);
+    }
+}
+
+function applyCase(text: string, textCase: TextCase): string {
+    switch (textCase) {
+        case 'lower':
+            return text.toLowerCase();
+        case 'upper':
+            return text.toUpperCase();
+        case 'title':
+            return text.replace(/(^|[^\p{L}\p{N}'])(\p{Ll})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase());
+        case 'sentence':
+            return text.replace(/(^\s*|[.!?]\s+|\n\s*)(\p{Ll})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase());
+    }
+}
+
+/**
+ * Replacing spoken punctuation words. Punctuation Whisper put around the spoken word is dropped,
+ * spaces before closing marks and after opening ones are removed.
+ */
+export function applySpokenPunctuation(text: string): string {
+    for (const [phrase, symbol] of SPOKEN_PUNCTUATION) {
+        const words = phrase.split(' ').map(escapeRegExp).join('\\s+');
+        const regex = new RegExp(`[ \\t]*[,.;:]?[ \\t]*(?<![\\p{L}\\p{N}_])${words}(?![\\p{L}\\p{N}_])[,.;:!?]?`, 'giu');
+        text = text.replace(regex, (match: string, offset: number, source: string) => {
+            if (symbol.startsWith('\n')) {
+                return symbol;
+            }
+            if (/[([{]/.test(symbol)) {
+                return ` ${symbol}`;
+            }
+            // Keep a space between a closing mark and the next word
+            const next = source.charAt(offset + match.length);
+            return /[\p{L}\p{N}]/u.test(next) ? `${symbol} ` : symbol;
+        });
+    }
+
+    return text
+        .replace(/([([{])[ \t]+/g, '$1')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n[ \t]+/g, '\n')
+        .replace(/^[ \t]+/, '');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
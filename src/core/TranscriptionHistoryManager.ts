@@ -4,16 +4,21 @@
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { 
 	TranscriptionEntry, 
 	TranscriptionHistory, 
 	AddEntryOptions, 
 	HistoryOperationResult,
+	TranscriptionVariant,
+	HistoryStorageScope,
 	TRANSCRIPTION_HISTORY_CONSTANTS,
 	RecordingMode
 } from '../types/TranscriptionHistory';
 import { ExtensionLog } from '../utils/GlobalOutput';
 import { ErrorHandler, ErrorType, ErrorContext } from '../utils/ErrorHandler';
+import { HistoryRetentionPolicy, applyHistoryRetention } from './HistoryRetention';
 
 /**
  * Class for managing transcription history
@@ -22,6 +27,12 @@ export class TranscriptionHistoryManager {
 	private context: vscode.ExtensionContext;
 	private errorHandler: ErrorHandler;
 	private _history: TranscriptionHistory | null = null;
+	private retentionPolicy: HistoryRetentionPolicy = {
+		enabled: true,
+		maxEntries: TRANSCRIPTION_HISTORY_CONSTANTS.MAX_ENTRIES,
+		maxAgeDays: 0
+	};
+	private storageScope: HistoryStorageScope = 'global';
 
 	constructor(context: vscode.ExtensionContext, errorHandler: ErrorHandler) {
 		this.context = context;
@@ -50,11 +61,53 @@ export class TranscriptionHistoryManager {
 		}
 	}
 
+	/**
+	 * Updating the size and age limits and pruning the loaded history to them
+	 */
+	public async setRetentionPolicy(policy: HistoryRetentionPolicy): Promise<HistoryOperationResult> {
+		this.retentionPolicy = { ...policy };
+
+		if (!this._history || !this.enforceRetention()) {
+			return { success: true };
+		}
+
+		this._history.lastUpdated = new Date().toISOString();
+		return this.saveHistory();
+	}
+
+	/**
+	 * Switching between the global history file and the per-workspace history in workspaceState
+	 */
+	public async setStorageScope(scope: HistoryStorageScope): Promise<HistoryOperationResult> {
+		if (scope === this.storageScope) {
+			return { success: true };
+		}
+
+		this.storageScope = scope;
+		ExtensionLog.info(`📚 [HISTORY] Storage switched to ${this.usesWorkspaceStorage() ? 'this workspace' : 'all workspaces'}`);
+
+		if (!this._history) {
+			return { success: true };
+		}
+		return this.loadHistory();
+	}
+
+	/**
+	 * Whether new transcriptions are stored (false in never-store mode)
+	 */
+	public isEnabled(): boolean {
+		return this.retentionPolicy.enabled;
+	}
+
 	/**
 	 * Adding a new entry to the history
 	 */
 	public async addEntry(options: AddEntryOptions): Promise<HistoryOperationResult> {
 		try {
+			if (!this.retentionPolicy.enabled) {
+				return { success: true, data: { stored: false } };
+			}
+
 			if (!this._history) {
 				await this.initialize();
 			}
@@ -70,14 +123,19 @@ export class TranscriptionHistoryManager {
 				// Post-processing fields
 				originalText: options.originalText?.trim(),
 				isPostProcessed: options.isPostProcessed || false,
-				postProcessingModel: options.postProcessingModel
+				postProcessingModel: options.postProcessingModel,
+				sourceFile: options.sourceFile,
+				segments: options.segments,
+				audioFile: options.audioFile,
+				workspaceFolder: options.workspaceFolder,
+				activeFile: options.activeFile
 			};
 
 			// Add to the beginning of the array (new entries on top)
 			this._history!.entries.unshift(entry);
 
-			// Apply the limit on the number of entries
-			this.enforceMaxEntries();
+			// Apply the size and age limits
+			this.enforceRetention();
 
 			// Update the time of the last change
 			this._history!.lastUpdated = new Date().toISOString();
@@ -146,6 +204,142 @@ export class TranscriptionHistoryManager {
 		}
 	}
 
+	/**
+	 * Pinning or unpinning an entry; pinned entries are exempt from pruning
+	 */
+	public async setPinned(entryId: string, pinned: boolean): Promise<HistoryOperationResult> {
+		try {
+			if (!this._history) {
+				await this.initialize();
+			}
+
+			const entry = this._history!.entries.find(item => item.id === entryId);
+			if (!entry) {
+				return {
+					success: false,
+					error: `Entry with ID ${entryId} not found`
+				};
+			}
+
+			entry.pinned = pinned || undefined;
+			if (!pinned) {
+				// Unpinning may put the entry back over the limits
+				this.enforceRetention();
+			}
+			this._history!.lastUpdated = new Date().toISOString();
+
+			return await this.saveHistory();
+		} catch (error) {
+			const errorContext: ErrorContext = {
+				operation: 'setPinned',
+				timestamp: new Date(),
+				additionalData: { entryId, pinned }
+			};
+
+			return this.handleError(error, errorContext);
+		}
+	}
+
+	/**
+	 * Replacing the text of an entry with a corrected one; the previous text is kept as a revision variant
+	 */
+	public async updateEntry(entryId: string, text: string): Promise<HistoryOperationResult> {
+		try {
+			if (!this._history) {
+				await this.initialize();
+			}
+
+			const entry = this._history!.entries.find(item => item.id === entryId);
+			if (!entry) {
+				return {
+					success: false,
+					error: `Entry with ID ${entryId} not found`
+				};
+			}
+
+			const newText = text.trim();
+			if (!newText) {
+				return {
+					success: false,
+					error: 'The transcription text cannot be empty'
+				};
+			}
+			if (newText === entry.text) {
+				return { success: true, data: { entryId, changed: false } };
+			}
+
+			const now = new Date().toISOString();
+			entry.variants = [...(entry.variants || []), {
+				text: entry.text,
+				timestamp: entry.editedAt || entry.timestamp,
+				kind: 'revision'
+			}];
+			// Without post-processing the Whisper text is only in `text`, so keep it as the original
+			entry.originalText = entry.originalText ?? entry.text;
+			entry.text = newText;
+			entry.editedAt = now;
+			this._history!.lastUpdated = now;
+
+			const saveResult = await this.saveHistory();
+			if (saveResult.success) {
+				return {
+					success: true,
+					data: { entryId, changed: true, variantCount: entry.variants.length }
+				};
+			}
+
+			return saveResult;
+		} catch (error) {
+			const errorContext: ErrorContext = {
+				operation: 'updateEntry',
+				timestamp: new Date(),
+				additionalData: { entryId }
+			};
+
+			return this.handleError(error, errorContext);
+		}
+	}
+
+	/**
+	 * Appending an alternative text to an entry
+	 */
+	public async addVariant(entryId: string, variant: TranscriptionVariant): Promise<HistoryOperationResult> {
+		try {
+			if (!this._history) {
+				await this.initialize();
+			}
+
+			const entry = this._history!.entries.find(item => item.id === entryId);
+			if (!entry) {
+				return {
+					success: false,
+					error: `Entry with ID ${entryId} not found`
+				};
+			}
+
+			entry.variants = [...(entry.variants || []), { ...variant, text: variant.text.trim() }];
+			this._history!.lastUpdated = new Date().toISOString();
+
+			const saveResult = await this.saveHistory();
+			if (saveResult.success) {
+				return {
+					success: true,
+					data: { entryId, variantCount: entry.variants.length }
+				};
+			}
+
+			return saveResult;
+		} catch (error) {
+			const errorContext: ErrorContext = {
+				operation: 'addVariant',
+				timestamp: new Date(),
+				additionalData: { entryId }
+			};
+
+			return this.handleError(error, errorContext);
+		}
+	}
+
 	/**
 	 * Clearing all history
 	 */
@@ -165,6 +359,66 @@ export class TranscriptionHistoryManager {
 		}
 	}
 
+	/**
+	 * Importing exported history: data goes through migrateData, then entries are merged by ID.
+	 * Existing entries win; kept recordings are not part of exports, so audio references are dropped.
+	 * The reported count is of the imported entries still present after the history limits.
+	 */
+	public async importHistory(data: unknown): Promise<HistoryOperationResult> {
+		try {
+			if (!this._history) {
+				await this.initialize();
+			}
+
+			const isHistory = Array.isArray(data)
+				|| (typeof data === 'object' && data !== null && Array.isArray((data as { entries?: unknown }).entries));
+			if (!isHistory) {
+				return {
+					success: false,
+					error: 'The file is not an exported transcription history'
+				};
+			}
+
+			const imported = this.migrateData(data).data.entries
+				.filter(entry => entry && typeof entry.id === 'string' && typeof entry.text === 'string');
+			const existingIds = new Set(this._history!.entries.map(entry => entry.id));
+
+			const added = imported
+				.filter(entry => !existingIds.has(entry.id))
+				.map(entry => ({ ...entry, audioFile: undefined }));
+
+			const merged = [...this._history!.entries, ...added]
+				.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+			this._history!.entries = merged;
+			this.enforceRetention();
+			this._history!.lastUpdated = new Date().toISOString();
+
+			const keptIds = new Set(this._history!.entries.map(entry => entry.id));
+			const kept = added.filter(entry => keptIds.has(entry.id)).length;
+
+			const saveResult = await this.saveHistory();
+			if (saveResult.success) {
+				return {
+					success: true,
+					data: {
+						added: kept,
+						skipped: imported.length - added.length,
+						dropped: merged.length - this._history!.entries.length
+					}
+				};
+			}
+
+			return saveResult;
+		} catch (error) {
+			const errorContext: ErrorContext = {
+				operation: 'importHistory',
+				timestamp: new Date()
+			};
+
+			return this.handleError(error, errorContext);
+		}
+	}
+
 	/**
 	 * Getting all history
 	 */
@@ -193,11 +447,33 @@ export class TranscriptionHistoryManager {
 	}
 
 	/**
-	 * Loading history from VS Code storage
+	 * Path of the history file in the extension global storage folder
+	 */
+	private getStorageFilePath(): string {
+		return path.join(this.context.globalStorageUri.fsPath, TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_FILE);
+	}
+
+	/**
+	 * Per-workspace storage needs an open workspace; empty windows use the global file
+	 */
+	private usesWorkspaceStorage(): boolean {
+		return this.storageScope === 'workspace' && !!vscode.workspace.workspaceFolders?.length;
+	}
+
+	/**
+	 * Loading history from the storage file, moving it out of globalState on first run
 	 */
 	private async loadHistory(): Promise<HistoryOperationResult> {
 		try {
-			const savedData = this.context.globalState.get<any>(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY);
+			if (this.usesWorkspaceStorage()) {
+				return await this.loadWorkspaceHistory();
+			}
+
+			const filePath = this.getStorageFilePath();
+			const legacyData = this.context.globalState.get<any>(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY);
+			const savedData = fs.existsSync(filePath)
+				? JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+				: legacyData;
 			
 			if (!savedData) {
 				this._history = this.createEmptyHistory();
@@ -207,6 +483,18 @@ export class TranscriptionHistoryManager {
 			// Attempt to migrate data if necessary
 			const migrationResult = this.migrateData(savedData);
 			this._history = migrationResult.data;
+			const pruned = this.enforceRetention();
+
+			// Large histories bloat VS Code's state database, so the legacy key is moved to the file
+			if (legacyData) {
+				const saveResult = await this.saveHistory();
+				if (saveResult.success) {
+					await this.context.globalState.update(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY, undefined);
+					ExtensionLog.info(`📚 [HISTORY] Moved history from globalState to ${filePath}`);
+				}
+			} else if (pruned) {
+				await this.saveHistory();
+			}
 			
 			return {
 				success: true,
@@ -230,6 +518,31 @@ export class TranscriptionHistoryManager {
 		}
 	}
 
+	/**
+	 * Loading the history of the current workspace from workspaceState
+	 */
+	private async loadWorkspaceHistory(): Promise<HistoryOperationResult> {
+		const savedData = this.context.workspaceState.get<any>(TRANSCRIPTION_HISTORY_CONSTANTS.WORKSPACE_STORAGE_KEY);
+		if (!savedData) {
+			this._history = this.createEmptyHistory();
+			return { success: true, data: { newHistory: true } };
+		}
+
+		const migrationResult = this.migrateData(savedData);
+		this._history = migrationResult.data;
+		if (this.enforceRetention()) {
+			await this.saveHistory();
+		}
+
+		return {
+			success: true,
+			data: {
+				entriesLoaded: this._history.entries.length,
+				migrated: migrationResult.migrated
+			}
+		};
+	}
+
 	/**
 	 * Saving history to VS Code storage
 	 */
@@ -239,7 +552,17 @@ export class TranscriptionHistoryManager {
 				return { success: false, error: 'No history to save' };
 			}
 
-			await this.context.globalState.update(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY, this._history);
+			if (this.usesWorkspaceStorage()) {
+				await this.context.workspaceState.update(TRANSCRIPTION_HISTORY_CONSTANTS.WORKSPACE_STORAGE_KEY, this._history);
+				return { success: true };
+			}
+
+			// Write to a temporary file first so a crash never leaves a truncated history
+			const filePath = this.getStorageFilePath();
+			const tempPath = `${filePath}.tmp`;
+			await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.promises.writeFile(tempPath, JSON.stringify(this._history), 'utf8');
+			await fs.promises.rename(tempPath, filePath);
 			
 			return { success: true };
 		} catch (error) {
@@ -317,20 +640,25 @@ export class TranscriptionHistoryManager {
 	}
 
 	/**
-	 * Applying the limit on the maximum number of entries
+	 * Applying the size and age limits; returns whether any entry was removed
 	 */
-	private enforceMaxEntries(): void {
+	private enforceRetention(): boolean {
 		if (!this._history) {
-			return;
+			return false;
 		}
 
-		const maxEntries = TRANSCRIPTION_HISTORY_CONSTANTS.MAX_ENTRIES;
-		if (this._history.entries.length > maxEntries) {
-			const removedCount = this._history.entries.length - maxEntries;
-			this._history.entries = this._history.entries.slice(0, maxEntries);
-			
-
+		const { kept, removed } = applyHistoryRetention(this._history.entries, this.retentionPolicy);
+		if (removed.length === 0) {
+			return false;
 		}
+
+		this._history.entries = kept;
+		ExtensionLog.info(`📚 [HISTORY] Removed ${removed.length} entries over the history limits`, {
+			maxEntries: this.retentionPolicy.maxEntries,
+			maxAgeDays: this.retentionPolicy.maxAgeDays,
+			remaining: kept.length
+		});
+		return true;
 	}
 
 	/**
@@ -0,0 +1,122 @@
+// TranscriptionProvider.ts - Common contract for speech-to-text backends
+
+export interface TranscriptionOptions {
+    language?: string;      // ISO 639-1 code of the language or 'auto' for auto-detection
+    prompt?: string;        // Contextual prompt for improving accuracy
+    temperature?: number;   // 0-1, creativity (0 = deterministic)
+    response_format?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
+    timestamp_granularities?: ('word' | 'segment')[];
+    model?: string;         // Whisper model to use
+    confidence_threshold?: number; // Minimum confidence for language auto-detection
+}
+
+export interface TranscriptionResult {
+    text: string;
+    language?: string;
+    duration?: number;
+    words?: WordTimestamp[];
+    segments?: SegmentTimestamp[];
+}
+
+export interface WordTimestamp {
+    word: string;
+    start: number;
+    end: number;
+}
+
+export interface SegmentTimestamp {
+    id: number;
+    seek: number;
+    start: number;
+    end: number;
+    text: string;
+    tokens: number[];
+    temperature: number;
+    avg_logprob: number;
+    compression_ratio: number;
+    no_speech_prob: number;
+}
+
+/**
+ * Identifiers of the built-in transcription providers
+ */
+export type TranscriptionProviderId = 'openai' | 'local';
+
+/**
+ * Features a provider supports, used to filter request options and UI
+ */
+export interface TranscriptionProviderCapabilities {
+    wordTimestamps: boolean;      // Can return per-word timings
+    segmentTimestamps: boolean;   // Can return per-segment timings
+    languageDetection: boolean;   // Can detect the spoken language automatically
+    prompt: boolean;              // Accepts a context prompt
+    temperature: boolean;         // Accepts a sampling temperature
+    uploadsAudio: boolean;        // Sends audio over the network (worth compressing first)
+    maxFileSize?: number;         // Upload limit in bytes (undefined = unlimited)
+}
+
+/**
+ * Result of checking whether a provider can be used right now
+ */
+export interface ProviderAvailability {
+    available: boolean;
+    details?: string;
+    error?: string;
+}
+
+/**
+ * Speech-to-text backend used by the TextProcessingPipeline
+ */
+export interface TranscriptionProvider {
+    readonly id: TranscriptionProviderId;
+    readonly displayName: string;
+
+    /**
+     * Transcribe an audio blob into plain text
+     */
+    transcribe(audioBlob: Blob, options?: TranscriptionOptions): Promise<string>;
+
+    /**
+     * Transcribe an audio blob keeping segment timings (for subtitle export)
+     */
+    transcribeWithTimestamps(audioBlob: Blob, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+
+    /**
+     * Check whether the provider is configured and reachable
+     */
+    checkAvailability(): Promise<ProviderAvailability>;
+
+    /**
+     * Report the features supported by the provider
+     */
+    getCapabilities(): TranscriptionProviderCapabilities;
+}
+
+/**
+ * Drop the options a provider does not support so they are not sent to it
+ */
+export function filterOptionsByCapabilities(
+    options: TranscriptionOptions,
+    capabilities: TranscriptionProviderCapabilities
+): TranscriptionOptions {
+    const filtered: TranscriptionOptions = { ...options };
+
+    if (!capabilities.prompt) {
+        delete filtered.prompt;
+    }
+
+    if (!capabilities.temperature) {
+        delete filtered.temperature;
+    }
+
+    const granularities = (filtered.timestamp_granularities || []).filter(granularity =>
+        granularity === 'word' ? capabilities.wordTimestamps : capabilities.segmentTimestamps
+    );
+    if (granularities.length > 0) {
+        filtered.timestamp_granularities = granularities;
+    } else {
+        delete filtered.timestamp_granularities;
+    }
+
+    return filtered;
+}
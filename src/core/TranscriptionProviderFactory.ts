@@ -0,0 +1,64 @@
+// TranscriptionProviderFactory.ts - Creates the transcription provider selected in settings
+
+import { WhisperClient } from './WhisperClient';
+import { LocalWhisperClient } from './LocalWhisperClient';
+import { ApiAuthScheme, authSchemeRequiresApiKey } from './ApiConnection';
+import { WhisperConfiguration } from './ConfigurationManager';
+import { TranscriptionProvider, TranscriptionProviderId } from './TranscriptionProvider';
+
+/**
+ * Providers that can be selected via the speechToTextWhisper.provider setting
+ */
+export const TRANSCRIPTION_PROVIDERS: readonly TranscriptionProviderId[] = ['openai', 'local'];
+
+/**
+ * Default provider when the setting is missing or invalid
+ */
+export const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderId = 'openai';
+
+/**
+ * Check if a provider identifier is supported
+ */
+export function isSupportedProvider(provider: string): provider is TranscriptionProviderId {
+    return (TRANSCRIPTION_PROVIDERS as readonly string[]).includes(provider);
+}
+
+/**
+ * Create the transcription provider for the current Whisper configuration
+ */
+export function createTranscriptionProvider(config: WhisperConfiguration): TranscriptionProvider {
+    const provider = config.provider || DEFAULT_TRANSCRIPTION_PROVIDER;
+
+    switch (provider) {
+        case 'openai':
+            if (!config.apiKey && authSchemeRequiresApiKey(config.authScheme)) {
+                throw new Error('OpenAI API key not configured');
+            }
+            return new WhisperClient({
+                apiKey: config.apiKey,
+                timeout: config.timeout,
+                baseURL: config.baseURL || undefined,
+                authScheme: config.authScheme as ApiAuthScheme,
+                extraHeaders: config.extraHeaders
+            });
+        case 'local':
+            if (!config.localModelPath) {
+                throw new Error('Local whisper model path not configured');
+            }
+            return new LocalWhisperClient({
+                binaryPath: config.localBinaryPath,
+                modelPath: config.localModelPath,
+                threads: config.localThreads,
+                timeout: config.timeout
+            });
+        default:
+            throw new Error(`Unknown transcription provider: ${provider}`);
+    }
+}
+
+/**
+ * Check whether the selected provider needs an OpenAI API key
+ */
+export function providerRequiresApiKey(provider: string, authScheme?: string): boolean {
+    return provider === 'openai' && authSchemeRequiresApiKey(authScheme);
+}
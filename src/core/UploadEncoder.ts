@@ -0,0 +1,95 @@
+// UploadEncoder.ts - Transcoding recordings to a compact format before they are uploaded
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tmp from 'tmp';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { runFFmpeg } from './FFmpegProcess';
+
+export type UploadCodec = 'none' | 'opus' | 'mp3';
+
+export const UPLOAD_CODECS: readonly UploadCodec[] = ['none', 'opus', 'mp3'];
+
+export interface UploadEncoderOptions {
+    codec: UploadCodec;
+    bitrate: string;    // FFmpeg bitrate, e.g. '32k'
+}
+
+// FFmpeg encoder, container extension and MIME type for each codec
+const CODEC_FORMATS: Record<Exclude<UploadCodec, 'none'>, { encoder: string; extension: string; mimeType: string }> = {
+    opus: { encoder: 'libopus', extension: 'ogg', mimeType: 'audio/ogg' },
+    mp3: { encoder: 'libmp3lame', extension: 'mp3', mimeType: 'audio/mpeg' }
+};
+
+/**
+ * Building the FFmpeg arguments that transcode the input to a mono file for the given codec
+ */
+export function buildUploadEncoderArgs(inputPath: string, outputPath: string, options: UploadEncoderOptions): string[] {
+    if (options.codec === 'none' || !CODEC_FORMATS[options.codec]) {
+        throw new Error(`No encoder for upload codec: ${options.codec}`);
+    }
+
+    const args = ['-hide_banner', '-nostats', '-y', '-i', inputPath, '-ac', '1', '-c:a', CODEC_FORMATS[options.codec].encoder, '-b:a', options.bitrate];
+    if (options.codec === 'opus') {
+        args.push('-application', 'voip'); // Tuned for speech
+    }
+    args.push(outputPath);
+    return args;
+}
+
+/**
+ * Transcodes audio to Opus or MP3 to cut upload time on slow connections
+ */
+export class UploadEncoder {
+    constructor(private readonly options: UploadEncoderOptions) {}
+
+    /**
+     * Encoding the blob for upload; returns the original blob if encoding is disabled, fails or doesn't help
+     */
+    async encode(audioBlob: Blob): Promise<Blob> {
+        if (this.options.codec === 'none' || !CODEC_FORMATS[this.options.codec]) {
+            return audioBlob;
+        }
+
+        const format = CODEC_FORMATS[this.options.codec];
+        const blobName = (audioBlob as Blob & { name?: string }).name;
+        const workDir = tmp.dirSync({ prefix: 'vscs-upload-', unsafeCleanup: true });
+        const startTime = Date.now();
+
+        try {
+            const inputPath = path.join(workDir.name, `input${path.extname(blobName || '') || '.wav'}`);
+            const outputPath = path.join(workDir.name, `upload.${format.extension}`);
+            fs.writeFileSync(inputPath, Buffer.from(await audioBlob.arrayBuffer()));
+
+            await runFFmpeg(buildUploadEncoderArgs(inputPath, outputPath, this.options));
+
+            const encodedBuffer = fs.readFileSync(outputPath);
+            const encodeTime = Date.now() - startTime;
+
+            const comparison = {
+                codec: this.options.codec,
+                bitrate: this.options.bitrate,
+                originalSize: `${(audioBlob.size / 1024).toFixed(2)} KB`,
+                encodedSize: `${(encodedBuffer.length / 1024).toFixed(2)} KB`,
+                ratio: `${((encodedBuffer.length / audioBlob.size) * 100).toFixed(1)}%`,
+                encodeTime: `${encodeTime}ms`
+            };
+
+            if (encodedBuffer.length >= audioBlob.size) {
+                ExtensionLog.info(`📦 [UPLOAD-ENCODER] Encoded audio is not smaller, uploading original:`, comparison);
+                return audioBlob;
+            }
+
+            ExtensionLog.info(`📦 [UPLOAD-ENCODER] Audio encoded for upload:`, comparison);
+
+            const encodedBlob = new Blob([encodedBuffer], { type: format.mimeType }) as Blob & { name?: string };
+            encodedBlob.name = `${path.parse(blobName || 'recording').name}.${format.extension}`;
+            return encodedBlob;
+        } catch (error) {
+            ExtensionLog.warn(`📦 [UPLOAD-ENCODER] Encoding failed, uploading original audio: ${(error as Error).message}`);
+            return audioBlob;
+        } finally {
+            workDir.removeCallback();
+        }
+    }
+}
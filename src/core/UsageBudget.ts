@@ -0,0 +1,66 @@
+// UsageBudget.ts - Daily and monthly spend and audio-minute limits over the usage counters
+
+import { ModelPrice } from './OpenAIModels';
+import { DailyUsage, formatCost, formatUsageDay, getMonthRange, summarizeUsage } from './UsageStats';
+
+/**
+ * What happens to new requests once a limit is reached
+ */
+export type BudgetLimitAction = 'block' | 'skipPostProcessing' | 'local';
+
+export const BUDGET_LIMIT_ACTIONS: readonly BudgetLimitAction[] = ['block', 'skipPostProcessing', 'local'];
+
+export interface UsageBudget {
+    dailyCostLimit: number;         // USD, 0 = no limit
+    monthlyCostLimit: number;       // USD, 0 = no limit
+    dailyMinutesLimit: number;      // audio minutes, 0 = no limit
+    monthlyMinutesLimit: number;    // audio minutes, 0 = no limit
+    warningPercent: number;         // share of a limit that triggers the warning
+}
+
+export interface BudgetStatus {
+    level: 'ok' | 'warning' | 'exceeded';
+    ratio: number;          // usage of the closest limit, 1 = reached
+    description?: string;   // e.g. "monthly spend $10.40 of $10.00"
+}
+
+export function hasBudgetLimits(budget: UsageBudget): boolean {
+    return budget.dailyCostLimit > 0 || budget.monthlyCostLimit > 0 || budget.dailyMinutesLimit > 0 || budget.monthlyMinutesLimit > 0;
+}
+
+/**
+ * Comparing today's and this month's usage with the limits; the limit closest to being reached decides the level
+ */
+export function checkBudget(
+    days: DailyUsage[],
+    prices: Record<string, ModelPrice>,
+    budget: UsageBudget,
+    now: Date = new Date()
+): BudgetStatus {
+    const today = formatUsageDay(now);
+    const month = getMonthRange(now);
+    const daily = summarizeUsage(days, prices, today, today);
+    const monthly = summarizeUsage(days, prices, month.from, month.to);
+
+    const limits = [
+        { limit: budget.dailyCostLimit, used: daily.cost, name: 'daily spend', format: formatCost },
+        { limit: budget.monthlyCostLimit, used: monthly.cost, name: 'monthly spend', format: formatCost },
+        { limit: budget.dailyMinutesLimit, used: daily.audioSeconds / 60, name: 'daily audio', format: (minutes: number) => `${minutes.toFixed(1)} min` },
+        { limit: budget.monthlyMinutesLimit, used: monthly.audioSeconds / 60, name: 'monthly audio', format: (minutes: number) => `${minutes.toFixed(1)} min` }
+    ].filter(item => item.limit > 0);
+
+    if (limits.length === 0) {
+        return { level: 'ok', ratio: 0 };
+    }
+
+    const closest = limits
+        .map(item => ({ ...item, ratio: item.used / item.limit }))
+        .reduce((max, item) => item.ratio > max.ratio ? item : max);
+
+    const level = closest.ratio >= 1 ? 'exceeded' : (closest.ratio * 100 >= budget.warningPercent ? 'warning' : 'ok');
+    return {
+        level,
+        ratio: closest.ratio,
+        description: `${closest.name} ${closest.format(closest.used)} of ${closest.format(closest.limit)}`
+    };
+}
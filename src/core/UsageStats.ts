@@ -0,0 +1,146 @@
+// UsageStats.ts - Per-day usage counters and cost estimates for transcription and post-processing
+
+import { ModelPrice } from './OpenAIModels';
+
+export type UsageKind = 'transcription' | 'postProcessing';
+
+export interface ModelUsage {
+    requests: number;
+    failures: number;
+    audioSeconds: number;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface DailyUsage {
+    date: string;       // local day, YYYY-MM-DD
+    transcription: Record<string, ModelUsage>;
+    postProcessing: Record<string, ModelUsage>;
+}
+
+/**
+ * One request to a transcription or post-processing model
+ */
+export interface UsageRecord {
+    kind: UsageKind;
+    model: string;
+    success: boolean;
+    audioSeconds?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+export interface UsageSummary extends ModelUsage {
+    cost: number;
+    byModel: Record<string, ModelUsage & { kind: UsageKind; cost: number }>;
+}
+
+export function formatUsageDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function createModelUsage(): ModelUsage {
+    return { requests: 0, failures: 0, audioSeconds: 0, promptTokens: 0, completionTokens: 0 };
+}
+
+function addModelUsage(target: ModelUsage, source: ModelUsage): void {
+    target.requests += source.requests;
+    target.failures += source.failures;
+    target.audioSeconds += source.audioSeconds;
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+}
+
+/**
+ * Adding a request to the counters of its day; days stay sorted oldest first
+ */
+export function addUsage(days: DailyUsage[], record: UsageRecord, now: Date = new Date()): DailyUsage[] {
+    const date = formatUsageDay(now);
+    let day = days.find(item => item.date === date);
+    if (!day) {
+        day = { date, transcription: {}, postProcessing: {} };
+        days = [...days, day].sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    const usage = day[record.kind][record.model] || createModelUsage();
+    day[record.kind][record.model] = usage;
+    usage.requests++;
+    if (!record.success) {
+        usage.failures++;
+    }
+    usage.audioSeconds += record.audioSeconds ?? 0;
+    usage.promptTokens += record.promptTokens ?? 0;
+    usage.completionTokens += record.completionTokens ?? 0;
+
+    return days;
+}
+
+/**
+ * Estimated cost in USD; models missing from the price table (local Whisper, custom gateways) cost nothing
+ */
+export function estimateCost(usage: ModelUsage, price: ModelPrice | undefined): number {
+    if (!price) {
+        return 0;
+    }
+
+    return (usage.audioSeconds / 60) * (price.perMinute ?? 0)
+        + (usage.promptTokens / 1000000) * (price.inputPerMillion ?? 0)
+        + (usage.completionTokens / 1000000) * (price.outputPerMillion ?? 0);
+}
+
+/**
+ * Totals and per-model breakdown of the days in [from, to] (inclusive, YYYY-MM-DD)
+ */
+export function summarizeUsage(days: DailyUsage[], prices: Record<string, ModelPrice>, from?: string, to?: string): UsageSummary {
+    const summary: UsageSummary = { ...createModelUsage(), cost: 0, byModel: {} };
+
+    for (const day of days) {
+        if ((from && day.date < from) || (to && day.date > to)) {
+            continue;
+        }
+
+        for (const kind of ['transcription', 'postProcessing'] as const) {
+            for (const [model, usage] of Object.entries(day[kind])) {
+                const key = `${kind}:${model}`;
+                const modelSummary = summary.byModel[key] || { ...createModelUsage(), kind, cost: 0 };
+                summary.byModel[key] = modelSummary;
+                const cost = estimateCost(usage, prices[model]);
+
+                addModelUsage(modelSummary, usage);
+                addModelUsage(summary, usage);
+                modelSummary.cost += cost;
+                summary.cost += cost;
+            }
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * First and last day of the month containing the date, offset by a number of months
+ */
+export function getMonthRange(now: Date = new Date(), monthOffset: number = 0): { from: string; to: string } {
+    const first = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+    const last = new Date(now.getFullYear(), now.getMonth() + monthOffset + 1, 0);
+    return { from: formatUsageDay(first), to: formatUsageDay(last) };
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost >= 1 || cost === 0 ? 2 : 3)}`;
+}
+
+/**
+ * One-line description of a summary: cost, audio minutes, tokens and requests
+ */
+export function describeUsage(usage: ModelUsage & { cost: number }): string {
+    const tokens = usage.promptTokens + usage.completionTokens;
+    return [
+        formatCost(usage.cost),
+        usage.audioSeconds > 0 ? `${(usage.audioSeconds / 60).toFixed(1)} min` : '',
+        tokens > 0 ? `${tokens.toLocaleString('en-US')} tokens` : '',
+        `${usage.requests} requests`,
+        usage.failures > 0 ? `${usage.failures} failed` : ''
+    ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,43 @@
+// UsageTracker.ts - Persisting per-day usage of transcription and post-processing models
+
+import * as vscode from 'vscode';
+import { ExtensionLog } from '../utils/GlobalOutput';
+import { DailyUsage, UsageRecord, addUsage } from './UsageStats';
+
+const STORAGE_KEY = 'usageStats';
+
+// Days of usage kept; older ones are dropped when a new day starts
+const MAX_DAYS = 400;
+
+/**
+ * Usage counters kept in globalState, one record per day
+ */
+export class UsageTracker {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    getDays(): DailyUsage[] {
+        return this.context.globalState.get<DailyUsage[]>(STORAGE_KEY) || [];
+    }
+
+    async record(record: UsageRecord): Promise<void> {
+        try {
+            const days = addUsage(this.getDays(), record).slice(-MAX_DAYS);
+            await this.context.globalState.update(STORAGE_KEY, days);
+            this._onDidChange.fire();
+        } catch (error) {
+            ExtensionLog.warn(`📊 [USAGE] Failed to record usage: ${(error as Error).message}`);
+        }
+    }
+
+    async clear(): Promise<void> {
+        await this.context.globalState.update(STORAGE_KEY, undefined);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,65 @@
+// WavUtils.ts - Helpers for reading PCM data from a WAV file that is still being written
+
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Finding the start of PCM samples: the byte after the "data" chunk header.
+ * FFmpeg may write a LIST chunk before it, so the offset is not always 44.
+ */
+export function findWavDataOffset(buffer: Buffer): number | null {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        if (chunkId === 'data') {
+            return offset + 8;
+        }
+        // Chunks are padded to an even size
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    return null;
+}
+
+/**
+ * Duration in seconds of the PCM data in a WAV file, from the byte rate of the fmt chunk.
+ * The data size comes from the file size because streamed files may not have it in the header,
+ * so the buffer can be just the start of a larger file.
+ */
+export function getWavDuration(header: Buffer, fileSize: number = header.length): number | null {
+    const dataOffset = findWavDataOffset(header);
+    if (dataOffset === null || header.toString('ascii', 12, 16) !== 'fmt ') {
+        return null;
+    }
+
+    const byteRate = header.readUInt32LE(28);
+    return byteRate > 0 ? (fileSize - dataOffset) / byteRate : null;
+}
+
+/**
+ * Wrapping raw 16-bit PCM samples into a standalone WAV file
+ */
+export function createWavBuffer(pcm: Buffer, sampleRate: number, channelCount: number): Buffer {
+    const header = Buffer.alloc(WAV_HEADER_SIZE);
+    const blockAlign = channelCount * 2;
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);              // fmt chunk size
+    header.writeUInt16LE(1, 20);               // PCM
+    header.writeUInt16LE(channelCount, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(16, 34);              // bits per sample
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(pcm.length, 40);
+
+    return Buffer.concat([header, pcm]);
+}
@@ -1,43 +1,17 @@
 // WhisperClient.ts - HTTP client for integration with OpenAI Whisper API
 
 import { ExtensionLog } from '../utils/GlobalOutput';
-
-export interface TranscriptionOptions {
-    language?: string;      // ISO 639-1 code of the language or 'auto' for auto-detection
-    prompt?: string;        // Contextual prompt for improving accuracy
-    temperature?: number;   // 0-1, creativity (0 = deterministic)
-    response_format?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
-    timestamp_granularities?: ('word' | 'segment')[];
-    model?: string;         // Whisper model to use
-    confidence_threshold?: number; // Minimum confidence for language auto-detection
-}
-
-export interface TranscriptionResult {
-    text: string;
-    language?: string;
-    duration?: number;
-    words?: WordTimestamp[];
-    segments?: SegmentTimestamp[];
-}
-
-export interface WordTimestamp {
-    word: string;
-    start: number;
-    end: number;
-}
-
-export interface SegmentTimestamp {
-    id: number;
-    seek: number;
-    start: number;
-    end: number;
-    text: string;
-    tokens: number[];
-    temperature: number;
-    avg_logprob: number;
-    compression_ratio: number;
-    no_speech_prob: number;
-}
+import { ApiConnectionConfig, DEFAULT_API_BASE_URL, authSchemeRequiresApiKey, buildApiHeaders, buildApiUrl } from './ApiConnection';
+import {
+    TranscriptionOptions,
+    TranscriptionResult,
+    TranscriptionProvider,
+    TranscriptionProviderCapabilities,
+    ProviderAvailability
+} from './TranscriptionProvider';
+
+// Re-exported for modules that still import the shared types from here
+export type { TranscriptionOptions, TranscriptionResult, WordTimestamp, SegmentTimestamp } from './TranscriptionProvider';
 
 export interface WhisperError extends Error {
     code?: string;
@@ -45,9 +19,8 @@ export interface WhisperError extends Error {
     details?: any;
 }
 
-export interface WhisperClientConfig {
+export interface WhisperClientConfig extends ApiConnectionConfig {
     apiKey: string;
-    baseURL?: string;
     timeout?: number;
     maxRetries?: number;
     retryDelay?: number;
@@ -56,9 +29,13 @@ export interface WhisperClientConfig {
 /**
  * HTTP client for integration with OpenAI Whisper API
  */
-export class WhisperClient {
+export class WhisperClient implements TranscriptionProvider {
+    readonly id = 'openai' as const;
+    readonly displayName = 'OpenAI Whisper API';
+
     private apiKey: string;
     private baseURL: string;
+    private connection: ApiConnectionConfig;
     private timeout: number;
     private maxRetries: number;
     private retryDelay: number;
@@ -73,7 +50,11 @@ export class WhisperClient {
 
     constructor(config: WhisperClientConfig) {
         this.apiKey = config.apiKey;
-        this.baseURL = config.baseURL || 'https://api.openai.com/v1';
+        this.baseURL = config.baseURL || DEFAULT_API_BASE_URL;
+        this.connection = {
+            authScheme: config.authScheme || 'bearer',
+            extraHeaders: config.extraHeaders || {}
+        };
         this.timeout = config.timeout || 30000; // 30 seconds
         this.maxRetries = config.maxRetries || 3;
         this.retryDelay = config.retryDelay || 1000; // 1 second
@@ -83,6 +64,25 @@ export class WhisperClient {
      * Transcription of an audio file
      */
     async transcribe(audioBlob: Blob, options: TranscriptionOptions = {}): Promise<string> {
+        const result = await this.requestTranscription(audioBlob, options);
+        return result.text;
+    }
+
+    /**
+     * Transcription with segment timings (verbose_json response)
+     */
+    async transcribeWithTimestamps(audioBlob: Blob, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+        return this.requestTranscription(audioBlob, {
+            ...options,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['segment']
+        });
+    }
+
+    /**
+     * Sending the transcription request with retries
+     */
+    private async requestTranscription(audioBlob: Blob, options: TranscriptionOptions): Promise<TranscriptionResult> {
         this.validateAudioBlob(audioBlob);
         
         const formData = this.prepareFormData(audioBlob, options);
@@ -116,12 +116,9 @@ export class WhisperClient {
      */
     async checkApiKey(): Promise<boolean> {
         try {
-            const response = await fetch(`${this.baseURL}/models`, {
+            const response = await fetch(buildApiUrl(this.baseURL, '/models'), {
                 method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
-                },
+                headers: buildApiHeaders(this.apiKey, this.connection),
                 signal: AbortSignal.timeout(this.timeout)
             });
             return response.ok;
@@ -130,16 +127,45 @@ export class WhisperClient {
         }
     }
 
+    /**
+     * Checking that the API is reachable with the configured key
+     */
+    async checkAvailability(): Promise<ProviderAvailability> {
+        if (!this.apiKey && authSchemeRequiresApiKey(this.connection.authScheme)) {
+            return {
+                available: false,
+                error: 'OpenAI API key not configured'
+            };
+        }
+
+        const isValidKey = await this.checkApiKey();
+        return isValidKey
+            ? { available: true, details: this.baseURL }
+            : { available: false, error: `API key rejected or ${this.baseURL} unreachable` };
+    }
+
+    /**
+     * Features supported by the Whisper API
+     */
+    getCapabilities(): TranscriptionProviderCapabilities {
+        return {
+            wordTimestamps: true,
+            segmentTimestamps: true,
+            languageDetection: true,
+            prompt: true,
+            temperature: true,
+            uploadsAudio: true,
+            maxFileSize: this.maxFileSize
+        };
+    }
+
     /**
      * Getting information about the use of the API
      */
     async getUsage(): Promise<any> {
         try {
-            const response = await fetch(`${this.baseURL}/usage`, {
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
-                },
+            const response = await fetch(buildApiUrl(this.baseURL, '/usage'), {
+                headers: buildApiHeaders(this.apiKey, this.connection),
                 signal: AbortSignal.timeout(this.timeout)
             });
 
@@ -216,10 +242,12 @@ export class WhisperClient {
             formData.append('response_format', options.response_format);
         }
 
-        // Timestamp granularities (only for json formats)
+        // Timestamp granularities (only for json formats), one field per value
         if (options.timestamp_granularities && 
             (options.response_format === 'verbose_json' || options.response_format === 'json')) {
-            formData.append('timestamp_granularities[]', options.timestamp_granularities.join(','));
+            for (const granularity of options.timestamp_granularities) {
+                formData.append('timestamp_granularities[]', granularity);
+            }
         }
 
         return formData;
@@ -233,6 +261,7 @@ export class WhisperClient {
             'audio/webm': 'webm',
             'audio/wav': 'wav',
             'audio/mp3': 'mp3',
+            'audio/mpeg': 'mp3',
             'audio/mp4': 'mp4',
             'audio/ogg': 'ogg',
             'audio/flac': 'flac',
@@ -247,7 +276,7 @@ export class WhisperClient {
      */
     private logRequestParameters(audioBlob: Blob, options: TranscriptionOptions): void {
         const requestInfo = {
-            endpoint: `${this.baseURL}/audio/transcriptions`,
+            endpoint: buildApiUrl(this.baseURL, '/audio/transcriptions'),
             method: 'POST',
             parameters: {
                 model: options.model || 'whisper-1',
@@ -281,16 +310,13 @@ export class WhisperClient {
     private async makeRequest(endpoint: string, formData: FormData): Promise<Response> {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-        const url = `${this.baseURL}${endpoint}`;
+        const url = buildApiUrl(this.baseURL, endpoint);
 
         // Log the actual HTTP request being sent
         ExtensionLog.info(`🎤 [WHISPER] Sending HTTP request:`, {
             url: url,
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.apiKey.substring(0, 7)}...`,
-                'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
-            },
+            headers: buildApiHeaders(this.apiKey, this.connection, true),
             formDataFields: Array.from(formData.keys()),
             timeout: this.timeout
         });
@@ -298,10 +324,7 @@ export class WhisperClient {
         try {
             const response = await fetch(url, {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'User-Agent': 'SpeechToTextWhisper-Extension/1.0'
-                },
+                headers: buildApiHeaders(this.apiKey, this.connection),
                 body: formData,
                 signal: controller.signal
             });
@@ -336,11 +359,11 @@ export class WhisperClient {
     private async processTranscriptionResponse(
         response: Response, 
         options: TranscriptionOptions
-    ): Promise<string> {
+    ): Promise<TranscriptionResult> {
         const responseFormat = options.response_format || 'json';
         
         let transcriptionText: string;
-        let responseData: any = null;
+        let responseData: TranscriptionResult | null = null;
         
         if (responseFormat === 'text') {
             transcriptionText = await response.text();
@@ -358,7 +381,8 @@ export class WhisperClient {
                 length: transcriptionText.length,
                 preview: transcriptionText.substring(0, 100) + (transcriptionText.length > 100 ? '...' : ''),
                 language: responseData?.language || 'unknown',
-                duration: responseData?.duration || 'unknown'
+                duration: responseData?.duration || 'unknown',
+                segments: responseData?.segments?.length ?? 0
             }
         };
 
@@ -371,7 +395,7 @@ export class WhisperClient {
             hasWords: transcriptionText.trim().length > 0
         });
         
-        return transcriptionText;
+        return responseData ? { ...responseData, text: transcriptionText } : { text: transcriptionText };
     }
 
     /**
@@ -2,7 +2,8 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { FFmpegAudioRecorder, AudioRecorderEvents } from './core/FFmpegAudioRecorder';
-import { WhisperClient } from './core/WhisperClient';
+import { TranscriptionProvider } from './core/TranscriptionProvider';
+import { createTranscriptionProvider, providerRequiresApiKey } from './core/TranscriptionProviderFactory';
 import { TextInserter } from './ui/TextInserter';
 import { StatusBarManager, StatusBarEvents, StatusBarConfiguration } from './ui/StatusBarManager';
 import { DiagnosticsProvider } from './ui/DiagnosticsProvider';
@@ -17,7 +18,26 @@ import { CursorIntegration, CursorIntegrationStrategy } from './integrations/Cur
 import { ConfigurationManager } from './core/ConfigurationManager';
 import { initializeGlobalOutput, ExtensionLog, disposeGlobalOutput } from './utils/GlobalOutput';
 import { PostProcessingService } from './core/PostProcessingService';
-import { TextProcessingPipeline } from './core/TextProcessingPipeline';
+import { ContextManager } from './core/ContextManager';
+import { GlossaryStore } from './core/GlossaryStore';
+import { GlossaryHarvester } from './core/GlossaryHarvester';
+import { GlossaryCandidateSource, addGlossaryTerms, rankGlossaryCandidates } from './core/Glossary';
+import { applyTextRules, validateTextRules } from './core/TextRules';
+import { TextProcessingPipeline, ProcessingProgress, ProcessingRestrictions } from './core/TextProcessingPipeline';
+import { LiveTranscriber } from './core/LiveTranscriber';
+import { SilenceDetectionMethod } from './core/SilenceDetect';
+import { AudioLevel } from './core/AudioLevel';
+import { RecordingClock } from './core/RecordingClock';
+import { extractAudio, isSupportedMediaFile, MEDIA_FILE_EXTENSIONS } from './core/AudioFileExtractor';
+import { RecordingMode as HistoryRecordingMode, TranscriptionEntry, HistoryStorageScope } from './types/TranscriptionHistory';
+import { AudioArchive } from './core/AudioArchive';
+import { SUPPORTED_TRANSCRIPTION_MODELS, ModelPrice, getModelPrices } from './core/OpenAIModels';
+import { UsageTracker } from './core/UsageTracker';
+import { formatUsageDay } from './core/UsageStats';
+import { checkBudget } from './core/UsageBudget';
+import { UsageProvider } from './ui/UsageProvider';
+import { UsageChartPanel } from './ui/UsageChartPanel';
+import { LivePreviewDecoration } from './ui/LivePreviewDecoration';
 
 /**
  * Recording modes for the new command architecture
@@ -33,12 +53,12 @@ enum RecordingMode {
 interface RecordingState {
 	isRecording: boolean;
 	mode: RecordingMode | null;
-	startTime: number | null;
+	holdToRecord: boolean; // started by startHoldToRecord, stopped by stopHoldToRecord
 }
 
 // Global variables for components
 let audioRecorder: FFmpegAudioRecorder | null = null;
-let whisperClient: WhisperClient;
+let transcriptionProvider: TranscriptionProvider | null = null;
 let textInserter: TextInserter;
 let statusBarManager: StatusBarManager;
 let diagnosticsProvider: DiagnosticsProvider;
@@ -47,6 +67,12 @@ let settingsProvider: SettingsProvider;
 let modeSelectorProvider: ModeSelectorProvider;
 let transcriptionHistoryProvider: TranscriptionHistoryProvider;
 let transcriptionHistoryManager: TranscriptionHistoryManager;
+let audioArchive: AudioArchive;
+let usageTracker: UsageTracker;
+let usageProvider: UsageProvider;
+
+// Last budget notice shown (day and level), so each one appears once a day
+let lastBudgetNotice = '';
 
 // Global output channel for the entire extension
 let outputChannel: vscode.OutputChannel;
@@ -60,8 +86,15 @@ let configurationManager: ConfigurationManager;
 
 // Post-processing services
 let postProcessingService: PostProcessingService;
+let contextManager: ContextManager;
+let glossaryStore: GlossaryStore;
 let textProcessingPipeline: TextProcessingPipeline;
 
+// Live partial transcription while recording
+let liveTranscriber: LiveTranscriber | null = null;
+let livePreviewDecoration: LivePreviewDecoration;
+let lastLivePreviewText = '';
+
 // Extension context for global access
 let extensionContext: vscode.ExtensionContext;
 
@@ -69,9 +102,22 @@ let extensionContext: vscode.ExtensionContext;
 let recordingState: RecordingState = {
 	isRecording: false,
 	mode: null,
-	startTime: null
+	holdToRecord: false
 };
 
+// Active time of the current recording, paused intervals excluded
+const recordingClock = new RecordingClock();
+
+// Settings the audio recorder is created with; changing one recreates it
+const RECORDER_SETTINGS = [
+	'audioQuality', 'ffmpegPath', 'inputDevice', 'maxRecordingDuration',
+	'silenceDetection', 'silenceDuration', 'silenceThreshold', 'silenceDetectionMethod',
+	'livePreview', 'showLevelMeter'
+];
+
+// Recorder settings changed during a recording; the recorder is recreated once it is idle
+let recorderSettingsChanged = false;
+
 // Time of the last recording start to prevent frequent attempts
 let lastRecordingStartTime = 0;
 const MIN_RECORDING_INTERVAL = 100; // minimum 100ms between attempts (was 200ms)
@@ -103,19 +149,19 @@ class RecordingStateManager {
 	/**
 	 * Starting recording with the specified mode
 	 */
-	static startRecording(mode: RecordingMode): boolean {
+	static startRecording(mode: RecordingMode, holdToRecord: boolean = false): boolean {
 		// Checking if recording is already in progress
 		if (recordingState.isRecording) {
 			return false;
 		}
 
 		// Setting the state
-		const now = Date.now();
 		recordingState = {
 			isRecording: true,
 			mode: mode,
-			startTime: now
+			holdToRecord
 		};
+		recordingClock.start();
 
 		return true;
 	}
@@ -132,8 +178,9 @@ class RecordingStateManager {
 		recordingState = {
 			isRecording: false,
 			mode: null,
-			startTime: null
+			holdToRecord: false
 		};
+		recordingClock.reset();
 
 		return mode;
 	}
@@ -148,7 +195,8 @@ class RecordingStateManager {
 
 		const mode = recordingState.mode;
 		recordingState.isRecording = false;
-		// mode and startTime remain for transcription processing
+		// mode remains for transcription processing, the clock stays frozen at the recording length
+		recordingClock.pause();
 
 		return mode;
 	}
@@ -160,18 +208,48 @@ class RecordingStateManager {
 		recordingState = {
 			isRecording: false,
 			mode: null,
-			startTime: null
+			holdToRecord: false
 		};
+		recordingClock.reset();
 	}
 
 	/**
-	 * Getting the duration of the current recording in ms
+	 * Checking if the current recording was started in hold-to-record mode
 	 */
-	static getRecordingDuration(): number {
-		if (!recordingState.isRecording || !recordingState.startTime) {
-			return 0;
+	static isHoldToRecord(): boolean {
+		return recordingState.isRecording && recordingState.holdToRecord;
+	}
+
+	/**
+	 * Checking if the recording is paused
+	 */
+	static isPaused(): boolean {
+		return recordingState.isRecording && recordingClock.isPaused();
+	}
+
+	/**
+	 * Marking the recording as paused
+	 */
+	static pauseRecording(): void {
+		if (recordingState.isRecording) {
+			recordingClock.pause();
+		}
+	}
+
+	/**
+	 * Marking the recording as resumed; the paused interval is not counted
+	 */
+	static resumeRecording(): void {
+		if (recordingState.isRecording) {
+			recordingClock.resume();
 		}
-		return Date.now() - recordingState.startTime;
+	}
+
+	/**
+	 * Getting the duration of the current recording in ms, without paused time
+	 */
+	static getRecordingDuration(): number {
+		return recordingState.isRecording ? recordingClock.getElapsed() : 0;
 	}
 
 	/**
@@ -203,8 +281,12 @@ export async function activate(context: vscode.ExtensionContext) {
 		// Initialize the components
 		initializeComponents();
 		
-		// Initialize the TranscriptionHistoryManager
+		// Initialize the TranscriptionHistoryManager with the configured storage and limits
+		const historyConfig = configurationManager.getHistoryConfiguration();
+		await transcriptionHistoryManager.setStorageScope(historyConfig.storage as HistoryStorageScope);
+		await transcriptionHistoryManager.setRetentionPolicy(historyConfig);
 		await transcriptionHistoryManager.initialize();
+		await pruneAudioArchive();
 		
 		// Register all commands
 		registerCommands(context);
@@ -213,27 +295,57 @@ export async function activate(context: vscode.ExtensionContext) {
 		showWelcomeMessage();
 		
 		// Add a listener for configuration changes
-		configurationManager.addChangeListener((config) => {
-			// Reinitialize the WhisperClient when settings change
-			initializeWhisperClient();
-			
-			// Recreate TextProcessingPipeline with new whisperClient
+		configurationManager.addChangeListener((config, event) => {
+			// Reinitialize the transcription provider when settings change
+			initializeTranscriptionProvider();
+
+			// Drop the cached post-processor so new endpoint and auth settings apply
+			postProcessingService.resetProcessor();
+
+			// Recreate TextProcessingPipeline with the new provider
 			textProcessingPipeline = new TextProcessingPipeline(
-				whisperClient,
+				transcriptionProvider,
 				postProcessingService,
 				textInserter,
-				configurationManager
+				configurationManager,
+				usageTracker,
+				glossaryStore
 			);
 			
-			// Reset the audioRecorder when audio settings change
-			audioRecorder = null;
+			// Reset the audioRecorder when audio settings change, but never drop a running recorder:
+			// its FFmpeg process could no longer be stopped
+			if (RECORDER_SETTINGS.some(setting => event.affectsConfiguration(`speechToTextWhisper.${setting}`))) {
+				if (RecordingStateManager.isRecording() || audioRecorder?.getIsRecording()) {
+					recorderSettingsChanged = true;
+				} else {
+					audioRecorder = null;
+				}
+			}
 			
+			updatePostProcessingProfileIndicator();
+
 			// Update the visibility of the StatusBar
 			if (config.ui.showStatusBar) {
 				statusBarManager.show();
 			} else {
 				statusBarManager.hide();
 			}
+
+			// Apply changed history storage and limits
+			if (event.affectsConfiguration('speechToTextWhisper.history') || event.affectsConfiguration('speechToTextWhisper.audioRetention')) {
+				transcriptionHistoryManager.setStorageScope(config.history.storage as HistoryStorageScope)
+					.then(() => audioArchive.setDirectory(getRecordingsDirectory()))
+					.then(() => transcriptionHistoryManager.setRetentionPolicy(config.history))
+					.then(() => pruneAudioArchive())
+					.then(() => transcriptionHistoryProvider.refresh())
+					.catch(error => {
+						ExtensionLog.error('❌ Failed to apply the history settings:', undefined, error as Error);
+						vscode.window.showErrorMessage(`Failed to apply the history settings: ${(error as Error).message}`);
+					});
+			}
+
+			// Prices and budget limits shown in the Usage view
+			usageProvider.refresh();
 		});
 		
 	} catch (error) {
@@ -261,8 +373,8 @@ function initializeComponents(): void {
 	// Initialize the ConfigurationManager
 	configurationManager = ConfigurationManager.getInstance();
 	
-	// Initialize the WhisperClient first
-	initializeWhisperClient();
+	// Initialize the transcription provider first
+	initializeTranscriptionProvider();
 	
 	// Initialize the CursorIntegration
 	initializeCursorIntegration();
@@ -271,7 +383,7 @@ function initializeComponents(): void {
 	textInserter = new TextInserter();
 	
 	// Initialize the DiagnosticsProvider
-	diagnosticsProvider = new DiagnosticsProvider();
+	diagnosticsProvider = new DiagnosticsProvider(() => transcriptionProvider);
 	
 	// Initialize the DeviceManagerProvider
 	deviceManagerProvider = new DeviceManagerProvider();
@@ -285,8 +397,16 @@ function initializeComponents(): void {
 	// Initialize the TranscriptionHistoryManager
 	transcriptionHistoryManager = new TranscriptionHistoryManager(extensionContext, errorHandler);
 	
+	// Kept recordings live in the extension storage folder
+	audioArchive = new AudioArchive(getRecordingsDirectory());
+	
 	// Initialize the TranscriptionHistoryProvider
-	transcriptionHistoryProvider = new TranscriptionHistoryProvider(transcriptionHistoryManager);
+	transcriptionHistoryProvider = new TranscriptionHistoryProvider(transcriptionHistoryManager, audioArchive, extensionContext.workspaceState);
+	
+	// Usage counters for the Usage view and chart
+	usageTracker = new UsageTracker(extensionContext);
+	usageProvider = new UsageProvider(usageTracker, getCurrentModelPrices, () => configurationManager.getUsageConfiguration());
+	usageTracker.onDidChange(() => UsageChartPanel.refresh(usageTracker.getDays(), getCurrentModelPrices()));
 	
 	// Events for the StatusBar
 	const statusBarEvents: StatusBarEvents = {
@@ -306,16 +426,32 @@ function initializeComponents(): void {
 	// Initialize the StatusBarManager
 	statusBarManager = new StatusBarManager(statusBarEvents, statusBarConfig);
 	
+	// Initialize the ghost text preview for live transcription
+	livePreviewDecoration = new LivePreviewDecoration();
+	
 	// Initialize post-processing services
 	// Note: OpenAIPostProcessor will be initialized lazily when needed
-	postProcessingService = new PostProcessingService(configurationManager);
+	// Workspace glossary for the Whisper prompt, post-processing and replacements
+	glossaryStore = new GlossaryStore();
+	glossaryStore.load().catch(error => ExtensionLog.error('📖 [GLOSSARY] Failed to load the glossary:', undefined, error as Error));
+
+	// The active editor is read for context-aware post-processing
+	contextManager = new ContextManager();
+	postProcessingService = new PostProcessingService(
+		configurationManager,
+		() => contextManager.getEditorContext(),
+		() => glossaryStore.getGlossary()
+	);
+	updatePostProcessingProfileIndicator();
 	
-	// Initialize TextProcessingPipeline with initialized whisperClient
+	// Initialize TextProcessingPipeline with the initialized provider
 	textProcessingPipeline = new TextProcessingPipeline(
-		whisperClient,
+		transcriptionProvider,
 		postProcessingService,
 		textInserter,
-		configurationManager
+		configurationManager,
+		usageTracker,
+		glossaryStore
 	);
 }
 
@@ -328,8 +464,16 @@ function registerCommands(context: vscode.ExtensionContext): void {
 		// Main recording commands
 		vscode.commands.registerCommand('speechToTextWhisper.recordAndInsertOrClipboard', recordAndInsertOrClipboard),
 		vscode.commands.registerCommand('speechToTextWhisper.recordAndOpenCurrentChat', recordAndOpenCurrentChat),
+		vscode.commands.registerCommand('speechToTextWhisper.startHoldToRecord', startHoldToRecord),
+		vscode.commands.registerCommand('speechToTextWhisper.stopHoldToRecord', stopHoldToRecord),
+		vscode.commands.registerCommand('speechToTextWhisper.transcribeFile', transcribeFile),
+		vscode.commands.registerCommand('speechToTextWhisper.pauseRecording', pauseRecording),
+		vscode.commands.registerCommand('speechToTextWhisper.resumeRecording', resumeRecording),
 		// Diagnostics command
 		vscode.commands.registerCommand('speechToTextWhisper.runDiagnostics', () => diagnosticsProvider.runAllDiagnostics()),
+		vscode.commands.registerCommand('speechToTextWhisper.usage.showChart', () => UsageChartPanel.show(usageTracker.getDays(), getCurrentModelPrices())),
+		vscode.commands.registerCommand('speechToTextWhisper.usage.refresh', () => usageProvider.refresh()),
+		vscode.commands.registerCommand('speechToTextWhisper.usage.reset', resetUsage),
 		// FFmpeg test command
 		vscode.commands.registerCommand('speechToTextWhisper.testFFmpeg', async () => {
 			try {
@@ -382,20 +526,41 @@ function registerCommands(context: vscode.ExtensionContext): void {
 		vscode.commands.registerCommand('speechToTextWhisper.audioSettings.selectDevice', (deviceId: string) => deviceManagerProvider.selectDevice(deviceId)),
 		// Commands for settings
 		vscode.commands.registerCommand('speechToTextWhisper.openSettings', () => settingsProvider.openSettings()),
+		vscode.commands.registerCommand('speechToTextWhisper.selectPostProcessingProfile', selectPostProcessingProfile),
+		vscode.commands.registerCommand('speechToTextWhisper.openGlossary', openGlossary),
+		vscode.commands.registerCommand('speechToTextWhisper.harvestGlossary', harvestGlossary),
+		vscode.commands.registerCommand('speechToTextWhisper.previewTextRules', previewTextRules),
 		// Commands for mode switching
 		vscode.commands.registerCommand('speechToTextWhisper.toggleMode', () => modeSelectorProvider.toggleMode()),
 		vscode.commands.registerCommand('speechToTextWhisper.setMode', (mode: string) => modeSelectorProvider.setMode(mode as 'insert' | 'clipboard')),
 		// Commands for transcription history
 		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.copyToClipboard', (item) => transcriptionHistoryProvider.copyToClipboard(item)),
 		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.insertAtCursor', (item) => transcriptionHistoryProvider.insertAtCursor(item)),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.editEntry', (item) => transcriptionHistoryProvider.editEntry(item)),
 		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.deleteEntry', (item) => transcriptionHistoryProvider.deleteEntry(item)),
 		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.clearHistory', () => transcriptionHistoryProvider.clearHistory()),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.exportSrt', (item) => transcriptionHistoryProvider.exportSubtitles(item, 'srt')),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.exportVtt', (item) => transcriptionHistoryProvider.exportSubtitles(item, 'vtt')),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.exportMarkdown', (item) => transcriptionHistoryProvider.exportSubtitles(item, 'markdown')),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.pinEntry', (item) => transcriptionHistoryProvider.setPinned(item, true)),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.unpinEntry', (item) => transcriptionHistoryProvider.setPinned(item, false)),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.playAudio', (item) => transcriptionHistoryProvider.playAudio(item)),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.retranscribe', retranscribeHistoryEntry),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.exportHistory', () => transcriptionHistoryProvider.exportHistory()),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.importHistory', () => transcriptionHistoryProvider.importHistory()),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.search', () => transcriptionHistoryProvider.search()),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.clearSearch', () => transcriptionHistoryProvider.clearSearch()),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.showWorkspaceOnly', () => transcriptionHistoryProvider.setWorkspaceOnly(true)),
+		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.showAllWorkspaces', () => transcriptionHistoryProvider.setWorkspaceOnly(false)),
 		vscode.commands.registerCommand('speechToTextWhisper.transcriptionHistory.refresh', () => transcriptionHistoryProvider.refresh())
 	];
 
 	// Register DiagnosticsProvider as TreeDataProvider
 	vscode.window.registerTreeDataProvider('speechToTextWhisper.diagnostics', diagnosticsProvider);
 
+	// Register UsageProvider as TreeDataProvider
+	vscode.window.registerTreeDataProvider('speechToTextWhisper.usage', usageProvider);
+
 	// Register DeviceManagerProvider as TreeDataProvider
 	vscode.window.registerTreeDataProvider('speechToTextWhisper.deviceManager', deviceManagerProvider);
 
@@ -405,11 +570,14 @@ function registerCommands(context: vscode.ExtensionContext): void {
 	// Register ModeSelectorProvider as TreeDataProvider
 	vscode.window.registerTreeDataProvider('speechToTextWhisper.modeSelector', modeSelectorProvider);
 
-	// Register TranscriptionHistoryProvider as TreeDataProvider
-	vscode.window.registerTreeDataProvider('speechToTextWhisper.transcriptionHistory', transcriptionHistoryProvider);
+	// Register TranscriptionHistoryProvider as a tree view so search results can be revealed
+	const transcriptionHistoryView = vscode.window.createTreeView('speechToTextWhisper.transcriptionHistory', {
+		treeDataProvider: transcriptionHistoryProvider
+	});
+	transcriptionHistoryProvider.setTreeView(transcriptionHistoryView);
 
 	// Add all commands to subscriptions
-	context.subscriptions.push(...commands, statusBarManager);
+	context.subscriptions.push(...commands, statusBarManager, livePreviewDecoration, transcriptionHistoryView, usageTracker, glossaryStore);
 }
 
 /**
@@ -418,7 +586,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
 async function handleTranscription(audioBlob: Blob): Promise<void> {
 	const context: ErrorContext = {
 		operation: 'transcription',
-		isHoldToRecordMode: false,
+		isHoldToRecordMode: RecordingStateManager.getState().holdToRecord,
 		timestamp: new Date(),
 		additionalData: { audioBlobSize: audioBlob.size }
 	};
@@ -430,6 +598,9 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 			return;
 		}
 
+		// Read before the pipeline runs, so transcription time is not counted as recording time
+		const duration = recordingClock.getElapsed();
+
 		if (!textProcessingPipeline) {
 			ExtensionLog.error('❌ TextProcessingPipeline not initialized');
 			throw new Error('TextProcessingPipeline not initialized');
@@ -455,9 +626,9 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 		}
 
 		// Progress callback for status updates
-		const progressCallback = (progress: any) => {
+		const progressCallback = (progress: ProcessingProgress) => {
 			if (progress.currentStep === 'Transcribing audio...') {
-				statusBarManager.showTranscribing();
+				statusBarManager.showTranscribing(progress.chunkCount ? `chunk ${progress.chunkIndex}/${progress.chunkCount}` : undefined);
 			} else if (progress.currentStep === 'Improving text quality...') {
 				statusBarManager.showPostProcessing();
 			} else if (progress.currentStep === 'Inserting text...') {
@@ -465,13 +636,23 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 			}
 		};
 
+		// Refuse or restrict the request once a usage budget is reached; a refused recording is kept
+		let restrictions: ProcessingRestrictions;
+		try {
+			restrictions = applyUsageBudget(true);
+		} catch (error) {
+			await holdRecording(audioBlob);
+			throw error;
+		}
+
 		// Execute the complete pipeline
 		console.time('complete.pipeline');
 		const pipelineResult = await textProcessingPipeline.processAudio(
 			audioBlob,
 			insertionMode,
 			progressCallback,
-			skipTextInsertion // Pass the flag to skip text insertion
+			skipTextInsertion, // Pass the flag to skip text insertion
+			restrictions
 		);
 		console.timeEnd('complete.pipeline');
 
@@ -480,7 +661,6 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 			
 			// Add entry to transcription history with post-processing info
 			try {
-				const duration = recordingState.startTime ? Date.now() - recordingState.startTime : 0;
 				const whisperConfig = configurationManager.getWhisperConfiguration();
 				const language = whisperConfig.language === 'auto' ? 'auto' : whisperConfig.language;
 				
@@ -492,8 +672,12 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 					// Post-processing fields
 					originalText: pipelineResult.postProcessingResult?.originalText,
 					isPostProcessed: pipelineResult.postProcessingResult?.wasProcessed || false,
-					postProcessingModel: pipelineResult.postProcessingResult?.model
+					postProcessingModel: pipelineResult.postProcessingResult?.model,
+					segments: pipelineResult.segments,
+					audioFile: await keepRecording(pipelineResult.originalAudioBlob),
+					...getDictationContext()
 				});
+				await pruneAudioArchive();
 				
 				// Update UI history
 				transcriptionHistoryProvider.refresh();
@@ -552,6 +736,11 @@ async function handleTranscription(audioBlob: Blob): Promise<void> {
 				}, 3000);
 			}
 			
+			// Let the user keep what the live preview already recognized
+			if (lastLivePreviewText) {
+				offerLivePreviewText(lastLivePreviewText);
+			}
+			
 			await errorHandler.handleErrorFromException(error, context);
 			RecordingStateManager.resetState();
 		}
@@ -607,12 +796,12 @@ async function insertTranscribedTextWithErrorHandling(text: string, mode: string
 }
 
 /**
- * Initializing WhisperClient
+ * Initializing the transcription provider selected in settings
  */
-function initializeWhisperClient(): void {
+function initializeTranscriptionProvider(): void {
 	const whisperConfig = configurationManager.getWhisperConfiguration();
 	
-	if (!whisperConfig.apiKey) {
+	if (providerRequiresApiKey(whisperConfig.provider, whisperConfig.authScheme) && !whisperConfig.apiKey) {
 		ExtensionLog.warn('⚠️ OpenAI API key not configured');
 		vscode.window.showWarningMessage(
 			'OpenAI API key not configured. Please set it in settings.',
@@ -622,25 +811,288 @@ function initializeWhisperClient(): void {
 				vscode.commands.executeCommand('workbench.action.openSettings', 'speechToTextWhisper.apiKey');
 			}
 		});
-		// Set whisperClient to null if not configured
-		whisperClient = null as any;
+		// Leave the provider unset if not configured
+		transcriptionProvider = null;
+		updateProviderContext();
 		return;
 	}
-	
-	try {
-		whisperClient = new WhisperClient({
-			apiKey: whisperConfig.apiKey,
-			timeout: whisperConfig.timeout
+
+	if (whisperConfig.provider === 'local' && !whisperConfig.localModelPath) {
+		ExtensionLog.warn('⚠️ Local whisper model not configured');
+		vscode.window.showWarningMessage(
+			'Local whisper model not configured. Please set the model path in settings.',
+			'Open Settings'
+		).then(selection => {
+			if (selection === 'Open Settings') {
+				vscode.commands.executeCommand('workbench.action.openSettings', 'speechToTextWhisper.local.modelPath');
+			}
 		});
+		transcriptionProvider = null;
+		updateProviderContext();
+		return;
+	}
+
+	try {
+		transcriptionProvider = createTranscriptionProvider(whisperConfig);
 		
 	} catch (error) {
-		ExtensionLog.error('❌ Failed to initialize WhisperClient:', undefined, error as Error);
-		vscode.window.showErrorMessage(`Failed to initialize Whisper client: ${(error as Error).message}`);
-		// Set whisperClient to null on error
-		whisperClient = null as any;
+		ExtensionLog.error('❌ Failed to initialize transcription provider:', undefined, error as Error);
+		vscode.window.showErrorMessage(`Failed to initialize transcription provider: ${(error as Error).message}`);
+		// Leave the provider unset on error
+		transcriptionProvider = null;
+	}
+	
+	updateProviderContext();
+}
+
+/**
+ * Publishing provider capabilities as context keys so menus can hide unsupported actions
+ */
+function updateProviderContext(): void {
+	const capabilities = transcriptionProvider?.getCapabilities();
+	
+	vscode.commands.executeCommand('setContext', 'speechToTextWhisper.provider', transcriptionProvider?.id ?? '');
+	vscode.commands.executeCommand('setContext', 'speechToTextWhisper.supportsTimestamps', !!(capabilities?.segmentTimestamps || capabilities?.wordTimestamps));
+	vscode.commands.executeCommand('setContext', 'speechToTextWhisper.supportsPrompt', !!capabilities?.prompt);
+	vscode.commands.executeCommand('setContext', 'speechToTextWhisper.supportsLanguageDetection', !!capabilities?.languageDetection);
+}
+
+/**
+ * Starting live partial transcription if enabled in settings
+ */
+function startLivePreview(): void {
+	const uiConfig = configurationManager.getUIConfiguration();
+	liveTranscriber = null;
+	lastLivePreviewText = '';
+	
+	if (uiConfig.livePreviewMode === 'off' || !transcriptionProvider) {
+		return;
+	}
+
+	// Segment requests are paid like any other, so the preview follows the usage budget
+	let provider: TranscriptionProvider = transcriptionProvider;
+	try {
+		provider = applyUsageBudget(true).transcriptionProvider || transcriptionProvider;
+	} catch (error) {
+		ExtensionLog.warn(`📊 [USAGE] Live preview not started: ${(error as Error).message}`);
+		return;
+	}
+	
+	const options = textProcessingPipeline.buildTranscriptionOptions(provider);
+	liveTranscriber = new LiveTranscriber(
+		provider,
+		options,
+		{
+			onPartialText: (text: string) => {
+				if (uiConfig.livePreviewMode === 'ghostText') {
+					livePreviewDecoration.update(text);
+				} else {
+					statusBarManager.showPartialTranscript(text);
+				}
+			},
+			canTranscribe: () => provider.id === 'local' || !isUsageBudgetReached()
+		},
+		usageTracker,
+		textProcessingPipeline.getUsageModel(provider, options)
+	);
+}
+
+/**
+ * Stopping live transcription and removing the preview, returns the partial text
+ */
+function stopLivePreview(): string {
+	const text = liveTranscriber?.getText() || '';
+	liveTranscriber?.stop();
+	liveTranscriber = null;
+	livePreviewDecoration.clear();
+	return text;
+}
+
+/**
+ * Offering the live preview text when the final transcription failed
+ */
+function offerLivePreviewText(text: string): void {
+	vscode.window.showWarningMessage(
+		'Final transcription failed, but the live preview recognized part of the recording.',
+		'Copy Live Preview'
+	).then(selection => {
+		if (selection === 'Copy Live Preview') {
+			vscode.env.clipboard.writeText(text);
+		}
+	});
+}
+
+/**
+ * Choosing the post-processing profile used from the next recording on
+ */
+async function selectPostProcessingProfile(): Promise<void> {
+	const activeProfile = postProcessingService.getActiveProfile();
+	const picked = await vscode.window.showQuickPick(
+		postProcessingService.getProfiles().map(profile => ({
+			label: profile.name === activeProfile.name ? `$(check) ${profile.name}` : profile.name,
+			description: profile.model === 'Without post-processing' ? 'Off' : `${profile.model} · temperature ${profile.temperature}`,
+			detail: profile.prompt.split('\n')[0],
+			profile
+		})),
+		{ placeHolder: 'Post-processing profile for the next recordings', matchOnDetail: true }
+	);
+	if (!picked) {
+		return;
+	}
+
+	await vscode.workspace.getConfiguration('speechToTextWhisper').update('postProcessing.profile', picked.profile.name, vscode.ConfigurationTarget.Global);
+	ExtensionLog.info(`🧠 [POST-PROCESSING] Profile selected: ${picked.profile.name}`);
+}
+
+/**
+ * Opening the workspace glossary, created with an example term when missing
+ */
+async function openGlossary(): Promise<void> {
+	const uri = glossaryStore.getFileUri();
+	if (!uri) {
+		vscode.window.showWarningMessage('Open a folder to use a speech glossary');
+		return;
+	}
+
+	try {
+		await vscode.workspace.fs.stat(uri);
+	} catch {
+		const template = {
+			terms: [
+				{ term: 'Kubernetes', aliases: ['cube and eighties', 'kubernetis'], note: 'container orchestration' }
+			]
+		};
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(template, null, 2) + '\n', 'utf8'));
+		ExtensionLog.info(`📖 [GLOSSARY] Created ${uri.fsPath}`);
+	}
+
+	await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri));
+}
+
+/**
+ * Proposing glossary terms found in the workspace (package names, top-level symbols, README headings)
+ * and adding the reviewed ones to the glossary file
+ */
+async function harvestGlossary(): Promise<void> {
+	const uri = glossaryStore.getFileUri();
+	if (!uri) {
+		vscode.window.showWarningMessage('Open a folder to use a speech glossary');
+		return;
+	}
+
+	const found = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: 'Scanning workspace for glossary terms',
+		cancellable: true
+	}, async (progress, token) => {
+		const terms = await new GlossaryHarvester(contextManager).harvest(progress, token);
+		return token.isCancellationRequested ? undefined : terms;
+	});
+	if (!found) {
+		ExtensionLog.info('📖 [GLOSSARY] Workspace scan cancelled');
+		return;
+	}
+
+	const candidates = rankGlossaryCandidates(found, glossaryStore.getGlossary());
+	if (candidates.length === 0) {
+		vscode.window.showInformationMessage('No new glossary terms found in the workspace');
+		return;
+	}
+
+	const sourceLabels: Record<GlossaryCandidateSource, string> = {
+		workspace: 'workspace name',
+		package: 'package',
+		symbol: 'symbol',
+		heading: 'README heading'
+	};
+	const picked = await vscode.window.showQuickPick(
+		candidates.map(candidate => ({
+			label: candidate.term,
+			description: candidate.count > 1 ? `${sourceLabels[candidate.source]} · found ${candidate.count} times` : sourceLabels[candidate.source],
+			picked: candidate.source === 'workspace' || (candidate.source !== 'package' && candidate.count > 1)
+		})),
+		{ canPickMany: true, placeHolder: 'Terms to add to the speech glossary', matchOnDescription: true }
+	);
+	if (!picked || picked.length === 0) {
+		return;
+	}
+
+	try {
+		let content: string | undefined;
+		try {
+			content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			content = undefined; // created below
+		}
+
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(addGlossaryTerms(content, picked.map(item => item.label)), 'utf8'));
+		await glossaryStore.load();
+		ExtensionLog.info(`📖 [GLOSSARY] Added ${picked.length} harvested terms to ${uri.fsPath}`);
+
+		const selection = await vscode.window.showInformationMessage(`✅ Added ${picked.length} terms to the speech glossary`, 'Open Glossary');
+		if (selection === 'Open Glossary') {
+			await openGlossary();
+		}
+	} catch (error) {
+		ExtensionLog.error('❌ Failed to update the glossary:', undefined, error as Error);
+		vscode.window.showErrorMessage(`Failed to update the glossary: ${(error as Error).message}`);
 	}
 }
 
+/**
+ * Running the text rules on the selection (or a typed text, the last transcription by default)
+ * and showing the result as a diff
+ */
+async function previewTextRules(): Promise<void> {
+	const config = configurationManager.getTextRulesConfiguration();
+	if (config.rules.length === 0) {
+		const selection = await vscode.window.showInformationMessage('No text rules are configured', 'Open Settings');
+		if (selection === 'Open Settings') {
+			vscode.commands.executeCommand('workbench.action.openSettings', 'speechToTextWhisper.textRules');
+		}
+		return;
+	}
+
+	const editor = vscode.window.activeTextEditor;
+	let text = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : undefined;
+	if (!text) {
+		text = await vscode.window.showInputBox({
+			prompt: 'Text to run the text rules on',
+			value: lastTranscribedText || '',
+			placeHolder: 'e.g. hello comma world new line call foo open paren close paren'
+		});
+	}
+	if (!text) {
+		return;
+	}
+
+	const errors = validateTextRules(config.rules);
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Invalid text rules are skipped: ${errors.join('; ')}`);
+	}
+
+	const result = applyTextRules(text, config.rules);
+	const before = await vscode.workspace.openTextDocument({ content: text, language: 'plaintext' });
+	const after = await vscode.workspace.openTextDocument({ content: result.text, language: 'plaintext' });
+	await vscode.commands.executeCommand('vscode.diff', before.uri, after.uri, 'Text Rules Preview');
+
+	const changedBy = result.steps.filter(step => step.changed).map(step => `${step.index + 1}. ${step.label}`);
+	ExtensionLog.info(`🔄 [PIPELINE] Text rules preview: ${changedBy.length} of ${result.steps.length} rules changed the text`);
+	vscode.window.showInformationMessage(
+		changedBy.length > 0
+			? `${changedBy.length} of ${result.steps.length} text rules changed the text: ${changedBy.join(', ')}${config.enabled ? '' : ' (rules are disabled for transcriptions)'}`
+			: 'No text rule changed the text'
+	);
+}
+
+/**
+ * Showing the active post-processing profile next to the microphone in the status bar
+ */
+function updatePostProcessingProfileIndicator(): void {
+	const profile = postProcessingService.getActiveProfile();
+	statusBarManager.showPostProcessingProfile(profile.name, profile.model !== 'Without post-processing');
+}
+
 function showWelcomeMessage(): void {
 	// Force show StatusBar
 	statusBarManager.show();
@@ -698,6 +1150,10 @@ export function deactivate() {
 		postProcessingService.dispose();
 	}
 	
+	if (contextManager) {
+		contextManager.dispose();
+	}
+	
 	if (textProcessingPipeline) {
 		textProcessingPipeline.dispose();
 	}
@@ -838,13 +1294,89 @@ async function recordAndOpenCurrentChat(): Promise<void> {
 	}
 }
 
+/**
+ * Push-to-talk: starts recording; bound to a key together with stopHoldToRecord on the release key.
+ * Held keys repeat the command, so calls during a recording are ignored.
+ */
+async function startHoldToRecord(args?: { mode?: 'insert' | 'chat' }): Promise<void> {
+	const context: ErrorContext = {
+		operation: 'start_hold_to_record',
+		isHoldToRecordMode: true,
+		timestamp: new Date()
+	};
+
+	try {
+		if (RecordingStateManager.isRecording()) {
+			return;
+		}
+
+		const now = Date.now();
+		if (now - lastRecordingStartTime < MIN_RECORDING_INTERVAL) {
+			return;
+		}
+
+		const mode = args?.mode === 'chat' ? RecordingMode.INSERT_AT_CURRENT_CHAT : RecordingMode.INSERT_OR_CLIPBOARD;
+		if (!RecordingStateManager.startRecording(mode, true)) {
+			return;
+		}
+
+		lastRecordingStartTime = now;
+		await startRecording();
+
+		// The release key may come before FFmpeg has started, nothing useful was recorded then
+		if (!RecordingStateManager.isRecording() && audioRecorder?.getIsRecording()) {
+			RecordingStateManager.resetState();
+			audioRecorder.cancelRecording();
+			stopLivePreview();
+			deviceManagerProvider?.clearLevel();
+			if (statusBarManager) {
+				statusBarManager.updateRecordingState(false);
+			}
+		}
+	} catch (error) {
+		ExtensionLog.error('❌ startHoldToRecord failed:', undefined, error as Error);
+		RecordingStateManager.resetState();
+		if (statusBarManager) {
+			statusBarManager.updateRecordingState(false);
+		}
+		await errorHandler.handleErrorFromException(error as Error, context);
+	}
+}
+
+/**
+ * Push-to-talk release: stops the recording, discarding it if it is shorter than holdToRecord.minDuration
+ */
+function stopHoldToRecord(): void {
+	if (!RecordingStateManager.isHoldToRecord()) {
+		return;
+	}
+
+	const duration = RecordingStateManager.getRecordingDuration();
+	const minDuration = configurationManager.getAudioConfiguration().holdToRecordMinDuration * 1000;
+
+	if (duration >= minDuration) {
+		stopRecording();
+		return;
+	}
+
+	ExtensionLog.info(`🎤 [HOLD-TO-RECORD] Recording discarded as accidental tap: ${duration}ms < ${minDuration}ms`);
+	RecordingStateManager.resetState();
+	stopLivePreview();
+	audioRecorder?.cancelRecording();
+	deviceManagerProvider?.clearLevel();
+	if (statusBarManager) {
+		statusBarManager.updateRecordingState(false);
+		statusBarManager.showWarning('Recording too short, discarded');
+	}
+}
+
 /**
  * Recording commands
  */
 async function startRecording(): Promise<void> {
 	const context: ErrorContext = {
 		operation: 'start_recording',
-		isHoldToRecordMode: false,
+		isHoldToRecordMode: RecordingStateManager.isHoldToRecord(),
 		timestamp: new Date()
 	};
 
@@ -934,10 +1466,397 @@ function stopRecording(): void {
 	}
 }
 
+/**
+ * Pausing the current recording; the parts are joined into one file when recording stops
+ */
+async function pauseRecording(): Promise<void> {
+	if (!audioRecorder || !RecordingStateManager.isRecording()) {
+		vscode.window.showInformationMessage('No recording in progress');
+		return;
+	}
+
+	if (RecordingStateManager.isPaused()) {
+		return;
+	}
+
+	try {
+		await audioRecorder.pauseRecording();
+	} catch (error) {
+		ExtensionLog.error('❌ [RECORDING] Failed to pause recording:', undefined, error as Error);
+		vscode.window.showErrorMessage(`Failed to pause recording: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Resuming a paused recording
+ */
+async function resumeRecording(): Promise<void> {
+	if (!audioRecorder || !RecordingStateManager.isPaused()) {
+		vscode.window.showInformationMessage('Recording is not paused');
+		return;
+	}
+
+	try {
+		await audioRecorder.resumeRecording();
+	} catch (error) {
+		ExtensionLog.error('❌ [RECORDING] Failed to resume recording:', undefined, error as Error);
+		vscode.window.showErrorMessage(`Failed to resume recording: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Transcribing an existing audio or video file into a new untitled document
+ */
+async function transcribeFile(uri?: vscode.Uri): Promise<void> {
+	const context: ErrorContext = {
+		operation: 'transcribe_file',
+		isHoldToRecordMode: false,
+		timestamp: new Date(),
+		additionalData: { file: uri?.fsPath }
+	};
+
+	if (RecordingStateManager.isRecording()) {
+		vscode.window.showWarningMessage('Stop the current recording before transcribing a file');
+		return;
+	}
+
+	if (!uri) {
+		const selection = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: 'Transcribe',
+			filters: { 'Audio and Video': [...MEDIA_FILE_EXTENSIONS] }
+		});
+		uri = selection?.[0];
+		if (!uri) {
+			return;
+		}
+	}
+
+	const filePath = uri.fsPath;
+	const fileName = filePath.split(/[\\/]/).pop() || filePath;
+	if (!isSupportedMediaFile(filePath)) {
+		vscode.window.showWarningMessage(`Unsupported file type: ${fileName}`);
+		return;
+	}
+
+	try {
+		const restrictions = applyUsageBudget(true);
+		const pipelineResult = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Transcribing ${fileName}`
+		}, async (progress) => {
+			progress.report({ message: 'Extracting audio...' });
+			const extracted = await extractAudio(filePath);
+
+			const result = await textProcessingPipeline.processAudio(extracted.blob, 'cursor', (update: ProcessingProgress) => {
+				const chunk = update.chunkCount ? ` (chunk ${update.chunkIndex}/${update.chunkCount})` : '';
+				progress.report({ message: `${update.currentStep}${chunk}` });
+			}, true, restrictions);
+
+			return { result, duration: extracted.duration };
+		});
+
+		const { result, duration } = pipelineResult;
+		if (!result.success) {
+			throw result.error || new Error('Pipeline processing failed');
+		}
+
+		try {
+			const whisperConfig = configurationManager.getWhisperConfiguration();
+			await transcriptionHistoryManager.addEntry({
+				text: result.finalText,
+				duration,
+				language: whisperConfig.language === 'auto' ? 'auto' : whisperConfig.language,
+				mode: HistoryRecordingMode.TRANSCRIBE_FILE,
+				originalText: result.postProcessingResult?.originalText,
+				isPostProcessed: result.postProcessingResult?.wasProcessed || false,
+				postProcessingModel: result.postProcessingResult?.model,
+				sourceFile: filePath,
+				segments: result.segments,
+				audioFile: await keepRecording(result.originalAudioBlob),
+				...getDictationContext(uri)
+			});
+			await pruneAudioArchive();
+			transcriptionHistoryProvider.refresh();
+		} catch (error) {
+			ExtensionLog.error('❌ Failed to add file transcription to history:', undefined, error as Error);
+		}
+
+		lastTranscribedText = result.finalText;
+		const document = await vscode.workspace.openTextDocument({ content: result.finalText, language: 'plaintext' });
+		await vscode.window.showTextDocument(document);
+		statusBarManager.showSuccess(`Transcribed ${fileName}`);
+
+	} catch (error) {
+		ExtensionLog.error(`❌ Failed to transcribe file ${filePath}:`, undefined, error as Error);
+		statusBarManager.updateRecordingState(false);
+		await errorHandler.handleErrorFromException(error as Error, context);
+	}
+}
+
+/**
+ * Workspace folder and active file recorded with a history entry; the folder is the one
+ * containing the given file or the active editor, otherwise the first folder of the workspace
+ */
+function getDictationContext(uri?: vscode.Uri): { workspaceFolder?: string; activeFile?: string } {
+	const activeDocument = vscode.window.activeTextEditor?.document;
+	const activeFile = activeDocument && activeDocument.uri.scheme === 'file' ? activeDocument.uri.fsPath : undefined;
+	const folderSource = uri ?? activeDocument?.uri;
+	const folder = (folderSource && vscode.workspace.getWorkspaceFolder(folderSource)) || vscode.workspace.workspaceFolders?.[0];
+
+	return { workspaceFolder: folder?.uri.toString(), activeFile };
+}
+
+/**
+ * Per-workspace history keeps its recordings in the workspace storage folder, so pruning
+ * one workspace never deletes recordings referenced by another
+ */
+function getRecordingsDirectory(): string {
+	const perWorkspace = configurationManager.getHistoryConfiguration().storage === 'workspace' && extensionContext.storageUri;
+	return vscode.Uri.joinPath(perWorkspace ? extensionContext.storageUri! : extensionContext.globalStorageUri, 'recordings').fsPath;
+}
+
+/**
+ * Default price table with the overrides from speechToTextWhisper.usage.prices
+ */
+function getCurrentModelPrices(): Record<string, ModelPrice> {
+	return getModelPrices(configurationManager.getUsageConfiguration().prices);
+}
+
+/**
+ * Checking today's and this month's usage against the budget before a request. Warns once a day
+ * near a limit; at the limit throws a budget error, or with fallback allowed returns the
+ * restrictions of the configured action (skip post-processing, transcribe locally)
+ */
+function applyUsageBudget(allowFallback: boolean): ProcessingRestrictions {
+	const budget = configurationManager.getUsageConfiguration();
+	const status = checkBudget(usageTracker.getDays(), getCurrentModelPrices(), budget);
+	if (status.level === 'ok') {
+		return {};
+	}
+
+	const notice = `${formatUsageDay(new Date())}:${status.level}`;
+	const firstNotice = notice !== lastBudgetNotice;
+	lastBudgetNotice = notice;
+
+	if (status.level === 'warning') {
+		if (firstNotice) {
+			ExtensionLog.warn(`📊 [USAGE] Budget warning: ${status.description}`);
+			vscode.window.showWarningMessage(`Usage budget at ${Math.round(status.ratio * 100)}%: ${status.description}`);
+		}
+		return {};
+	}
+
+	let restrictions: ProcessingRestrictions | null = null;
+	if (allowFallback && budget.limitAction === 'skipPostProcessing') {
+		restrictions = { skipPostProcessing: true };
+	} else if (allowFallback && budget.limitAction === 'local') {
+		try {
+			const localProvider = transcriptionProvider?.id === 'local'
+				? transcriptionProvider
+				: createTranscriptionProvider({ ...configurationManager.getWhisperConfiguration(), provider: 'local' });
+			restrictions = { skipPostProcessing: true, transcriptionProvider: localProvider };
+		} catch (error) {
+			ExtensionLog.warn(`📊 [USAGE] Local fallback unavailable: ${(error as Error).message}`);
+		}
+	}
+
+	if (!restrictions) {
+		ExtensionLog.warn(`📊 [USAGE] Budget reached, request refused: ${status.description}`);
+		throw new Error(`Usage budget reached: ${status.description}`);
+	}
+
+	if (firstNotice) {
+		ExtensionLog.warn(`📊 [USAGE] Budget reached, continuing with ${budget.limitAction}: ${status.description}`);
+		const fallback = restrictions.transcriptionProvider ? 'Transcribing locally without post-processing' : 'Post-processing is skipped';
+		vscode.window.showWarningMessage(`Usage budget reached (${status.description}). ${fallback} until it resets.`);
+	}
+	return restrictions;
+}
+
+/**
+ * Whether a usage budget limit is reached, without notices
+ */
+function isUsageBudgetReached(): boolean {
+	return checkBudget(usageTracker.getDays(), getCurrentModelPrices(), configurationManager.getUsageConfiguration()).level === 'exceeded';
+}
+
+/**
+ * Saving a recording refused by the usage budget, so it can be transcribed with Transcribe Audio File later
+ */
+async function holdRecording(audioBlob: Blob): Promise<void> {
+	try {
+		const heldRecordings = new AudioArchive(vscode.Uri.joinPath(extensionContext.globalStorageUri, 'held-recordings').fsPath);
+		const uri = vscode.Uri.file(heldRecordings.getPath(await heldRecordings.save(audioBlob))!);
+		ExtensionLog.info(`📊 [USAGE] Refused recording saved to ${uri.fsPath}`);
+
+		vscode.window.showWarningMessage('The recording was saved and can be transcribed once the budget allows it.', 'Transcribe Now', 'Show File')
+			.then(selection => {
+				if (selection === 'Transcribe Now') {
+					transcribeFile(uri);
+				} else if (selection === 'Show File') {
+					vscode.commands.executeCommand('revealFileInOS', uri);
+				}
+			});
+	} catch (error) {
+		ExtensionLog.error('❌ Failed to save the refused recording:', undefined, error as Error);
+	}
+}
+
+/**
+ * Clearing the usage counters after confirmation
+ */
+async function resetUsage(): Promise<void> {
+	const confirmResult = await vscode.window.showWarningMessage(
+		'Reset all usage statistics?',
+		{ modal: true },
+		'Reset'
+	);
+
+	if (confirmResult === 'Reset') {
+		await usageTracker.clear();
+		vscode.window.showInformationMessage('✅ Usage statistics reset');
+	}
+}
+
+/**
+ * Keeping the recording of a new history entry when audio retention is enabled
+ */
+async function keepRecording(audioBlob: Blob): Promise<string | undefined> {
+	if (!configurationManager.getAudioConfiguration().audioRetention || !transcriptionHistoryManager.isEnabled()) {
+		return undefined;
+	}
+
+	try {
+		return await audioArchive.save(audioBlob);
+	} catch (error) {
+		ExtensionLog.warn(`⚠️ Failed to keep the recording: ${(error as Error).message}`);
+		return undefined;
+	}
+}
+
+/**
+ * Deleting kept recordings of removed entries and those outside the size and age limits
+ */
+async function pruneAudioArchive(): Promise<void> {
+	try {
+		const audioConfig = configurationManager.getAudioConfiguration();
+		const history = await transcriptionHistoryManager.getHistory();
+		const referenced = new Set(history.entries.map(entry => entry.audioFile).filter((file): file is string => !!file));
+
+		audioArchive.prune({
+			maxSizeBytes: audioConfig.audioRetentionMaxSize * 1024 * 1024,
+			maxAgeMs: audioConfig.audioRetentionMaxAge * 24 * 60 * 60 * 1000
+		}, referenced);
+	} catch (error) {
+		ExtensionLog.warn(`⚠️ Failed to prune kept recordings: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Re-transcribing the kept recording of a history entry with another model, language or prompt
+ */
+async function retranscribeHistoryEntry(item?: { entry?: TranscriptionEntry }): Promise<void> {
+	const entry = item?.entry;
+	if (!entry?.audioFile) {
+		vscode.window.showErrorMessage('This transcription has no kept recording. Enable speechToTextWhisper.audioRetention.enabled to keep new ones.');
+		return;
+	}
+
+	const whisperConfig = configurationManager.getWhisperConfiguration();
+
+	// whisper.cpp uses the configured model file, so the model is only chosen for the API
+	let model = whisperConfig.whisperModel;
+	if (whisperConfig.provider !== 'local') {
+		const pickedModel = await vscode.window.showQuickPick(
+			SUPPORTED_TRANSCRIPTION_MODELS.map(name => ({ label: name, description: name === whisperConfig.whisperModel ? 'current' : undefined })),
+			{ placeHolder: 'Model for re-transcription' }
+		);
+		if (!pickedModel) {
+			return;
+		}
+		model = pickedModel.label;
+	}
+
+	const language = await vscode.window.showInputBox({
+		prompt: 'Language code for re-transcription (e.g. en, de) or "auto"',
+		value: entry.language || whisperConfig.language,
+		validateInput: value => /^(auto|[a-z]{2,3})$/.test(value.trim()) ? undefined : 'Enter a language code such as en, or auto'
+	});
+	if (language === undefined) {
+		return;
+	}
+
+	const prompt = await vscode.window.showInputBox({
+		prompt: 'Prompt for re-transcription (names and technical terms Whisper should expect)',
+		value: whisperConfig.prompt
+	});
+	if (prompt === undefined) {
+		return;
+	}
+
+	const context: ErrorContext = {
+		operation: 'retranscribe',
+		isHoldToRecordMode: false,
+		timestamp: new Date(),
+		additionalData: { entryId: entry.id, model, language }
+	};
+
+	try {
+		// A re-transcription asks for a specific model, so a reached budget refuses it instead of falling back
+		if (whisperConfig.provider !== 'local') {
+			applyUsageBudget(false);
+		}
+
+		const text = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Re-transcribing with ${model}`
+		}, async (progress) => {
+			const audioBlob = await audioArchive.load(entry.audioFile!);
+			return textProcessingPipeline.transcribeOnly(audioBlob, {
+				model,
+				language: language.trim() === 'auto' ? undefined : language.trim(),
+				prompt: prompt || undefined
+			}, (update: ProcessingProgress) => progress.report({ message: update.message }), entry.duration);
+		});
+
+		if (!text.trim()) {
+			vscode.window.showWarningMessage('Re-transcription returned no text');
+			return;
+		}
+
+		const result = await transcriptionHistoryManager.addVariant(entry.id, {
+			text,
+			timestamp: new Date().toISOString(),
+			model,
+			language: language.trim(),
+			prompt: prompt || undefined
+		});
+		if (!result.success) {
+			throw new Error(result.error || 'Failed to save the re-transcription');
+		}
+
+		transcriptionHistoryProvider.refresh();
+		const action = await vscode.window.showInformationMessage('✅ Re-transcription added to the history entry', 'Copy');
+		if (action === 'Copy') {
+			await vscode.env.clipboard.writeText(text);
+		}
+	} catch (error) {
+		ExtensionLog.error(`❌ Re-transcription failed for entry ${entry.id}:`, undefined, error as Error);
+		await errorHandler.handleErrorFromException(error as Error, context);
+	}
+}
+
 /**
  * Ensuring initialization of FFmpeg Audio Recorder
  */
 async function ensureFFmpegAudioRecorder(): Promise<void> {
+	// Apply recorder settings changed during the previous recording
+	if (recorderSettingsChanged && !audioRecorder?.getIsRecording()) {
+		audioRecorder = null;
+		recorderSettingsChanged = false;
+	}
+
 	if (audioRecorder) { // Already initialized
 		return; // Already initialized
 	}
@@ -955,6 +1874,7 @@ async function ensureFFmpegAudioRecorder(): Promise<void> {
 		
 		// Get audio settings
 		const audioConfig = configurationManager.getAudioConfiguration();
+		const uiConfig = configurationManager.getUIConfiguration();
 		
 		// Define quality parameters
 		let sampleRate = 16000;
@@ -981,8 +1901,33 @@ async function ensureFFmpegAudioRecorder(): Promise<void> {
 				if (statusBarManager) {
 					statusBarManager.updateRecordingState(true);
 				}
+				startLivePreview();
+			},
+			onDataAvailable: (segment: Blob) => {
+				liveTranscriber?.addSegment(segment);
+			},
+			onVolumeLevel: (level: AudioLevel) => {
+				statusBarManager?.showLevel(level);
+				deviceManagerProvider?.updateLevel(level);
+			},
+			onRecordingPause: () => {
+				RecordingStateManager.pauseRecording();
+				deviceManagerProvider?.clearLevel();
+				if (statusBarManager) {
+					statusBarManager.showPaused();
+				}
+			},
+			onRecordingResume: () => {
+				RecordingStateManager.resumeRecording();
+				if (statusBarManager) {
+					statusBarManager.updateRecordingState(true);
+				}
 			},
 			onRecordingStop: async (audioBlob: Blob) => {
+				// The full recording is transcribed below; the preview is kept only as a fallback
+				lastLivePreviewText = stopLivePreview();
+				deviceManagerProvider?.clearLevel();
+				
 				// Update StatusBar
 				if (statusBarManager) {
 					statusBarManager.updateRecordingState(false);
@@ -997,6 +1942,8 @@ async function ensureFFmpegAudioRecorder(): Promise<void> {
 				}
 			},
 			onError: (error: Error) => {
+				stopLivePreview();
+				deviceManagerProvider?.clearLevel();
 				ExtensionLog.error('❌ AudioRecorder event: onError:', undefined, error);
 				if (statusBarManager) {
 					statusBarManager.showError(`Recording error: ${error.message}`);
@@ -1015,7 +1962,10 @@ async function ensureFFmpegAudioRecorder(): Promise<void> {
 			ffmpegPath: audioConfig.ffmpegPath || undefined,
 			silenceDetection: audioConfig.silenceDetection,
 			silenceDuration: audioConfig.silenceDuration,
-			silenceThreshold: audioConfig.silenceThreshold // Removed automatic minus
+			silenceThreshold: audioConfig.silenceThreshold, // Removed automatic minus
+			silenceDetectionMethod: audioConfig.silenceDetectionMethod as SilenceDetectionMethod,
+			segmentDuration: uiConfig.livePreviewMode !== 'off' ? uiConfig.livePreviewSegmentDuration : 0,
+			levelMeter: uiConfig.showLevelMeter
 		};
 		
 		// Create new instance of audio recorder
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AudioArchive, selectFilesToPrune, AudioRetentionPolicy } from '../../core/AudioArchive.js';
+
+describe('AudioArchive Tests', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 100 * day;
+    const policy: AudioRetentionPolicy = { maxSizeBytes: 1000, maxAgeMs: 30 * day };
+
+    it('should prune recordings no history entry references', () => {
+        const files = [
+            { name: 'kept.ogg', size: 100, modified: now - day },
+            { name: 'orphan.ogg', size: 100, modified: now - day }
+        ];
+
+        assert.deepStrictEqual(selectFilesToPrune(files, policy, new Set(['kept.ogg']), now), ['orphan.ogg']);
+    });
+
+    it('should prune recordings older than the age limit', () => {
+        const files = [
+            { name: 'old.ogg', size: 100, modified: now - 31 * day },
+            { name: 'recent.ogg', size: 100, modified: now - 29 * day }
+        ];
+
+        assert.deepStrictEqual(selectFilesToPrune(files, policy, new Set(['old.ogg', 'recent.ogg']), now), ['old.ogg']);
+    });
+
+    it('should prune the oldest recordings above the size cap', () => {
+        const files = [
+            { name: 'oldest.ogg', size: 400, modified: now - 3 * day },
+            { name: 'middle.ogg', size: 400, modified: now - 2 * day },
+            { name: 'newest.ogg', size: 400, modified: now - day }
+        ];
+        const referenced = new Set(files.map(file => file.name));
+
+        assert.deepStrictEqual(selectFilesToPrune(files, policy, referenced, now), ['oldest.ogg']);
+    });
+
+    describe('Stored recordings', () => {
+        // Not audio, so the Opus encoding fails and the original bytes are kept whether or not FFmpeg is installed
+        const audioBytes = Buffer.from('recorded audio bytes');
+        let directory: string;
+        let archive: AudioArchive;
+
+        beforeEach(() => {
+            directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'audio-archive-test-')), 'recordings');
+            archive = new AudioArchive(directory);
+        });
+
+        afterEach(() => {
+            fs.rmSync(path.dirname(directory), { recursive: true, force: true });
+        });
+
+        it('should save a recording and resolve it by file name', async () => {
+            const fileName = await archive.save(new Blob([audioBytes], { type: 'audio/wav' }));
+
+            assert.match(fileName, /^recording_\d+_[a-z0-9]+\.wav$/);
+            assert.strictEqual(archive.getPath(fileName), path.join(directory, fileName));
+            assert.deepStrictEqual(fs.readFileSync(path.join(directory, fileName)), audioBytes);
+        });
+
+        it('should load a kept recording for re-transcription', async () => {
+            const fileName = await archive.save(new Blob([audioBytes], { type: 'audio/wav' }));
+
+            const blob = await archive.load(fileName);
+
+            assert.strictEqual(blob.name, fileName, 'The name carries the extension providers use to pick the format');
+            assert.strictEqual(blob.type, 'audio/wav');
+            assert.deepStrictEqual(Buffer.from(await blob.arrayBuffer()), audioBytes);
+        });
+
+        it('should only resolve files inside the archive directory', async () => {
+            const fileName = await archive.save(new Blob([audioBytes], { type: 'audio/wav' }));
+
+            assert.strictEqual(archive.getPath(`../other/${fileName}`), path.join(directory, fileName));
+            assert.strictEqual(archive.getPath('missing.ogg'), null);
+        });
+
+        it('should refuse to load a pruned recording', async () => {
+            const fileName = await archive.save(new Blob([audioBytes], { type: 'audio/wav' }));
+            archive.prune(policy, new Set());
+
+            assert.strictEqual(archive.getPath(fileName), null);
+            await assert.rejects(archive.load(fileName), /no longer kept/);
+        });
+    });
+});
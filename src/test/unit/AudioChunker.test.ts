@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import {
+    parseSilenceDetectOutput,
+    planChunkBoundaries,
+    stitchTranscripts,
+    getPromptTail,
+    getMaxChunkDuration
+} from '../../core/AudioChunker.js';
+
+describe('AudioChunker Silence Parsing Tests', () => {
+    it('should parse silence intervals from FFmpeg stderr', () => {
+        const output = [
+            '[silencedetect @ 0x7f8] silence_start: 12.5',
+            '[silencedetect @ 0x7f8] silence_end: 13.25 | silence_duration: 0.75',
+            '[silencedetect @ 0x7f8] silence_start: -0.01',
+            '[silencedetect @ 0x7f8] silence_end: 40 | silence_duration: 40.01'
+        ].join('\n');
+
+        const silences = parseSilenceDetectOutput(output);
+
+        assert.deepStrictEqual(silences, [
+            { start: 12.5, end: 13.25 },
+            { start: 0, end: 40 }
+        ], 'Should pair starts with ends and clamp negative starts');
+    });
+});
+
+describe('AudioChunker Boundary Planning Tests', () => {
+    it('should return a single chunk for short recordings', () => {
+        const boundaries = planChunkBoundaries(100, [], 600);
+
+        assert.deepStrictEqual(boundaries, [{ start: 0, end: 100, overlap: 0 }], 'Short recording should not be split');
+    });
+
+    it('should cut in the middle of the last pause before the limit', () => {
+        const boundaries = planChunkBoundaries(1000, [
+            { start: 400, end: 401 },
+            { start: 550, end: 552 },
+            { start: 700, end: 701 }
+        ], 600);
+
+        assert.strictEqual(boundaries[0].end, 551, 'First chunk should end in the last pause before 600s');
+        assert.strictEqual(boundaries[1].start, 551, 'Chunks cut at a pause should not overlap');
+        assert.strictEqual(boundaries[1].overlap, 0, 'Chunks cut at a pause should report no overlap');
+        assert.strictEqual(boundaries[boundaries.length - 1].end, 1000, 'Last chunk should end at the recording end');
+    });
+
+    it('should cut at the limit with overlap when no pause is found', () => {
+        const boundaries = planChunkBoundaries(1000, [], 600, 2);
+
+        assert.deepStrictEqual(boundaries, [
+            { start: 0, end: 600, overlap: 0 },
+            { start: 598, end: 1000, overlap: 2 }
+        ], 'Hard cuts should overlap by the configured amount');
+    });
+
+    it('should keep chunk duration under the upload limit', () => {
+        const maxDuration = getMaxChunkDuration(25 * 1024 * 1024);
+
+        assert.ok(maxDuration * 16000 * 2 < 25 * 1024 * 1024, '16 kHz mono PCM chunk should fit into 25MB');
+    });
+});
+
+describe('AudioChunker Stitching Tests', () => {
+    it('should remove words repeated in the overlap', () => {
+        const text = stitchTranscripts([
+            'We open the settings and then choose the',
+            'then choose the audio device.'
+        ], [0, 2]);
+
+        assert.strictEqual(text, 'We open the settings and then choose the audio device.', 'Overlapping words should appear once');
+    });
+
+    it('should keep repeated words at joins cut in a pause', () => {
+        const text = stitchTranscripts(['We could do that', 'That said, we did not.'], [0, 0]);
+
+        assert.strictEqual(text, 'We could do that That said, we did not.', 'Words should only be removed where the audio overlaps');
+    });
+
+    it('should join chunks without overlap with a space', () => {
+        const text = stitchTranscripts(['First part.', '', 'Second part.']);
+
+        assert.strictEqual(text, 'First part. Second part.', 'Chunks should be joined and empty ones skipped');
+    });
+
+    it('should take the last words of a transcript as prompt', () => {
+        const tail = getPromptTail('one two three four five', 10);
+
+        assert.strictEqual(tail, 'four five', 'Tail should start at a word boundary');
+    });
+});
@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { isSupportedMediaFile } from '../../core/AudioFileExtractor.js';
+
+describe('AudioFileExtractor Tests', () => {
+    it('should accept audio and video files regardless of extension case', () => {
+        assert.strictEqual(isSupportedMediaFile('/recordings/standup.m4a'), true);
+        assert.strictEqual(isSupportedMediaFile('/recordings/Meeting.MP4'), true);
+        assert.strictEqual(isSupportedMediaFile('C:\\memos\\note.Ogg'), true);
+    });
+
+    it('should reject other files', () => {
+        assert.strictEqual(isSupportedMediaFile('/project/notes.txt'), false);
+        assert.strictEqual(isSupportedMediaFile('/project/wav'), false);
+        assert.strictEqual(isSupportedMediaFile('/project/archive.mp3.zip'), false);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { LevelMonitor, parseAudioLevels, renderLevelBar, LEVEL_FLOOR_DB } from '../../core/AudioLevel.js';
+
+describe('AudioLevel Tests', () => {
+    describe('parseAudioLevels', () => {
+        it('should pair RMS and peak values in order', () => {
+            const output = [
+                '[Parsed_ametadata_2 @ 0x1] frame:0    pts:0       pts_time:0',
+                '[Parsed_ametadata_2 @ 0x1] lavfi.astats.Overall.RMS_level=-32.5',
+                '[Parsed_ametadata_3 @ 0x2] frame:0    pts:0       pts_time:0',
+                '[Parsed_ametadata_3 @ 0x2] lavfi.astats.Overall.Peak_level=-12.25',
+                '[Parsed_ametadata_2 @ 0x1] lavfi.astats.Overall.RMS_level=-inf',
+                '[Parsed_ametadata_3 @ 0x2] lavfi.astats.Overall.Peak_level=-inf'
+            ].join('\n');
+
+            assert.deepStrictEqual(parseAudioLevels(output), [
+                { rms: -32.5, peak: -12.25 },
+                { rms: LEVEL_FLOOR_DB, peak: LEVEL_FLOOR_DB }
+            ]);
+        });
+
+        it('should ignore an RMS value whose peak has not arrived yet', () => {
+            const levels = parseAudioLevels('lavfi.astats.Overall.RMS_level=-20.0');
+            assert.deepStrictEqual(levels, []);
+        });
+    });
+
+    describe('renderLevelBar', () => {
+        it('should map the level range to filled blocks', () => {
+            assert.strictEqual(renderLevelBar(0, 6), '██████');
+            assert.strictEqual(renderLevelBar(-30, 6), '███░░░');
+            assert.strictEqual(renderLevelBar(-80, 6), '░░░░░░');
+        });
+    });
+
+    describe('LevelMonitor', () => {
+        it('should report clipping as soon as a peak reaches full scale', () => {
+            const monitor = new LevelMonitor();
+            monitor.add({ rms: -10, peak: -0.1 }, 1000);
+
+            assert.strictEqual(monitor.getWarning(1000), 'clipping');
+        });
+
+        it('should report a too quiet input only after a full window', () => {
+            const monitor = new LevelMonitor();
+            monitor.add({ rms: -70, peak: -60 }, 0);
+            assert.strictEqual(monitor.getWarning(1000), null, 'Too early to decide');
+
+            monitor.add({ rms: -70, peak: -60 }, 3000);
+            assert.strictEqual(monitor.getWarning(3000), 'tooQuiet');
+        });
+
+        it('should not warn for a normal speech level', () => {
+            const monitor = new LevelMonitor();
+            monitor.add({ rms: -60, peak: -50 }, 0);
+            monitor.add({ rms: -25, peak: -8 }, 3500);
+
+            assert.strictEqual(monitor.getWarning(3500), null);
+        });
+    });
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { buildEditorContextPrompt, EditorContext, estimateTokens, extractIdentifiers } from '../../core/EditorContext.js';
+
+describe('EditorContext Tests', () => {
+    it('should extract symbol-like names, most frequent first', () => {
+        const code = [
+            'const userRepository = new UserRepository();',
+            'function getUserById(id) { return userRepository.find(id); }',
+            'const MAX_USERS = 10; getUserById(1); getUserById(2);'
+        ].join('\n');
+
+        assert.deepStrictEqual(extractIdentifiers(code), ['getUserById', 'userRepository', 'UserRepository', 'MAX_USERS']);
+        assert.deepStrictEqual(extractIdentifiers(code, 1), ['getUserById']);
+    });
+
+    it('should include language, selection, identifiers and the lines around the cursor', () => {
+        const context: EditorContext = {
+            languageId: 'typescript',
+            languageName: 'TypeScript',
+            fileName: 'src/users.ts',
+            selection: 'getUserById(id)',
+            lines: ['import { db } from "./db";', '', 'export function getUserById(id: string) {', '    return db.find(id);', '}'],
+            cursorIndex: 3,
+            identifiers: ['getUserById']
+        };
+
+        const prompt = buildEditorContextPrompt(context, 1000);
+
+        assert.ok(prompt.includes('src/users.ts (TypeScript)'));
+        assert.ok(prompt.includes('Selected code:\ngetUserById(id)'));
+        assert.ok(prompt.includes('Identifiers in this file: getUserById'));
+        assert.ok(prompt.includes('Code around the cursor:\nimport { db } from "./db";'));
+    });
+
+    it('should trim large files to the token budget, keeping the lines nearest the cursor', () => {
+        const lines = Array.from({ length: 2000 }, (_, index) => `const value${index} = computeValue(${index});`);
+        const context: EditorContext = {
+            languageId: 'typescript',
+            lines,
+            cursorIndex: 1000,
+            identifiers: Array.from({ length: 500 }, (_, index) => `someIdentifier${index}`)
+        };
+
+        const prompt = buildEditorContextPrompt(context, 500);
+
+        assert.ok(estimateTokens(prompt) <= 520, `prompt has ${estimateTokens(prompt)} tokens`);
+        assert.ok(prompt.includes('const value1000 ='));
+        assert.ok(prompt.includes('const value999 =') && prompt.includes('const value1001 ='));
+        assert.ok(!prompt.includes('const value0 ='));
+    });
+});
@@ -195,5 +195,20 @@ describe('FFmpegAudioRecorder - Timer Cleanup Tests', () => {
                 recorder.stopRecording();
             }, 'stopRecording should handle null process gracefully');
         });
+
+        it('should discard audio on cancel without calling onRecordingStop', () => {
+            recorder = new FFmpegAudioRecorder(mockEvents, { silenceDetection: false, maxDuration: 60 });
+            const recorderAny = recorder as any;
+            const cleanupSpy = sandbox.spy(recorderAny, 'cleanup');
+
+            recorderAny.isRecording = true;
+            recorderAny.ffmpegProcess = mockChildProcess;
+
+            recorder.cancelRecording();
+
+            assert.ok(cleanupSpy.calledOnce, 'cleanup should be called');
+            assert.strictEqual(recorder.getIsRecording(), false, 'Recorder should not be recording');
+            assert.ok(onRecordingStopSpy.notCalled, 'onRecordingStop should not be called');
+        });
     });
 }); 
\ No newline at end of file
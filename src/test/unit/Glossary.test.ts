@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import {
+    addGlossaryTerms,
+    applyGlossaryReplacements,
+    buildContinuationPrompt,
+    buildGlossaryInstructions,
+    buildWhisperPrompt,
+    extractHeadingTerms,
+    extractPackageNames,
+    Glossary,
+    isDistinctiveTerm,
+    mergeGlossaries,
+    parseGlossary,
+    rankGlossaryCandidates,
+    WHISPER_PROMPT_MAX_TOKENS
+} from '../../core/Glossary.js';
+
+describe('Glossary Tests', () => {
+    const glossary: Glossary = {
+        terms: [
+            { term: 'Kubernetes', aliases: ['cube and eighties', 'kubernetis'] },
+            { term: 'kubectl', aliases: ['cube control', 'cube'] },
+            { term: 'PaymentGateway', note: 'internal billing service' }
+        ]
+    };
+
+    it('should parse terms and reject invalid files', () => {
+        assert.deepStrictEqual(parseGlossary('{ "terms": [{ "term": " gRPC ", "aliases": ["g rpc", ""] }] }'), {
+            terms: [{ term: 'gRPC', aliases: ['g rpc'], note: undefined }]
+        });
+        assert.throws(() => parseGlossary('{ "terms": [{ "aliases": [] }] }'), /term 1 has no "term"/);
+        assert.throws(() => parseGlossary('[]'), /"terms" array/);
+        assert.throws(() => parseGlossary('{'), /not valid JSON/);
+    });
+
+    it('should keep the first definition of a term when merging folders', () => {
+        const merged = mergeGlossaries([{ terms: [{ term: 'API', note: 'first' }] }, { terms: [{ term: 'API', note: 'second' }, { term: 'SDK' }] }]);
+
+        assert.deepStrictEqual(merged.terms.map(term => term.note || term.term), ['first', 'SDK']);
+    });
+
+    it('should append as many terms to the Whisper prompt as fit the token limit', () => {
+        assert.strictEqual(buildWhisperPrompt('Technical dictation.', glossary), 'Technical dictation. Glossary: Kubernetes, kubectl, PaymentGateway.');
+        assert.strictEqual(buildWhisperPrompt('', glossary, 8), 'Glossary: Kubernetes.');
+        assert.strictEqual(buildWhisperPrompt('Keep me', { terms: [] }), 'Keep me');
+    });
+
+    it('should leave room for the previous transcript tail within the token limit', () => {
+        const manyTerms: Glossary = { terms: Array.from({ length: 100 }, (_, index) => ({ term: `Term${index}` })) };
+        const tail = 'and then we deployed the service to the staging cluster';
+
+        const prompt = buildContinuationPrompt('Technical dictation.', manyTerms, tail);
+
+        assert.ok(prompt.startsWith('Technical dictation. Glossary: Term0, Term1'), 'The glossary should start with the first terms');
+        assert.ok(prompt.endsWith(`.\n\n${tail}`), 'The tail should follow the glossary');
+        assert.ok(Math.ceil(prompt.length / 4) <= WHISPER_PROMPT_MAX_TOKENS, 'The whole prompt should fit the Whisper limit');
+        assert.strictEqual(buildContinuationPrompt('', { terms: [] }, tail), tail);
+    });
+
+    it('should describe aliases and notes for post-processing', () => {
+        const instructions = buildGlossaryInstructions(glossary)!;
+
+        assert.ok(instructions.includes('- Kubernetes (may be transcribed as "cube and eighties", "kubernetis")'));
+        assert.ok(instructions.includes('- PaymentGateway: internal billing service'));
+        assert.strictEqual(buildGlossaryInstructions({ terms: [] }), undefined);
+    });
+
+    it('should replace whole-word aliases in any case, longest first', () => {
+        const result = applyGlossaryReplacements('Run Cube  Control against cube and eighties, not cubes. Kubernetis!', glossary);
+
+        assert.strictEqual(result.text, 'Run kubectl against Kubernetes, not cubes. Kubernetes!');
+        assert.strictEqual(result.replacements, 3);
+    });
+
+    describe('Harvesting', () => {
+        it('should recognise names Whisper is likely to misspell', () => {
+            const distinctive = ['getUserById', 'PaymentGateway', 'gRPC', 'API', 'OAuth', 'whisper.cpp', 'speech-to-text', 'user_id'];
+            const plain = ['Installation', 'config', 'README', 'a'];
+
+            assert.deepStrictEqual(distinctive.filter(isDistinctiveTerm), distinctive);
+            assert.deepStrictEqual(plain.filter(isDistinctiveTerm), []);
+        });
+
+        it('should read distinctive package names and README headings', () => {
+            const packageJson = JSON.stringify({
+                name: 'billing-service',
+                dependencies: { express: '^4', '@acme/payment-api': '^1', '@acme/utils': '^1' },
+                devDependencies: { '@types/node': '^20', mocha: '^10', typescript: '^5' }
+            });
+
+            assert.deepStrictEqual(extractPackageNames(packageJson), ['billing-service', '@acme/payment-api']);
+            assert.deepStrictEqual(extractPackageNames('not json'), []);
+            assert.deepStrictEqual(extractHeadingTerms('# PaymentGateway\ntext with FooBar\n## Using the gRPC API\n### Installation'), ['PaymentGateway', 'gRPC', 'API']);
+        });
+
+        it('should count, order and skip terms already in the glossary', () => {
+            const ranked = rankGlossaryCandidates([
+                { term: 'FooBar', source: 'heading' },
+                { term: 'getUserById', source: 'symbol' },
+                { term: 'express', source: 'package' },
+                { term: 'FooBar', source: 'symbol' },
+                { term: 'kubernetis', source: 'symbol' }
+            ], glossary);
+
+            assert.deepStrictEqual(ranked, [
+                { term: 'express', source: 'package', count: 1 },
+                { term: 'FooBar', source: 'symbol', count: 2 },
+                { term: 'getUserById', source: 'symbol', count: 1 }
+            ]);
+        });
+
+        it('should add new terms to an existing file and keep its other content', () => {
+            const content = JSON.stringify({ comment: 'team terms', terms: [{ term: 'API', aliases: ['a p i'] }] });
+            const updated = JSON.parse(addGlossaryTerms(content, ['API', 'FooBar']));
+
+            assert.deepStrictEqual(updated, { comment: 'team terms', terms: [{ term: 'API', aliases: ['a p i'] }, { term: 'FooBar' }] });
+            assert.deepStrictEqual(JSON.parse(addGlossaryTerms(undefined, ['gRPC'])), { terms: [{ term: 'gRPC' }] });
+            assert.throws(() => addGlossaryTerms('[]', ['gRPC']), /"terms" array/);
+        });
+    });
+});
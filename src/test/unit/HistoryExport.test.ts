@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { exportHistoryCsv, exportHistoryJson, exportHistoryMarkdown } from '../../core/HistoryExport.js';
+import { RecordingMode, TranscriptionEntry } from '../../types/TranscriptionHistory.js';
+
+describe('HistoryExport Tests', () => {
+    const entries: TranscriptionEntry[] = [
+        {
+            id: 'entry_2',
+            text: 'Second, with "quotes"',
+            timestamp: new Date(2026, 9, 19, 14, 5).toISOString(),
+            duration: 2000,
+            language: 'en',
+            mode: RecordingMode.INSERT_AT_CURRENT_CHAT,
+            originalText: 'second with quotes',
+            isPostProcessed: true,
+            postProcessingModel: 'gpt-4.1-mini-2025-04-14'
+        },
+        {
+            id: 'entry_1',
+            text: 'First note',
+            timestamp: new Date(2026, 9, 18, 9, 30).toISOString(),
+            duration: 1000,
+            language: 'de',
+            mode: RecordingMode.INSERT_OR_CLIPBOARD
+        }
+    ];
+
+    it('should keep the version in the JSON export', () => {
+        const history = { version: '1.0.0', entries, lastUpdated: entries[0].timestamp };
+        assert.deepStrictEqual(JSON.parse(exportHistoryJson(history)), history);
+    });
+
+    it('should quote CSV values containing commas and quotes', () => {
+        const lines = exportHistoryCsv(entries).split('\r\n');
+
+        assert.strictEqual(lines[0], 'id,timestamp,language,mode,duration,isPostProcessed,postProcessingModel,text,originalText,sourceFile');
+        assert.ok(lines[1].includes(',"Second, with ""quotes""",second with quotes,'));
+        assert.ok(lines[2].endsWith(',First note,,'));
+    });
+
+    it('should write the journal oldest day first with the original text quoted', () => {
+        const markdown = exportHistoryMarkdown(entries);
+
+        assert.ok(markdown.indexOf('## 2026-10-18') < markdown.indexOf('## 2026-10-19'));
+        assert.ok(markdown.includes('### 09:30 (de)\n\nFirst note'));
+        assert.ok(markdown.includes('### 14:05 (en, post-processed with gpt-4.1-mini-2025-04-14)'));
+        assert.ok(markdown.includes('> second with quotes'));
+    });
+});
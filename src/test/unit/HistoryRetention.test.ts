@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { applyHistoryRetention, HistoryRetentionPolicy } from '../../core/HistoryRetention.js';
+import { RecordingMode, TranscriptionEntry } from '../../types/TranscriptionHistory.js';
+
+describe('HistoryRetention Tests', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.UTC(2026, 9, 19);
+
+    function entry(id: string, ageDays: number, pinned?: boolean): TranscriptionEntry {
+        return {
+            id,
+            text: id,
+            timestamp: new Date(now - ageDays * day).toISOString(),
+            duration: 0,
+            language: 'en',
+            mode: RecordingMode.INSERT_OR_CLIPBOARD,
+            pinned
+        };
+    }
+
+    const ids = (entries: TranscriptionEntry[]) => entries.map(item => item.id);
+
+    it('should keep the newest entries up to the limit', () => {
+        const policy: HistoryRetentionPolicy = { enabled: true, maxEntries: 2, maxAgeDays: 0 };
+        const result = applyHistoryRetention([entry('a', 0), entry('b', 1), entry('c', 2)], policy, now);
+
+        assert.deepStrictEqual(ids(result.kept), ['a', 'b']);
+        assert.deepStrictEqual(ids(result.removed), ['c']);
+    });
+
+    it('should remove entries older than the age limit', () => {
+        const policy: HistoryRetentionPolicy = { enabled: true, maxEntries: 100, maxAgeDays: 7 };
+        const result = applyHistoryRetention([entry('recent', 6), entry('old', 8)], policy, now);
+
+        assert.deepStrictEqual(ids(result.kept), ['recent']);
+    });
+
+    it('should exempt pinned entries from both limits', () => {
+        const policy: HistoryRetentionPolicy = { enabled: true, maxEntries: 1, maxAgeDays: 7 };
+        const result = applyHistoryRetention([entry('pinned-new', 0, true), entry('a', 1), entry('b', 2), entry('pinned-old', 30, true)], policy, now);
+
+        assert.deepStrictEqual(ids(result.kept), ['pinned-new', 'a', 'pinned-old']);
+        assert.deepStrictEqual(ids(result.removed), ['b']);
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { buildSnippet, filterByWorkspace, parseSearchQuery, searchHistory } from '../../core/HistorySearch.js';
+import { RecordingMode, TranscriptionEntry } from '../../types/TranscriptionHistory.js';
+
+describe('HistorySearch Tests', () => {
+    const now = new Date(2026, 9, 19, 12, 0, 0);
+
+    function entry(id: string, text: string, overrides: Partial<TranscriptionEntry> = {}): TranscriptionEntry {
+        return {
+            id,
+            text,
+            timestamp: now.toISOString(),
+            duration: 1000,
+            language: 'en',
+            mode: RecordingMode.INSERT_OR_CLIPBOARD,
+            ...overrides
+        };
+    }
+
+    it('should split terms, phrases and filter tokens', () => {
+        const query = parseSearchQuery('Redis "connection pool" lang:DE mode:chat processed:no date:week after:2026-10-01 colon:value');
+
+        assert.deepStrictEqual(query.terms, ['redis', 'connection pool', 'colon:value']);
+        assert.strictEqual(query.filters.language, 'de');
+        assert.strictEqual(query.filters.mode, RecordingMode.INSERT_AT_CURRENT_CHAT);
+        assert.strictEqual(query.filters.postProcessed, false);
+        assert.strictEqual(query.filters.dateRange, 'week');
+        assert.strictEqual(query.filters.after?.getDate(), 1);
+    });
+
+    it('should match every term across text, original text and re-transcriptions', () => {
+        const entries = [
+            entry('text', 'Refactor the cache layer'),
+            entry('original', 'Refactor the cash layer', { originalText: 'refactor the kubernetes cash layer' }),
+            entry('variant', 'Deploy it', { variants: [{ text: 'Deploy kubernetes operator', timestamp: now.toISOString() }] })
+        ];
+
+        assert.deepStrictEqual(searchHistory(entries, parseSearchQuery('refactor layer'), now).map(match => match.entry.id), ['text', 'original']);
+
+        const matches = searchHistory(entries, parseSearchQuery('kubernetes'), now);
+        assert.deepStrictEqual(matches.map(match => [match.entry.id, match.field]), [['original', 'originalText'], ['variant', 'variant']]);
+    });
+
+    it('should apply language, mode, post-processing and date filters', () => {
+        const yesterday = new Date(2026, 9, 18, 9, 0, 0).toISOString();
+        const entries = [
+            entry('a', 'note', { language: 'de', isPostProcessed: true }),
+            entry('b', 'note', { mode: RecordingMode.TRANSCRIBE_FILE }),
+            entry('c', 'note', { timestamp: yesterday })
+        ];
+        const ids = (input: string) => searchHistory(entries, parseSearchQuery(input), now).map(match => match.entry.id);
+
+        assert.deepStrictEqual(ids('lang:de'), ['a']);
+        assert.deepStrictEqual(ids('mode:file'), ['b']);
+        assert.deepStrictEqual(ids('processed:yes'), ['a']);
+        assert.deepStrictEqual(ids('date:yesterday'), ['c']);
+        assert.deepStrictEqual(ids('before:2026-10-18'), ['c']);
+        assert.deepStrictEqual(ids('after:2026-10-19 note'), ['a', 'b']);
+    });
+
+    it('should keep entries dictated in the open workspace folders and entries without a folder', () => {
+        const entries = [
+            entry('client-a', 'note', { workspaceFolder: 'file:///work/client-a' }),
+            entry('client-b', 'note', { workspaceFolder: 'file:///work/client-b' }),
+            entry('unknown', 'note')
+        ];
+
+        assert.deepStrictEqual(filterByWorkspace(entries, ['file:///work/client-a']).map(item => item.id), ['client-a', 'unknown']);
+        assert.deepStrictEqual(filterByWorkspace(entries, []).map(item => item.id), ['unknown']);
+    });
+
+    it('should cut a snippet around the first term and highlight every term', () => {
+        const text = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. The Redis cache keeps redis keys warm.';
+        const { snippet, highlights } = buildSnippet(text, ['redis'], 40);
+
+        assert.ok(snippet.startsWith('…'));
+        assert.strictEqual(highlights.length, 2);
+        for (const [start, end] of highlights) {
+            assert.strictEqual(snippet.slice(start, end).toLowerCase(), 'redis');
+        }
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalWhisperClient } from '../../core/LocalWhisperClient.js';
+import { filterOptionsByCapabilities } from '../../core/TranscriptionProvider.js';
+
+describe('LocalWhisperClient Output Parsing Tests', () => {
+    it('should join whisper.cpp segments into plain text', () => {
+        const result = LocalWhisperClient.parseOutput({
+            result: { language: 'en' },
+            transcription: [
+                { offsets: { from: 0, to: 1500 }, text: ' Hello world.' },
+                { offsets: { from: 1500, to: 3200 }, text: ' Second sentence.' }
+            ]
+        });
+
+        assert.strictEqual(result.text, 'Hello world. Second sentence.', 'Segments should be joined with single spaces');
+        assert.strictEqual(result.language, 'en', 'Language should be taken from result');
+        assert.strictEqual(result.duration, 3.2, 'Duration should be the end of the last segment in seconds');
+        assert.strictEqual(result.segments?.length, 2, 'Should return all segments');
+        assert.strictEqual(result.segments?.[1].start, 1.5, 'Offsets should be converted to seconds');
+    });
+
+    it('should return empty text for output without segments', () => {
+        const result = LocalWhisperClient.parseOutput({});
+
+        assert.strictEqual(result.text, '', 'Text should be empty');
+        assert.strictEqual(result.duration, undefined, 'Duration should be undefined');
+    });
+
+    it('should ignore fields with unexpected types', () => {
+        const result = LocalWhisperClient.parseOutput({
+            result: { language: 42 },
+            transcription: [
+                null,
+                { offsets: { from: '0', to: 800 }, text: ' Kept.' },
+                { offsets: 'none', text: 7 }
+            ]
+        });
+
+        assert.strictEqual(result.text, 'Kept.', 'Only string text should be used');
+        assert.strictEqual(result.language, undefined, 'Non-string language should be dropped');
+        assert.strictEqual(result.segments?.length, 2, 'Non-object entries should be skipped');
+        assert.strictEqual(result.segments?.[0].start, 0, 'Non-numeric offsets should default to 0');
+        assert.strictEqual(result.segments?.[0].end, 0.8, 'Numeric offsets should be kept');
+        assert.deepStrictEqual(LocalWhisperClient.parseOutput('text').segments, [], 'Non-object output should have no segments');
+    });
+});
+
+describe('LocalWhisperClient Provider Tests', () => {
+    it('should not request word timestamps from whisper.cpp', () => {
+        const client = new LocalWhisperClient({ modelPath: '/models/ggml-base.bin' });
+
+        const filtered = filterOptionsByCapabilities(
+            { timestamp_granularities: ['word', 'segment'] },
+            client.getCapabilities()
+        );
+
+        assert.strictEqual(client.id, 'local', 'Provider id should be "local"');
+        assert.deepStrictEqual(filtered.timestamp_granularities, ['segment'], 'Only segment granularity should be kept');
+    });
+
+    it('should report unavailable when model file is missing', async () => {
+        const availability = await LocalWhisperClient.checkLocalWhisperAvailability(process.execPath, '/nonexistent/ggml-model.bin');
+
+        assert.strictEqual(availability.available, false, 'Should be unavailable without model file');
+        assert.ok(availability.error?.includes('model not found'), 'Should mention the missing model');
+    });
+
+    it('should stop a binary that does not answer the probe in time', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-whisper-test-'));
+        const binaryPath = path.join(dir, 'whisper-cli');
+        const modelPath = path.join(dir, 'ggml-model.bin');
+        fs.writeFileSync(binaryPath, '#!/bin/sh\nexec sleep 10\n', { mode: 0o755 });
+        fs.writeFileSync(modelPath, '');
+
+        try {
+            const startTime = Date.now();
+            const availability = await LocalWhisperClient.checkLocalWhisperAvailability(binaryPath, modelPath, 200);
+
+            assert.strictEqual(availability.available, false, 'Should be unavailable when the probe times out');
+            assert.ok(availability.error?.includes('did not respond within 200ms'), 'Should mention the timeout');
+            assert.ok(Date.now() - startTime < 5000, 'Should not wait for the binary to exit');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { DEFAULT_PROFILE_NAME, findPostProcessingProfile, getPostProcessingProfiles } from '../../core/PostProcessingProfiles.js';
+import { DEFAULT_OPENAI_MODEL } from '../../core/OpenAIModels.js';
+
+describe('PostProcessingProfiles Tests', () => {
+    const base = { model: 'gpt-4o-2024-08-06', prompt: 'Improve this text:', minTextLength: 50 };
+
+    it('should build the Default profile from the settings and list the built-in ones after it', () => {
+        const profiles = getPostProcessingProfiles(base);
+
+        assert.deepStrictEqual(profiles[0], { name: DEFAULT_PROFILE_NAME, model: base.model, prompt: base.prompt, temperature: 0.1, minTextLength: 50 });
+        assert.ok(profiles.some(profile => profile.name === 'Commit message' && profile.model === base.model));
+    });
+
+    it('should give built-in profiles the default model when post-processing is off', () => {
+        const profiles = getPostProcessingProfiles({ ...base, model: 'Without post-processing' });
+
+        assert.strictEqual(profiles[0].model, 'Without post-processing');
+        assert.strictEqual(findPostProcessingProfile(profiles, 'Bullet list').model, DEFAULT_OPENAI_MODEL);
+    });
+
+    it('should replace built-in profiles by name and fill custom ones from the Default profile', () => {
+        const profiles = getPostProcessingProfiles(base, [
+            { name: 'Commit message', model: 'o3-mini-2025-01-31' },
+            { name: 'Jira ticket', prompt: 'Write a ticket:' },
+            { prompt: 'no name' }
+        ]);
+
+        const commit = findPostProcessingProfile(profiles, 'Commit message');
+        assert.strictEqual(commit.model, 'o3-mini-2025-01-31');
+        assert.ok(commit.prompt.includes('commit message'));
+        assert.deepStrictEqual(findPostProcessingProfile(profiles, 'Jira ticket'), {
+            name: 'Jira ticket', model: base.model, prompt: 'Write a ticket:', temperature: 0.1, minTextLength: 50
+        });
+        assert.strictEqual(profiles.filter(profile => profile.name === 'Commit message').length, 1);
+        assert.ok(!profiles.some(profile => profile.prompt === 'no name'));
+    });
+
+    it('should fall back to the Default profile for unknown names', () => {
+        assert.strictEqual(findPostProcessingProfile(getPostProcessingProfiles(base), 'Missing').name, DEFAULT_PROFILE_NAME);
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { RecordingClock } from '../../core/RecordingClock.js';
+
+describe('RecordingClock Tests', () => {
+    it('should return 0 before start', () => {
+        const clock = new RecordingClock();
+        assert.strictEqual(clock.getElapsed(5000), 0, 'Elapsed time should be 0');
+    });
+
+    it('should exclude paused intervals from elapsed time', () => {
+        const clock = new RecordingClock();
+        clock.start(1000);
+        clock.pause(4000);
+
+        assert.ok(clock.isPaused(), 'Clock should be paused');
+        assert.strictEqual(clock.getElapsed(9000), 3000, 'Time should not advance while paused');
+        assert.strictEqual(clock.getPausedTime(9000), 5000, 'Current pause should be counted');
+
+        clock.resume(10000);
+        assert.ok(!clock.isPaused(), 'Clock should be running');
+        assert.strictEqual(clock.getElapsed(12000), 5000, 'Only active time should be counted');
+        assert.strictEqual(clock.getPausedTime(12000), 6000, 'Paused time should be kept after resume');
+    });
+
+    it('should ignore repeated pause and resume calls', () => {
+        const clock = new RecordingClock();
+        clock.start(0);
+        clock.pause(1000);
+        clock.pause(2000);
+        clock.resume(3000);
+        clock.resume(4000);
+
+        assert.strictEqual(clock.getElapsed(5000), 3000, 'Only the first pause should be counted');
+    });
+
+    it('should clear paused time on reset and restart', () => {
+        const clock = new RecordingClock();
+        clock.start(0);
+        clock.pause(1000);
+        clock.reset();
+
+        assert.strictEqual(clock.getElapsed(2000), 0, 'Reset clock should report 0');
+
+        clock.start(3000);
+        assert.strictEqual(clock.getElapsed(4000), 1000, 'Restarted clock should not keep old pauses');
+    });
+});
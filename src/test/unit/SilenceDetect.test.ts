@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { buildSilenceDetectFilter, parseSilenceEvents } from '../../core/SilenceDetect.js';
+
+describe('SilenceDetect Tests', () => {
+    it('should build the silencedetect filter', () => {
+        assert.strictEqual(buildSilenceDetectFilter(-50, 0.5), 'silencedetect=noise=-50dB:d=0.5');
+    });
+
+    it('should parse silence events in order', () => {
+        const output = [
+            '[silencedetect @ 0x7f8] silence_start: 1.504',
+            'size=      64KiB time=00:00:02.04 bitrate= 256.0kbits/s speed=   1x',
+            '[silencedetect @ 0x7f8] silence_end: 3.25 | silence_duration: 1.746',
+            '[silencedetect @ 0x7f8] silence_start: 5'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseSilenceEvents(output), [
+            { type: 'start', time: 1.504 },
+            { type: 'end', time: 3.25 },
+            { type: 'start', time: 5 }
+        ]);
+    });
+
+    it('should clamp negative start times reported at the beginning of a stream', () => {
+        const events = parseSilenceEvents('[silencedetect @ 0x1] silence_start: -0.0213');
+        assert.deepStrictEqual(events, [{ type: 'start', time: 0 }]);
+    });
+
+    it('should return no events for unrelated output', () => {
+        assert.deepStrictEqual(parseSilenceEvents('Stream #0:0: Audio: pcm_s16le, 16000 Hz, mono'), []);
+    });
+});
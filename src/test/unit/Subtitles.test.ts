@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import {
+    formatSrt,
+    formatTimestamp,
+    formatTimestampedMarkdown,
+    formatVtt,
+    mergeChunkSegments,
+    toTranscriptSegments
+} from '../../core/Subtitles.js';
+import { SegmentTimestamp } from '../../core/TranscriptionProvider.js';
+
+describe('Subtitles Tests', () => {
+    const segments = [
+        { start: 0, end: 2.5, text: 'Hello and welcome.' },
+        { start: 2.5, end: 3661.042, text: 'Today we look at the debugger.' }
+    ];
+
+    it('should format timestamps with and without milliseconds', () => {
+        assert.strictEqual(formatTimestamp(3661.042, ','), '01:01:01,042');
+        assert.strictEqual(formatTimestamp(2.5, '.'), '00:00:02.500');
+        assert.strictEqual(formatTimestamp(65.9, null), '00:01:05');
+    });
+
+    it('should format numbered SRT cues', () => {
+        assert.strictEqual(formatSrt(segments), [
+            '1',
+            '00:00:00,000 --> 00:00:02,500',
+            'Hello and welcome.',
+            '',
+            '2',
+            '00:00:02,500 --> 01:01:01,042',
+            'Today we look at the debugger.',
+            ''
+        ].join('\n'));
+    });
+
+    it('should format VTT with a header and dot milliseconds', () => {
+        assert.strictEqual(formatVtt(segments.slice(0, 1)), 'WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nHello and welcome.\n');
+    });
+
+    it('should format timestamped Markdown with an optional title', () => {
+        assert.strictEqual(
+            formatTimestampedMarkdown(segments.slice(0, 1), 'demo.mp4'),
+            '# demo.mp4\n\n**[00:00:00]** Hello and welcome.\n'
+        );
+    });
+
+    it('should keep only non-empty provider segments', () => {
+        const raw = [
+            { id: 0, start: 0, end: 1, text: '  Hi ' },
+            { id: 1, start: 1, end: 2, text: ' ' }
+        ] as SegmentTimestamp[];
+
+        assert.deepStrictEqual(toTranscriptSegments(raw), [{ start: 0, end: 1, text: 'Hi' }]);
+    });
+
+    it('should shift chunk segments and drop the overlap with the previous chunk', () => {
+        const merged = mergeChunkSegments([
+            { offset: 0, segments: [{ start: 0, end: 4, text: 'first' }, { start: 4, end: 10, text: 'second' }] },
+            { offset: 8, segments: [{ start: 0, end: 2, text: 'repeated' }, { start: 1.5, end: 5, text: 'third' }] }
+        ]);
+
+        assert.deepStrictEqual(merged, [
+            { start: 0, end: 4, text: 'first' },
+            { start: 4, end: 10, text: 'second' },
+            { start: 10, end: 13, text: 'third' }
+        ]);
+    });
+});
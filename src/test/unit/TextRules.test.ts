@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { applySpokenPunctuation, applyTextRules, TextRule, validateTextRules } from '../../core/TextRules.js';
+
+describe('Text Rules Tests', () => {
+    it('should replace literal words, whole words and any case by default', () => {
+        const rules: TextRule[] = [{ type: 'literal', find: 'java script', replace: 'JavaScript' }];
+        assert.strictEqual(applyTextRules('I like Java Script and java scripting', rules).text, 'I like JavaScript and java scripting');
+
+        const exact: TextRule[] = [{ type: 'literal', find: 'api', replace: 'API', caseSensitive: true, wholeWord: false }];
+        assert.strictEqual(applyTextRules('api and rapid Api', exact).text, 'API and rAPId Api');
+    });
+
+    it('should not treat literal replacements as patterns', () => {
+        const rules: TextRule[] = [{ type: 'literal', find: 'dollar', replace: '$1' }];
+        assert.strictEqual(applyTextRules('one dollar', rules).text, 'one $1');
+    });
+
+    it('should replace regular expressions with groups and line breaks', () => {
+        const rules: TextRule[] = [
+            { type: 'regex', find: 'todo (\\w+)', replace: 'TODO($1):', flags: 'gi' },
+            { type: 'regex', find: '\\s*next item\\s*', replace: '\\n- ' }
+        ];
+        assert.strictEqual(applyTextRules('Todo alice fix it next item ship', rules).text, 'TODO(alice): fix it\n- ship');
+    });
+
+    it('should apply casing rules', () => {
+        const text = 'first sentence. second one? new line\nthird';
+        assert.strictEqual(applyTextRules(text, [{ type: 'case', case: 'sentence' }]).text, 'First sentence. Second one? New line\nThird');
+        assert.strictEqual(applyTextRules("don't stop", [{ type: 'case', case: 'title' }]).text, "Don't Stop");
+        assert.strictEqual(applyTextRules('Mixed Case', [{ type: 'case', case: 'upper' }]).text, 'MIXED CASE');
+        assert.strictEqual(applyTextRules('Mixed Case', [{ type: 'case', case: 'lower' }]).text, 'mixed case');
+    });
+
+    it('should map spoken punctuation and tidy the spacing', () => {
+        assert.strictEqual(applySpokenPunctuation('hello comma world period'), 'hello, world.');
+        assert.strictEqual(applySpokenPunctuation('Call foo open paren bar close paren now.'), 'Call foo (bar) now.');
+        assert.strictEqual(applySpokenPunctuation('First line. New line. Second line new paragraph third'), 'First line\nSecond line\n\nthird');
+        assert.strictEqual(applySpokenPunctuation('Is it done question mark yes'), 'Is it done? yes');
+    });
+
+    it('should drop the punctuation Whisper adds around spoken punctuation', () => {
+        assert.strictEqual(applySpokenPunctuation('Hello, comma, world.'), 'Hello, world.');
+        assert.strictEqual(applySpokenPunctuation('Version 3.14 is out, period.'), 'Version 3.14 is out.');
+    });
+
+    it('should not match spoken punctuation inside words', () => {
+        assert.strictEqual(applySpokenPunctuation('periodic commands'), 'periodic commands');
+    });
+
+    it('should apply rules in order and report which changed the text', () => {
+        const rules: TextRule[] = [
+            { type: 'spokenPunctuation' },
+            { type: 'literal', find: 'foo', replace: 'bar', description: 'foo to bar' },
+            { type: 'case', case: 'sentence' }
+        ];
+        const result = applyTextRules('foo comma baz', rules);
+
+        assert.strictEqual(result.text, 'Bar, baz');
+        assert.deepStrictEqual(result.steps, [
+            { index: 0, label: 'spoken punctuation', changed: true },
+            { index: 1, label: 'foo to bar', changed: true },
+            { index: 2, label: 'sentence case', changed: true }
+        ]);
+
+        const reversed = applyTextRules('foo comma baz', [rules[2], rules[1], rules[0]]);
+        assert.strictEqual(reversed.text, 'bar, baz');
+    });
+
+    it('should skip disabled and invalid rules', () => {
+        const rules: TextRule[] = [
+            { type: 'literal', find: 'a', replace: 'b', enabled: false },
+            { type: 'regex', find: '(', replace: 'x' },
+            { type: 'literal', replace: 'nothing' },
+            { type: 'literal', find: 'c', replace: 'd' }
+        ];
+        const result = applyTextRules('a c', rules);
+
+        assert.strictEqual(result.text, 'a d');
+        assert.deepStrictEqual(result.steps.map(step => step.index), [3]);
+    });
+
+    it('should validate rules', () => {
+        const errors = validateTextRules([
+            { type: 'literal', find: 'ok', replace: 'fine' },
+            { type: 'regex', find: '[' },
+            { type: 'case', case: 'shouting' as any },
+            { type: 'unknown' as any },
+            { type: 'literal' }
+        ]);
+
+        assert.strictEqual(errors.length, 4);
+        assert.match(errors[0], /^Text rule 2: /);
+        assert.match(errors[1], /^Text rule 3: "case" must be one of sentence, lower, upper, title/);
+        assert.match(errors[2], /^Text rule 4: unknown type unknown/);
+        assert.match(errors[3], /^Text rule 5: "find" is required/);
+    });
+});
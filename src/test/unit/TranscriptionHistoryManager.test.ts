@@ -0,0 +1,361 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { TranscriptionHistoryManager } from '../../core/TranscriptionHistoryManager.js';
+import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { RecordingMode, TRANSCRIPTION_HISTORY_CONSTANTS } from '../../types/TranscriptionHistory.js';
+import { mockVscode } from '../mocks/vscodeMocks.js';
+
+// In-memory globalState / workspaceState
+function createMemento(initial: Record<string, unknown> = {}) {
+    const values = new Map(Object.entries(initial));
+    return {
+        get: (key: string) => values.get(key),
+        update: sinon.stub().callsFake(async (key: string, value: unknown) => {
+            values.set(key, value);
+        })
+    };
+}
+
+describe('TranscriptionHistoryManager Tests', () => {
+    let storageDir: string;
+    let context: { globalStorageUri: { fsPath: string }; globalState: ReturnType<typeof createMemento>; workspaceState: ReturnType<typeof createMemento> };
+    let manager: TranscriptionHistoryManager;
+
+    async function createManager(): Promise<TranscriptionHistoryManager> {
+        const errorHandler = { handleError: sinon.stub().resolves() } as unknown as ErrorHandler;
+        const created = new TranscriptionHistoryManager(context as any, errorHandler);
+        await created.initialize();
+        return created;
+    }
+
+    beforeEach(async () => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+        context = {
+            globalStorageUri: { fsPath: storageDir },
+            globalState: createMemento(),
+            workspaceState: createMemento()
+        };
+        manager = await createManager();
+    });
+
+    afterEach(() => {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    function readHistoryFile(): { entries: Array<{ id: string; text: string; variants?: Array<{ text: string }> }> } {
+        return JSON.parse(fs.readFileSync(path.join(storageDir, TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_FILE), 'utf8'));
+    }
+
+    async function addEntry(text: string, originalText?: string): Promise<string> {
+        const result = await manager.addEntry({
+            text,
+            duration: 1000,
+            language: 'en',
+            mode: RecordingMode.INSERT_OR_CLIPBOARD,
+            originalText,
+            isPostProcessed: !!originalText
+        });
+        return result.data.entry.id;
+    }
+
+    describe('Editing', () => {
+        it('should keep the previous text as a revision', async () => {
+            const id = await addEntry('Hello wrld', 'hello wrld');
+
+            const result = await manager.updateEntry(id, '  Hello world  ');
+            const entry = (await manager.getEntry(id))!;
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(result.data.changed, true);
+            assert.strictEqual(entry.text, 'Hello world');
+            assert.strictEqual(entry.originalText, 'hello wrld', 'The Whisper text is kept');
+            assert.ok(entry.editedAt);
+            assert.strictEqual(entry.variants!.length, 1);
+            assert.strictEqual(entry.variants![0].kind, 'revision');
+            assert.strictEqual(entry.variants![0].text, 'Hello wrld');
+            assert.strictEqual(entry.variants![0].timestamp, entry.timestamp);
+        });
+
+        it('should date later revisions by the previous edit', async () => {
+            const id = await addEntry('first');
+            await manager.updateEntry(id, 'second');
+            const editedAt = (await manager.getEntry(id))!.editedAt;
+
+            await manager.updateEntry(id, 'third');
+            const entry = (await manager.getEntry(id))!;
+
+            assert.deepStrictEqual(entry.variants!.map(variant => variant.text), ['first', 'second']);
+            assert.strictEqual(entry.variants![1].timestamp, editedAt);
+        });
+
+        it('should keep the text as the original when the entry was not post-processed', async () => {
+            const id = await addEntry('raw whisper text');
+
+            await manager.updateEntry(id, 'Corrected text');
+
+            assert.strictEqual((await manager.getEntry(id))!.originalText, 'raw whisper text');
+        });
+
+        it('should refuse empty text and ignore unchanged text', async () => {
+            const id = await addEntry('Same text');
+
+            const empty = await manager.updateEntry(id, '   ');
+            const unchanged = await manager.updateEntry(id, 'Same text\n');
+            const entry = (await manager.getEntry(id))!;
+
+            assert.strictEqual(empty.success, false);
+            assert.match(empty.error!, /cannot be empty/);
+            assert.strictEqual(unchanged.success, true);
+            assert.strictEqual(unchanged.data.changed, false);
+            assert.strictEqual(entry.text, 'Same text');
+            assert.strictEqual(entry.variants, undefined);
+            assert.strictEqual(entry.editedAt, undefined);
+        });
+
+        it('should report unknown entries', async () => {
+            const result = await manager.updateEntry('missing', 'text');
+
+            assert.strictEqual(result.success, false);
+            assert.match(result.error!, /not found/);
+        });
+
+        it('should save edits to the history file', async () => {
+            const id = await addEntry('before');
+            await manager.updateEntry(id, 'after');
+
+            const saved = readHistoryFile();
+            assert.strictEqual(saved.entries[0].text, 'after');
+            assert.strictEqual(saved.entries[0].variants![0].text, 'before');
+        });
+    });
+
+    describe('Variants', () => {
+        it('should add a re-transcription next to the entry text', async () => {
+            const id = await addEntry('original text');
+
+            const result = await manager.addVariant(id, {
+                text: '  re-transcribed text ',
+                timestamp: '2024-01-01T00:00:00.000Z',
+                model: 'whisper-1',
+                language: 'de',
+                prompt: 'Glossary'
+            });
+            const entry = (await manager.getEntry(id))!;
+
+            assert.strictEqual(result.success, true);
+            assert.deepStrictEqual(result.data, { entryId: id, variantCount: 1 });
+            assert.strictEqual(entry.text, 'original text', 'The entry text is not replaced');
+            assert.deepStrictEqual(entry.variants, [{
+                text: 're-transcribed text',
+                timestamp: '2024-01-01T00:00:00.000Z',
+                model: 'whisper-1',
+                language: 'de',
+                prompt: 'Glossary'
+            }]);
+        });
+
+        it('should append variants in order and save them', async () => {
+            const id = await addEntry('original text');
+            await manager.addVariant(id, { text: 'first', timestamp: '2024-01-01T00:00:00.000Z' });
+            const result = await manager.addVariant(id, { text: 'second', timestamp: '2024-01-02T00:00:00.000Z' });
+
+            const saved = readHistoryFile();
+            assert.strictEqual(result.data.variantCount, 2);
+            assert.deepStrictEqual(saved.entries[0].variants!.map(variant => variant.text), ['first', 'second']);
+        });
+
+        it('should report unknown entries', async () => {
+            const result = await manager.addVariant('missing', { text: 'text', timestamp: '2024-01-01T00:00:00.000Z' });
+
+            assert.strictEqual(result.success, false);
+            assert.match(result.error!, /not found/);
+        });
+    });
+
+    describe('Importing', () => {
+        function exported(id: string, text: string, timestamp: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+            return { id, text, timestamp, duration: 1000, language: 'en', mode: RecordingMode.INSERT_OR_CLIPBOARD, ...overrides };
+        }
+
+        it('should merge entries by ID, newest first, and drop audio references', async () => {
+            const existingId = await addEntry('existing');
+            const result = await manager.importHistory({
+                version: TRANSCRIPTION_HISTORY_CONSTANTS.CURRENT_VERSION,
+                entries: [
+                    exported('imported_new', 'from the future', '2999-01-01T00:00:00.000Z', { audioFile: 'recording.ogg' }),
+                    exported('imported_old', 'from the past', '2000-01-01T00:00:00.000Z')
+                ],
+                lastUpdated: '2000-01-01T00:00:00.000Z'
+            });
+            const history = await manager.getHistory();
+
+            assert.strictEqual(result.success, true);
+            assert.deepStrictEqual(result.data, { added: 2, skipped: 0, dropped: 0 });
+            assert.deepStrictEqual(history.entries.map(entry => entry.id), ['imported_new', existingId, 'imported_old']);
+            assert.strictEqual(history.entries[0].audioFile, undefined);
+        });
+
+        it('should keep existing entries when IDs are already present', async () => {
+            const existingId = await addEntry('local text');
+            const existing = (await manager.getEntry(existingId))!;
+
+            const result = await manager.importHistory({
+                version: TRANSCRIPTION_HISTORY_CONSTANTS.CURRENT_VERSION,
+                entries: [exported(existingId, 'imported text', existing.timestamp), exported('other', 'other', existing.timestamp)],
+                lastUpdated: existing.timestamp
+            });
+
+            assert.deepStrictEqual(result.data, { added: 1, skipped: 1, dropped: 0 });
+            assert.strictEqual((await manager.getEntry(existingId))!.text, 'local text');
+        });
+
+        it('should count only imported entries kept by the history limit', async () => {
+            await manager.setRetentionPolicy({ enabled: true, maxEntries: 2, maxAgeDays: 0 });
+            await addEntry('existing');
+
+            const result = await manager.importHistory({
+                version: TRANSCRIPTION_HISTORY_CONSTANTS.CURRENT_VERSION,
+                entries: [
+                    exported('newer', 'newer', '2999-01-01T00:00:00.000Z'),
+                    exported('older', 'older', '2000-01-01T00:00:00.000Z')
+                ],
+                lastUpdated: '2000-01-01T00:00:00.000Z'
+            });
+
+            assert.deepStrictEqual(result.data, { added: 1, skipped: 0, dropped: 1 });
+            assert.strictEqual(await manager.getEntry('older'), null);
+        });
+
+        it('should migrate legacy exports', async () => {
+            const fromArray = await manager.importHistory([exported('legacy_array', 'array format', '2020-01-01T00:00:00.000Z')]);
+            const withoutVersion = await manager.importHistory({ entries: [{ id: 'legacy_object', text: 'unversioned format' }] });
+
+            assert.strictEqual(fromArray.data.added, 1);
+            assert.strictEqual(withoutVersion.data.added, 1);
+            assert.strictEqual((await manager.getEntry('legacy_array'))!.text, 'array format');
+
+            const unversioned = (await manager.getEntry('legacy_object'))!;
+            assert.strictEqual(unversioned.language, 'auto');
+            assert.strictEqual(unversioned.mode, RecordingMode.INSERT_OR_CLIPBOARD);
+        });
+
+        it('should reject data that is not an exported history', async () => {
+            for (const data of [null, 'text', 42, { version: '1.0.0' }, { entries: 'none' }]) {
+                const result = await manager.importHistory(data);
+                assert.strictEqual(result.success, false);
+                assert.match(result.error!, /not an exported transcription history/);
+            }
+        });
+
+        it('should skip malformed entries', async () => {
+            const result = await manager.importHistory({
+                version: TRANSCRIPTION_HISTORY_CONSTANTS.CURRENT_VERSION,
+                entries: [null, { id: 7, text: 'numeric id' }, exported('valid', 'valid', '2020-01-01T00:00:00.000Z')],
+                lastUpdated: '2020-01-01T00:00:00.000Z'
+            });
+
+            assert.strictEqual(result.data.added, 1);
+            assert.deepStrictEqual((await manager.getHistory()).entries.map(entry => entry.id), ['valid']);
+        });
+    });
+
+    describe('Storage', () => {
+        const legacyHistory = {
+            version: TRANSCRIPTION_HISTORY_CONSTANTS.CURRENT_VERSION,
+            entries: [{ id: 'legacy', text: 'stored in globalState', timestamp: '2020-01-01T00:00:00.000Z', duration: 1000, language: 'en', mode: RecordingMode.INSERT_OR_CLIPBOARD }],
+            lastUpdated: '2020-01-01T00:00:00.000Z'
+        };
+
+        afterEach(() => {
+            delete (mockVscode.workspace as { workspaceFolders?: unknown }).workspaceFolders;
+        });
+
+        it('should move the history out of globalState into the history file', async () => {
+            context.globalState = createMemento({ [TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY]: legacyHistory });
+
+            const migrated = await createManager();
+
+            assert.strictEqual((await migrated.getEntry('legacy'))!.text, 'stored in globalState');
+            assert.deepStrictEqual(readHistoryFile().entries.map(entry => entry.id), ['legacy']);
+            assert.strictEqual(context.globalState.get(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY), undefined);
+        });
+
+        it('should keep the globalState history when the file cannot be written', async () => {
+            // A path below a regular file can't be created
+            const blocker = path.join(storageDir, 'not-a-directory');
+            fs.writeFileSync(blocker, '');
+            context.globalStorageUri = { fsPath: path.join(blocker, 'storage') };
+            context.globalState = createMemento({ [TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY]: legacyHistory });
+
+            const migrated = await createManager();
+
+            assert.strictEqual((await migrated.getEntry('legacy'))!.text, 'stored in globalState');
+            assert.deepStrictEqual(context.globalState.get(TRANSCRIPTION_HISTORY_CONSTANTS.STORAGE_KEY), legacyHistory);
+            assert.ok(context.globalState.update.notCalled);
+        });
+
+        it('should keep workspace entries in workspaceState and reload the other store on switch', async () => {
+            (mockVscode.workspace as { workspaceFolders?: unknown }).workspaceFolders = [{ name: 'client-a', uri: { fsPath: '/work/client-a' } }];
+            const globalId = await addEntry('global entry');
+
+            await manager.setStorageScope('workspace');
+            assert.strictEqual(await manager.getEntriesCount(), 0, 'The workspace history starts empty');
+
+            const workspaceId = await addEntry('workspace entry');
+            const stored = context.workspaceState.get(TRANSCRIPTION_HISTORY_CONSTANTS.WORKSPACE_STORAGE_KEY) as { entries: Array<{ id: string }> };
+            assert.deepStrictEqual(stored.entries.map(entry => entry.id), [workspaceId]);
+            assert.deepStrictEqual(readHistoryFile().entries.map(entry => entry.id), [globalId], 'The global file is not written');
+
+            await manager.setStorageScope('global');
+            assert.deepStrictEqual((await manager.getHistory()).entries.map(entry => entry.id), [globalId]);
+
+            await manager.setStorageScope('workspace');
+            assert.deepStrictEqual((await manager.getHistory()).entries.map(entry => entry.id), [workspaceId]);
+        });
+
+        it('should use the global file in windows without a workspace', async () => {
+            await manager.setStorageScope('workspace');
+            const id = await addEntry('no workspace open');
+
+            assert.deepStrictEqual(readHistoryFile().entries.map(entry => entry.id), [id]);
+            assert.ok(context.workspaceState.update.notCalled);
+        });
+    });
+
+    describe('Pinning and limits', () => {
+        it('should keep pinned entries when the limit is lowered', async () => {
+            const pinnedId = await addEntry('pinned');
+            await addEntry('second');
+            await addEntry('newest');
+            await manager.setPinned(pinnedId, true);
+
+            const result = await manager.setRetentionPolicy({ enabled: true, maxEntries: 1, maxAgeDays: 0 });
+
+            assert.strictEqual(result.success, true);
+            assert.deepStrictEqual((await manager.getHistory()).entries.map(entry => entry.text), ['newest', 'pinned']);
+            assert.deepStrictEqual(readHistoryFile().entries.map(entry => entry.text), ['newest', 'pinned']);
+        });
+
+        it('should prune an entry again once it is unpinned', async () => {
+            const pinnedId = await addEntry('pinned');
+            await addEntry('newest');
+            await manager.setPinned(pinnedId, true);
+            await manager.setRetentionPolicy({ enabled: true, maxEntries: 1, maxAgeDays: 0 });
+
+            await manager.setPinned(pinnedId, false);
+
+            assert.strictEqual(await manager.getEntry(pinnedId), null);
+            assert.deepStrictEqual(readHistoryFile().entries.map(entry => entry.text), ['newest']);
+        });
+
+        it('should report unknown entries when pinning', async () => {
+            const result = await manager.setPinned('missing', true);
+
+            assert.strictEqual(result.success, false);
+            assert.match(result.error!, /not found/);
+        });
+    });
+});
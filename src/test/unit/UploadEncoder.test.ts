@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { buildUploadEncoderArgs, UploadEncoder } from '../../core/UploadEncoder.js';
+
+describe('UploadEncoder Tests', () => {
+    it('should build Opus arguments tuned for speech', () => {
+        const args = buildUploadEncoderArgs('/tmp/input.wav', '/tmp/upload.ogg', { codec: 'opus', bitrate: '24k' });
+
+        assert.deepStrictEqual(args, [
+            '-hide_banner', '-nostats', '-y', '-i', '/tmp/input.wav',
+            '-ac', '1', '-c:a', 'libopus', '-b:a', '24k',
+            '-application', 'voip',
+            '/tmp/upload.ogg'
+        ]);
+    });
+
+    it('should build MP3 arguments without Opus options', () => {
+        const args = buildUploadEncoderArgs('/tmp/input.wav', '/tmp/upload.mp3', { codec: 'mp3', bitrate: '64k' });
+
+        assert.deepStrictEqual(args.slice(5), ['-ac', '1', '-c:a', 'libmp3lame', '-b:a', '64k', '/tmp/upload.mp3']);
+        assert.ok(!args.includes('-application'), 'Opus application should not be passed to the MP3 encoder');
+    });
+
+    it('should refuse to build arguments without a codec', () => {
+        assert.throws(() => buildUploadEncoderArgs('/tmp/input.wav', '/tmp/upload', { codec: 'none', bitrate: '32k' }), /No encoder/);
+    });
+
+    it('should return the original audio when encoding is disabled', async () => {
+        const audioBlob = new Blob([Buffer.from('RIFF')], { type: 'audio/wav' });
+
+        const result = await new UploadEncoder({ codec: 'none', bitrate: '32k' }).encode(audioBlob);
+
+        assert.strictEqual(result, audioBlob);
+    });
+
+    it('should fall back to the original audio when encoding fails', async () => {
+        // Not audio, so FFmpeg fails whether or not it is installed
+        const audioBlob = new Blob([Buffer.from('not audio data')], { type: 'audio/wav' }) as Blob & { name?: string };
+        audioBlob.name = 'recording.wav';
+
+        const result = await new UploadEncoder({ codec: 'opus', bitrate: '32k' }).encode(audioBlob);
+
+        assert.strictEqual(result, audioBlob);
+    });
+});
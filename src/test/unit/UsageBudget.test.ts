@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { checkBudget, hasBudgetLimits, UsageBudget } from '../../core/UsageBudget.js';
+import { addUsage, DailyUsage } from '../../core/UsageStats.js';
+
+describe('UsageBudget Tests', () => {
+    const now = new Date(2026, 9, 19, 12, 0, 0);
+    const prices = {
+        'whisper-1': { perMinute: 0.01 },
+        'o1-2024-12-17': { inputPerMillion: 15, outputPerMillion: 60 }
+    };
+    const noLimits: UsageBudget = { dailyCostLimit: 0, monthlyCostLimit: 0, dailyMinutesLimit: 0, monthlyMinutesLimit: 0, warningPercent: 80 };
+
+    function usage(): DailyUsage[] {
+        let days: DailyUsage[] = [];
+        // 10 minutes on the 1st, 5 minutes and an expensive post-processing call today
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: true, audioSeconds: 600 }, new Date(2026, 9, 1));
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: true, audioSeconds: 300 }, now);
+        days = addUsage(days, { kind: 'postProcessing', model: 'o1-2024-12-17', success: true, promptTokens: 20000, completionTokens: 10000 }, now);
+        return days;
+    }
+
+    it('should report ok when no limit is set', () => {
+        assert.strictEqual(hasBudgetLimits(noLimits), false);
+        assert.deepStrictEqual(checkBudget(usage(), prices, noLimits, now), { level: 'ok', ratio: 0 });
+    });
+
+    it('should warn near a limit and name the closest one', () => {
+        // Month so far: 15 minutes, $0.15 transcription + $0.90 post-processing
+        const status = checkBudget(usage(), prices, { ...noLimits, monthlyCostLimit: 1.2, monthlyMinutesLimit: 60 }, now);
+
+        assert.strictEqual(status.level, 'warning');
+        assert.strictEqual(status.description, 'monthly spend $1.05 of $1.20');
+    });
+
+    it('should report exceeded at the limit', () => {
+        const status = checkBudget(usage(), prices, { ...noLimits, dailyMinutesLimit: 5 }, now);
+
+        assert.strictEqual(status.level, 'exceeded');
+        assert.strictEqual(status.description, 'daily audio 5.0 min of 5.0 min');
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { addUsage, DailyUsage, estimateCost, getMonthRange, summarizeUsage } from '../../core/UsageStats.js';
+import { DEFAULT_MODEL_PRICES } from '../../core/OpenAIModels.js';
+
+describe('UsageStats Tests', () => {
+    const day1 = new Date(2026, 9, 18, 10, 0, 0);
+    const day2 = new Date(2026, 9, 19, 10, 0, 0);
+
+    it('should accumulate requests, failures, audio and tokens per day and model', () => {
+        let days: DailyUsage[] = [];
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: true, audioSeconds: 30 }, day2);
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: false }, day2);
+        days = addUsage(days, { kind: 'postProcessing', model: 'gpt-4.1-mini-2025-04-14', success: true, promptTokens: 100, completionTokens: 50 }, day1);
+
+        assert.deepStrictEqual(days.map(day => day.date), ['2026-10-18', '2026-10-19']);
+        assert.deepStrictEqual(days[1].transcription['whisper-1'], { requests: 2, failures: 1, audioSeconds: 30, promptTokens: 0, completionTokens: 0 });
+        assert.strictEqual(days[0].postProcessing['gpt-4.1-mini-2025-04-14'].completionTokens, 50);
+    });
+
+    it('should estimate cost per audio minute and per million tokens', () => {
+        const usage = { requests: 1, failures: 0, audioSeconds: 120, promptTokens: 1000000, completionTokens: 500000 };
+
+        assert.strictEqual(Number(estimateCost(usage, { perMinute: 0.006 }).toFixed(6)), 0.012);
+        assert.strictEqual(Number(estimateCost(usage, { inputPerMillion: 0.4, outputPerMillion: 1.6 }).toFixed(6)), 1.2);
+        assert.strictEqual(estimateCost(usage, undefined), 0, 'Unknown models should cost nothing');
+    });
+
+    it('should summarize a date range with a per-model breakdown', () => {
+        let days: DailyUsage[] = [];
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: true, audioSeconds: 60 }, day1);
+        days = addUsage(days, { kind: 'transcription', model: 'whisper-1', success: true, audioSeconds: 60 }, day2);
+        days = addUsage(days, { kind: 'transcription', model: 'local/base', success: true, audioSeconds: 600 }, day2);
+
+        const all = summarizeUsage(days, DEFAULT_MODEL_PRICES);
+        assert.strictEqual(all.requests, 3);
+        assert.strictEqual(all.audioSeconds, 720);
+        assert.strictEqual(Number(all.cost.toFixed(3)), 0.012);
+        assert.strictEqual(all.byModel['transcription:local/base'].cost, 0);
+
+        const today = summarizeUsage(days, DEFAULT_MODEL_PRICES, '2026-10-19', '2026-10-19');
+        assert.strictEqual(today.byModel['transcription:whisper-1'].requests, 1);
+    });
+
+    it('should compute month boundaries', () => {
+        assert.deepStrictEqual(getMonthRange(day2), { from: '2026-10-01', to: '2026-10-31' });
+        assert.deepStrictEqual(getMonthRange(day2, -1), { from: '2026-09-01', to: '2026-09-30' });
+    });
+});
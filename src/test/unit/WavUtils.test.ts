@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { findWavDataOffset, createWavBuffer, getWavDuration } from '../../core/WavUtils.js';
+
+describe('WavUtils Tests', () => {
+    it('should find PCM data in a generated WAV buffer', () => {
+        const pcm = Buffer.from([1, 2, 3, 4]);
+        const wav = createWavBuffer(pcm, 16000, 1);
+
+        assert.strictEqual(wav.length, 48, 'WAV should have a 44 byte header');
+        assert.strictEqual(findWavDataOffset(wav), 44, 'Data should start after the header');
+        assert.strictEqual(wav.readUInt32LE(24), 16000, 'Sample rate should be written');
+        assert.strictEqual(wav.readUInt32LE(40), 4, 'Data size should match PCM length');
+    });
+
+    it('should skip extra chunks written before data', () => {
+        const wav = createWavBuffer(Buffer.from([1, 2]), 16000, 1);
+        const list = Buffer.concat([Buffer.from('LIST', 'ascii'), Buffer.from([5, 0, 0, 0]), Buffer.from('INFOx', 'ascii'), Buffer.from([0])]);
+        const withList = Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)]);
+
+        assert.strictEqual(findWavDataOffset(withList), 44 + list.length, 'Odd-sized chunk should be padded');
+    });
+
+    it('should return null for non-WAV data', () => {
+        assert.strictEqual(findWavDataOffset(Buffer.from('not a wav file')), null, 'Should not find data offset');
+    });
+
+    it('should not compute a duration for non-WAV data', () => {
+        assert.strictEqual(getWavDuration(Buffer.from('not a wav file')), null, 'Should not compute a duration');
+    });
+
+    it('should compute the duration from the byte rate and PCM length', () => {
+        const wav = createWavBuffer(Buffer.alloc(16000 * 2 * 3), 16000, 1);
+
+        assert.strictEqual(getWavDuration(wav), 3, '3 seconds of 16 kHz mono 16-bit audio');
+        assert.strictEqual(getWavDuration(wav.subarray(0, 64), wav.length), 3, 'Only the header needs to be read');
+    });
+});
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import { WhisperClient } from '../../core/WhisperClient.js';
+import { filterOptionsByCapabilities } from '../../core/TranscriptionProvider.js';
 
 describe('WhisperClient Language Settings Tests', () => {
     let whisperClient: WhisperClient;
@@ -310,4 +311,88 @@ describe('WhisperClient Error Handling Tests', () => {
             assert.ok(error.message.includes('timeout') || error.message.includes('aborted'), 'Should include timeout error message');
         }
     });
-}); 
\ No newline at end of file
+}); 
+describe('WhisperClient Provider Tests', () => {
+    it('should expose OpenAI provider identity and capabilities', () => {
+        const whisperClient = new WhisperClient({
+            apiKey: 'sk-1234567890123456789012345678901234567890123456'
+        });
+
+        const capabilities = whisperClient.getCapabilities();
+        assert.strictEqual(whisperClient.id, 'openai', 'Provider id should be "openai"');
+        assert.strictEqual(capabilities.prompt, true, 'Should support prompt');
+        assert.strictEqual(capabilities.wordTimestamps, true, 'Should support word timestamps');
+        assert.strictEqual(capabilities.maxFileSize, 25 * 1024 * 1024, 'Max file size should be 25MB');
+    });
+
+    it('should report unavailable when API key is missing', async () => {
+        const whisperClient = new WhisperClient({ apiKey: '' });
+
+        const availability = await whisperClient.checkAvailability();
+        assert.strictEqual(availability.available, false, 'Provider should be unavailable without API key');
+        assert.ok(availability.error, 'Should include an error message');
+    });
+
+    it('should drop options not supported by provider', () => {
+        const filtered = filterOptionsByCapabilities(
+            { language: 'en', prompt: 'context', temperature: 0.2, timestamp_granularities: ['word', 'segment'] },
+            { wordTimestamps: false, segmentTimestamps: true, languageDetection: true, prompt: false, temperature: true, uploadsAudio: true }
+        );
+
+        assert.strictEqual(filtered.language, 'en', 'Language should be kept');
+        assert.strictEqual(filtered.prompt, undefined, 'Prompt should be dropped');
+        assert.strictEqual(filtered.temperature, 0.2, 'Temperature should be kept');
+        assert.deepStrictEqual(filtered.timestamp_granularities, ['segment'], 'Only segment granularity should be kept');
+    });
+});
+
+describe('WhisperClient Custom Endpoint Tests', () => {
+    let originalFetch: typeof global.fetch;
+    let lastUrl: string | null = null;
+    let lastHeaders: Record<string, string> = {};
+
+    beforeEach(() => {
+        originalFetch = global.fetch;
+        global.fetch = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+            lastUrl = url.toString();
+            lastHeaders = (init?.headers || {}) as Record<string, string>;
+            return new Response(JSON.stringify({ text: 'Test transcription result' }), {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        };
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should keep the query string after the endpoint path', async () => {
+        const whisperClient = new WhisperClient({
+            apiKey: 'azure-key',
+            baseURL: 'https://example.openai.azure.com/openai/deployments/whisper?api-version=2024-06-01',
+            authScheme: 'api-key'
+        });
+
+        await whisperClient.transcribe(new Blob(['test audio data'], { type: 'audio/wav' }));
+
+        assert.strictEqual(lastUrl, 'https://example.openai.azure.com/openai/deployments/whisper/audio/transcriptions?api-version=2024-06-01', 'Endpoint should be inserted before the query');
+        assert.strictEqual(lastHeaders['api-key'], 'azure-key', 'Key should be sent in api-key header');
+        assert.strictEqual(lastHeaders['Authorization'], undefined, 'Bearer header should not be sent');
+    });
+
+    it('should send extra headers without auth header when scheme is none', async () => {
+        const whisperClient = new WhisperClient({
+            apiKey: '',
+            baseURL: 'http://localhost:8000/v1/',
+            authScheme: 'none',
+            extraHeaders: { 'X-Team': 'speech' }
+        });
+
+        await whisperClient.transcribe(new Blob(['test audio data'], { type: 'audio/wav' }));
+
+        assert.strictEqual(lastUrl, 'http://localhost:8000/v1/audio/transcriptions', 'Trailing slash should be removed');
+        assert.strictEqual(lastHeaders['Authorization'], undefined, 'Auth header should not be sent');
+        assert.strictEqual(lastHeaders['X-Team'], 'speech', 'Extra header should be sent');
+    });
+});
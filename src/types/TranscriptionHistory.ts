@@ -7,7 +7,36 @@
  */
 export enum RecordingMode {
 	INSERT_OR_CLIPBOARD = 'insertOrClipboard',  // Ctrl+Shift+M - insert into cursor or clipboard
-	INSERT_AT_CURRENT_CHAT = 'insertAtCurrentChat'                        // Ctrl+Shift+N - insert into the current chat Cursor
+	INSERT_AT_CURRENT_CHAT = 'insertAtCurrentChat',                       // Ctrl+Shift+N - insert into the current chat Cursor
+	TRANSCRIBE_FILE = 'transcribeFile'                                    // Explorer - transcribe an existing audio or video file
+}
+
+/**
+ * Timed piece of a transcription (times in seconds from the start of the audio)
+ */
+export interface TranscriptSegment {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Alternative text of an entry: a re-transcription of the kept recording
+ * or the text an edit replaced
+ */
+export interface TranscriptionVariant {
+	text: string;
+	
+	/** Creation time of the variant text (ISO string) */
+	timestamp: string;
+	
+	/** 'revision' for text replaced by an edit; re-transcriptions leave it unset */
+	kind?: 'revision';
+	
+	/** Transcription settings used for the variant */
+	model?: string;
+	language?: string;
+	prompt?: string;
 }
 
 /**
@@ -41,6 +70,30 @@ export interface TranscriptionEntry {
 	
 	/** AI model used for post-processing */
 	postProcessingModel?: string;
+	
+	/** Path of the transcribed file (TRANSCRIBE_FILE mode) */
+	sourceFile?: string;
+	
+	/** Timed segments of the original transcription, used for subtitle export */
+	segments?: TranscriptSegment[];
+	
+	/** File name of the kept recording in the audio archive (audio retention) */
+	audioFile?: string;
+	
+	/** Alternative texts produced by re-transcribing the kept recording */
+	variants?: TranscriptionVariant[];
+	
+	/** Pinned entries are shown first and never pruned */
+	pinned?: boolean;
+	
+	/** Time of the last manual edit of the text (ISO string) */
+	editedAt?: string;
+	
+	/** URI of the workspace folder the transcription was dictated in */
+	workspaceFolder?: string;
+	
+	/** Path of the file open in the active editor at dictation time */
+	activeFile?: string;
 }
 
 /**
@@ -64,7 +117,7 @@ export interface TranscriptionHistory {
 	/** Version of the data format */
 	version: string;
 	
-	/** Array of transcription entries (maximum 100) */
+	/** Array of transcription entries (limited by the history retention settings) */
 	entries: TranscriptionEntry[];
 	
 	/** Time of the last update */
@@ -99,8 +152,30 @@ export interface AddEntryOptions {
 	
 	/** AI model used for post-processing */
 	postProcessingModel?: string;
+	
+	/** Path of the transcribed file (TRANSCRIBE_FILE mode) */
+	sourceFile?: string;
+	
+	/** Timed segments of the original transcription, used for subtitle export */
+	segments?: TranscriptSegment[];
+	
+	/** File name of the kept recording in the audio archive */
+	audioFile?: string;
+	
+	/** URI of the workspace folder the transcription was dictated in */
+	workspaceFolder?: string;
+	
+	/** Path of the file open in the active editor at dictation time */
+	activeFile?: string;
 }
 
+/**
+ * Where the history is persisted: one list for all workspaces or one per workspace
+ */
+export type HistoryStorageScope = 'global' | 'workspace';
+
+export const HISTORY_STORAGE_SCOPES: readonly HistoryStorageScope[] = ['global', 'workspace'];
+
 /**
  * Result of the history operation
  */
@@ -149,7 +224,7 @@ export interface TranscriptionEntryMetadata {
  * Constants for the transcription history
  */
 export const TRANSCRIPTION_HISTORY_CONSTANTS = {
-	/** Maximum number of entries in the history */
+	/** Default maximum number of entries in the history (speechToTextWhisper.history.maxEntries) */
 	MAX_ENTRIES: 100,
 	
 	/** Version of the current data format */
@@ -158,6 +233,12 @@ export const TRANSCRIPTION_HISTORY_CONSTANTS = {
 	/** Maximum length of the preview text */
 	PREVIEW_LENGTH: 50,
 	
-	/** Key for storing in VS Code storage */
-	STORAGE_KEY: 'transcriptionHistory'
+	/** Key of the legacy globalState storage, migrated to STORAGE_FILE on load */
+	STORAGE_KEY: 'transcriptionHistory',
+	
+	/** History file in the extension global storage folder */
+	STORAGE_FILE: 'transcription-history.json',
+	
+	/** Key of the per-workspace history in workspaceState (history.storage = workspace) */
+	WORKSPACE_STORAGE_KEY: 'transcriptionHistory.workspace'
 } as const; 
\ No newline at end of file
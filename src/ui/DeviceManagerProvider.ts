@@ -1,30 +1,108 @@
 import * as vscode from 'vscode';
 import { FFmpegAudioRecorder, AudioDevice } from '../core/FFmpegAudioRecorder';
+import { AudioLevel, LevelMonitor, describeLevelWarning, renderLevelBar } from '../core/AudioLevel';
+
+// Minimum interval between level meter redraws
+const LEVEL_REFRESH_INTERVAL = 250;
 
 /**
  * Data provider for managing audio devices
  */
-export class DeviceManagerProvider implements vscode.TreeDataProvider<DeviceItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<DeviceItem | undefined | void> = new vscode.EventEmitter<DeviceItem | undefined | void>();
-    readonly onDidChangeTreeData: vscode.Event<DeviceItem | undefined | void> = this._onDidChangeTreeData.event;
+export class DeviceManagerProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    // Level meter shown above the devices while recording
+    private levelItem: vscode.TreeItem | null = null;
+    private levelWarningItem: vscode.TreeItem | null = null;
+    private levelMonitor = new LevelMonitor();
+    private lastLevelRefresh = 0;
+
+    // Detected devices, kept until refresh() so level meter redraws don't run device detection
+    private devices: DeviceItem[] | null = null;
 
     constructor() {}
 
     refresh(): void {
+        this.devices = null;
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: DeviceItem): vscode.TreeItem {
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: DeviceItem): Promise<DeviceItem[]> {
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
         if (!element) {
-            return this.getAudioDevices();
+            this.devices = this.devices || await this.getAudioDevices();
+            const devices = this.devices;
+            return this.levelItem && this.levelWarningItem
+                ? [this.levelItem, this.levelWarningItem, ...devices]
+                : devices;
         }
         return [];
     }
 
+    /**
+     * Updating the level meter; only the meter items are redrawn so devices are not detected again
+     */
+    updateLevel(level: AudioLevel): void {
+        this.levelMonitor.add(level);
+
+        if (!this.levelItem || !this.levelWarningItem) {
+            this.levelItem = new vscode.TreeItem('Input Level', vscode.TreeItemCollapsibleState.None);
+            this.levelItem.iconPath = new vscode.ThemeIcon('pulse');
+            this.levelWarningItem = new vscode.TreeItem('', vscode.TreeItemCollapsibleState.None);
+            this.renderLevel(level);
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+
+        const now = Date.now();
+        if (now - this.lastLevelRefresh < LEVEL_REFRESH_INTERVAL) {
+            return;
+        }
+        this.lastLevelRefresh = now;
+
+        this.renderLevel(level);
+        this._onDidChangeTreeData.fire(this.levelItem);
+        this._onDidChangeTreeData.fire(this.levelWarningItem);
+    }
+
+    /**
+     * Removing the level meter when recording stops
+     */
+    clearLevel(): void {
+        this.levelMonitor.reset();
+        if (this.levelItem) {
+            this.levelItem = null;
+            this.levelWarningItem = null;
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    private renderLevel(level: AudioLevel): void {
+        if (!this.levelItem || !this.levelWarningItem) {
+            return;
+        }
+
+        this.levelItem.description = `${renderLevelBar(level.peak, 20)} ${level.peak.toFixed(0)} dB`;
+        this.levelItem.tooltip = `RMS: ${level.rms.toFixed(1)} dB, peak: ${level.peak.toFixed(1)} dB`;
+
+        const warning = this.levelMonitor.getWarning();
+        if (warning) {
+            this.levelWarningItem.label = warning === 'clipping' ? 'Clipping' : 'Too Quiet';
+            this.levelWarningItem.description = describeLevelWarning(warning);
+            this.levelWarningItem.tooltip = describeLevelWarning(warning);
+            this.levelWarningItem.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        } else {
+            this.levelWarningItem.label = 'Level OK';
+            this.levelWarningItem.description = '';
+            this.levelWarningItem.tooltip = 'The microphone signal looks usable';
+            this.levelWarningItem.iconPath = new vscode.ThemeIcon('pass');
+        }
+    }
+
     private async getAudioDevices(): Promise<DeviceItem[]> {
         const config = vscode.workspace.getConfiguration('speechToTextWhisper');
         const selectedDeviceId = config.get<string>('inputDevice') || 'auto';
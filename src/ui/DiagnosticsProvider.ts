@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { FFmpegAudioRecorder } from '../core/FFmpegAudioRecorder';
+import { LocalWhisperClient } from '../core/LocalWhisperClient';
+import { TranscriptionProvider } from '../core/TranscriptionProvider';
 
 /**
  * Data provider for diagnostics
@@ -8,7 +10,7 @@ export class DiagnosticsProvider implements vscode.TreeDataProvider<DiagnosticIt
     private _onDidChangeTreeData: vscode.EventEmitter<DiagnosticItem | undefined | void> = new vscode.EventEmitter<DiagnosticItem | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<DiagnosticItem | undefined | void> = this._onDidChangeTreeData.event;
 
-    constructor() {}
+    constructor(private getTranscriptionProvider: () => TranscriptionProvider | null = () => null) {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
@@ -70,6 +72,45 @@ export class DiagnosticsProvider implements vscode.TreeDataProvider<DiagnosticIt
         apiItem.iconPath = new vscode.ThemeIcon(apiKey && apiKey.trim() ? 'check' : 'error');
         items.push(apiItem);
 
+        // Local whisper binary and model
+        if (config.get<string>('provider') === 'local') {
+            const localCheck = await LocalWhisperClient.checkLocalWhisperAvailability(
+                config.get<string>('local.binaryPath') || undefined,
+                config.get<string>('local.modelPath') || undefined,
+                config.get<number>('timeout') || undefined
+            );
+            const localItem = new DiagnosticItem(
+                'Local Whisper',
+                localCheck.available ? '✅ Available' : '❌ Not Ready',
+                localCheck.available
+                    ? `${localCheck.path} (${localCheck.version}), model: ${localCheck.modelPath}`
+                    : localCheck.error || 'Unknown status'
+            );
+            localItem.iconPath = new vscode.ThemeIcon(localCheck.available ? 'check' : 'error');
+            items.push(localItem);
+        }
+
+        // Transcription provider
+        const provider = this.getTranscriptionProvider();
+        if (provider) {
+            const availability = await provider.checkAvailability();
+            const providerItem = new DiagnosticItem(
+                'Transcription Provider',
+                availability.available ? `✅ ${provider.displayName}` : `❌ ${provider.displayName}`,
+                availability.details || availability.error || 'Unknown status'
+            );
+            providerItem.iconPath = new vscode.ThemeIcon(availability.available ? 'check' : 'error');
+            items.push(providerItem);
+        } else {
+            const providerItem = new DiagnosticItem(
+                'Transcription Provider',
+                '❌ Not Initialized',
+                'Check the provider selection and its settings'
+            );
+            providerItem.iconPath = new vscode.ThemeIcon('error');
+            items.push(providerItem);
+        }
+
         return items;
     }
 
@@ -0,0 +1,57 @@
+// LivePreviewDecoration.ts - ghost text at the cursor showing the live partial transcription
+
+import * as vscode from 'vscode';
+
+// Longest preview shown inline; older text is cut from the start
+const MAX_PREVIEW_LENGTH = 120;
+
+/**
+ * Shows partial transcription as a non-editable decoration after the cursor
+ */
+export class LivePreviewDecoration implements vscode.Disposable {
+    private readonly decorationType: vscode.TextEditorDecorationType;
+    private editor: vscode.TextEditor | undefined;
+
+    constructor() {
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            after: {
+                color: new vscode.ThemeColor('editorGhostText.foreground'),
+                fontStyle: 'italic',
+                margin: '0 0 0 0.5em'
+            }
+        });
+    }
+
+    /**
+     * Updates the preview text at the cursor of the active editor
+     */
+    update(text: string): void {
+        this.editor = this.editor || vscode.window.activeTextEditor;
+        if (!this.editor || !text) {
+            return;
+        }
+
+        const preview = text.length > MAX_PREVIEW_LENGTH ? `…${text.slice(-MAX_PREVIEW_LENGTH)}` : text;
+        const position = this.editor.selection.active;
+
+        this.editor.setDecorations(this.decorationType, [{
+            range: new vscode.Range(position, position),
+            renderOptions: { after: { contentText: `🎤 ${preview}` } }
+        }]);
+    }
+
+    /**
+     * Removes the preview
+     */
+    clear(): void {
+        if (this.editor) {
+            this.editor.setDecorations(this.decorationType, []);
+            this.editor = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.clear();
+        this.decorationType.dispose();
+    }
+}
@@ -1,6 +1,10 @@
 // StatusBarManager.ts - managing the interface elements in the VS Code status bar
 
 import * as vscode from 'vscode';
+import { AudioLevel, renderLevelBar } from '../core/AudioLevel';
+
+// Minimum interval between level meter redraws
+const LEVEL_REFRESH_INTERVAL = 250;
 
 export interface StatusBarEvents {
     onRecordingToggle: () => void;
@@ -22,6 +26,7 @@ export interface StatusBarConfiguration {
 export type StatusBarState = 
     | 'idle' 
     | 'recording' 
+    | 'paused'
     | 'processing' 
     | 'transcribing' 
     | 'post-processing'
@@ -51,6 +56,9 @@ export interface StatusBarError extends Error {
  */
 export class StatusBarManager implements vscode.Disposable {
     private statusBarItem!: vscode.StatusBarItem;
+    private profileItem!: vscode.StatusBarItem; // active post-processing profile, next to the main item
+    private profile: { name: string; postProcessing: boolean } | null = null;
+    private hidden = false;
     private currentState: StatusBarState = 'idle';
     private isRecording = false;
     private lastError: string | null = null;
@@ -58,6 +66,10 @@ export class StatusBarManager implements vscode.Disposable {
     private errorTimer: NodeJS.Timeout | null = null;
     private progressInterval: NodeJS.Timeout | null = null;
     private progressStep = 0;
+    private stateDetail: string | null = null; // e.g. "chunk 3/7" shown next to the state label
+    private partialText: string | null = null; // live transcription preview while recording
+    private audioLevel: AudioLevel | null = null; // microphone level while recording
+    private lastLevelRefresh = 0;
 
     private readonly config: Required<StatusBarConfiguration>;
     
@@ -77,6 +89,14 @@ export class StatusBarManager implements vscode.Disposable {
             color: new vscode.ThemeColor('statusBarItem.warningForeground'),
             command: 'speechToTextWhisper.recordAndInsertOrClipboard'
         },
+        paused: {
+            text: '$(debug-pause) Paused',
+            tooltip: 'Recording paused. Click to resume',
+            icon: 'debug-pause',
+            backgroundColor: new vscode.ThemeColor('statusBarItem.warningBackground'),
+            color: new vscode.ThemeColor('statusBarItem.warningForeground'),
+            command: 'speechToTextWhisper.resumeRecording'
+        },
         processing: {
             text: '$(loading~spin)',
             tooltip: 'Processing audio data...',
@@ -158,6 +178,38 @@ export class StatusBarManager implements vscode.Disposable {
             alignment,
             this.config.priority
         );
+        this.profileItem = vscode.window.createStatusBarItem(
+            alignment,
+            this.config.priority - 1
+        );
+        this.profileItem.command = 'speechToTextWhisper.selectPostProcessingProfile';
+    }
+
+    /**
+     * Shows the active post-processing profile, marked "(off)" when it doesn't post-process,
+     * so another profile can still be picked from the status bar
+     */
+    showPostProcessingProfile(name: string, postProcessing: boolean): void {
+        this.profile = { name, postProcessing };
+        this.updateProfileItem();
+    }
+
+    /**
+     * Updates the profile item; hidden until a profile is known or while the status bar is hidden
+     */
+    private updateProfileItem(): void {
+        if (!this.profileItem) {return;}
+
+        if (this.profile && !this.hidden) {
+            const { name, postProcessing } = this.profile;
+            this.profileItem.text = `$(sparkle) ${postProcessing ? name : `${name} (off)`}`;
+            this.profileItem.tooltip = postProcessing
+                ? `Post-processing profile: ${name}. Click to choose another`
+                : `Post-processing is off in profile ${name}. Click to choose another`;
+            this.profileItem.show();
+        } else {
+            this.profileItem.hide();
+        }
     }
 
     /**
@@ -174,6 +226,39 @@ export class StatusBarManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Shows the paused recording state; resuming goes through updateRecordingState(true)
+     */
+    showPaused(): void {
+        this.clearProgressAnimation();
+        this.setState('paused');
+    }
+
+    /**
+     * Shows the microphone level as a compact meter next to the recording indicator
+     */
+    showLevel(level: AudioLevel): void {
+        if (this.currentState !== 'recording') {return;}
+
+        this.audioLevel = level;
+        const now = Date.now();
+        if (now - this.lastLevelRefresh < LEVEL_REFRESH_INTERVAL) {
+            return;
+        }
+        this.lastLevelRefresh = now;
+        this.updateUI();
+    }
+
+    /**
+     * Shows the live partial transcription in the recording tooltip
+     */
+    showPartialTranscript(text: string): void {
+        if (this.currentState !== 'recording') {return;}
+
+        this.partialText = text;
+        this.updateUI();
+    }
+
     /**
      * Shows the processing state of audio
      */
@@ -183,11 +268,17 @@ export class StatusBarManager implements vscode.Disposable {
     }
 
     /**
-     * Shows the transcription state
+     * Shows the transcription state, with optional detail such as "chunk 3/7"
      */
-    showTranscribing(): void {
+    showTranscribing(detail?: string): void {
+        const wasTranscribing = this.currentState === 'transcribing';
         this.setState('transcribing');
-        this.startProgressAnimation();
+        this.stateDetail = detail || null;
+        if (wasTranscribing) {
+            this.updateUI();
+        } else {
+            this.startProgressAnimation();
+        }
     }
 
     /**
@@ -305,18 +396,24 @@ export class StatusBarManager implements vscode.Disposable {
      * Shows the status bar item
      */
     show(): void {
+        this.hidden = false;
         if (this.statusBarItem) {
             this.statusBarItem.show();
         }
+        this.updateProfileItem();
     }
 
     /**
      * Hides the status bar item
      */
     hide(): void {
+        this.hidden = true;
         if (this.statusBarItem) {
             this.statusBarItem.hide();
         }
+        if (this.profileItem) {
+            this.profileItem.hide();
+        }
     }
 
     /**
@@ -338,6 +435,9 @@ export class StatusBarManager implements vscode.Disposable {
         if (this.currentState === newState) {return;}
         
         this.currentState = newState;
+        this.stateDetail = null;
+        this.partialText = null;
+        this.audioLevel = null;
         this.updateUI();
     }
 
@@ -401,11 +501,11 @@ export class StatusBarManager implements vscode.Disposable {
      */
     private getAnimatedText(config: StatusBarInfo): string {
         if (this.currentState === 'recording') {
-            return `$(sync~spin) Recording`;
+            return this.audioLevel ? `$(sync~spin) Recording ${renderLevelBar(this.audioLevel.peak, 6)}` : `$(sync~spin) Recording`;
         }
         
         if (this.currentState === 'transcribing') {
-            return `$(sync~spin) Transcribing`;
+            return this.stateDetail ? `$(sync~spin) Transcribing ${this.stateDetail}` : `$(sync~spin) Transcribing`;
         }
         
         if (this.currentState === 'post-processing') {
@@ -429,6 +529,21 @@ export class StatusBarManager implements vscode.Disposable {
                 break;
             case 'recording':
                 tooltip += '\n\nHotkey: Ctrl+Shift+N (release to stop)';
+                if (this.audioLevel) {
+                    tooltip += `\nLevel: ${this.audioLevel.rms.toFixed(0)} dB RMS, peak ${this.audioLevel.peak.toFixed(0)} dB`;
+                }
+                if (this.partialText) {
+                    const preview = this.partialText.length > 300 ? `…${this.partialText.slice(-300)}` : this.partialText;
+                    tooltip += `\n\nLive: ${preview}`;
+                }
+                break;
+            case 'paused':
+                tooltip += '\n\nStop recording to transcribe what was recorded so far';
+                break;
+            case 'transcribing':
+                if (this.stateDetail) {
+                    tooltip += `\n\nProgress: ${this.stateDetail}`;
+                }
                 break;
             case 'error':
                 if (this.lastError) {
@@ -499,6 +614,9 @@ export class StatusBarManager implements vscode.Disposable {
         if (this.statusBarItem) {
             this.statusBarItem.dispose();
         }
+        if (this.profileItem) {
+            this.profileItem.dispose();
+        }
     }
 
     /**
@@ -1,34 +1,56 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
 import { TranscriptionHistoryManager } from '../core/TranscriptionHistoryManager';
 import { TranscriptionEntry, DateGroupCategory } from '../types/TranscriptionHistory';
+import { SubtitleFormat, formatSubtitles } from '../core/Subtitles';
+import { AudioArchive } from '../core/AudioArchive';
+import { HistoryExportFormat, exportHistory } from '../core/HistoryExport';
+import { HistorySearchMatch, MODE_FILTER_NAMES, filterByWorkspace, parseSearchQuery, searchHistory } from '../core/HistorySearch';
 import { CursorIntegration, CursorIntegrationStrategy } from '../integrations/CursorIntegration';
 import { TextInserter } from './TextInserter';
 
+// workspaceState key of the "this workspace only" toggle
+const WORKSPACE_ONLY_KEY = 'historyWorkspaceOnly';
+
 /**
  * Tree item for transcription history
  */
 export class TranscriptionHistoryItem extends vscode.TreeItem {
     constructor(
-        public readonly label: string,
+        public readonly label: string | vscode.TreeItemLabel,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly entry?: TranscriptionEntry,
         public readonly isGroupHeader: boolean = false,
-        public readonly textType?: 'original' | 'improved'
+        public readonly textType?: 'original' | 'improved' | 'variant',
+        public readonly variantIndex?: number
     ) {
         super(label, collapsibleState);
         
-        if (entry && textType) {
+        if (entry && textType === 'variant') {
+            // This is a re-transcription of the kept recording or a text replaced by an edit
+            const variant = entry.variants![variantIndex!];
+            const preview = variant.text.length > 50 ? variant.text.substring(0, 50) + '...' : variant.text;
+            const isRevision = variant.kind === 'revision';
+            this.description = preview;
+            this.tooltip = `${isRevision ? 'Previous text' : 'Re-transcribed'}: ${variant.text}\n\nDate: ${new Date(variant.timestamp).toLocaleString('ru-RU')}` +
+                (variant.model ? `\nModel: ${variant.model}` : '') +
+                (variant.language ? `\nLanguage: ${variant.language}` : '');
+            this.contextValue = 'transcriptionText';
+            this.iconPath = new vscode.ThemeIcon(isRevision ? 'discard' : 'refresh');
+        } else if (entry && (textType === 'original' || textType === 'improved')) {
             // This is a text variant (original or improved)
             this.description = this.formatTextVariantDescription(entry, textType);
             this.tooltip = this.formatTextVariantTooltip(entry, textType);
             this.contextValue = 'transcriptionText';
             this.iconPath = textType === 'original' ? new vscode.ThemeIcon('file-text') : new vscode.ThemeIcon('sparkle');
         } else if (entry) {
-            // This is a transcription entry container
+            // This is a transcription entry container; flags enable subtitle export and audio actions in menus
             this.description = this.formatEntryDescription(entry);
             this.tooltip = this.formatEntryTooltip(entry);
-            this.contextValue = 'transcriptionEntry';
-            this.iconPath = new vscode.ThemeIcon('history');
+            this.contextValue = 'transcriptionEntry' + (entry.segments?.length ? ':timed' : '') + (entry.audioFile ? ':audio' : '') + (entry.pinned ? ':pinned' : '');
+            this.iconPath = new vscode.ThemeIcon(entry.pinned ? 'pinned' : 'history');
         } else {
             // This is a group header
             this.iconPath = new vscode.ThemeIcon('folder');
@@ -46,12 +68,17 @@ export class TranscriptionHistoryItem extends vscode.TreeItem {
         const text = textType === 'original' ? (entry.originalText || entry.text) : entry.text;
         const date = new Date(entry.timestamp).toLocaleString('ru-RU');
         
-        let tooltip = `${textType === 'original' ? 'Original (Whisper)' : 'Improved (AI)'}: ${text}\n\nDate: ${date}`;
+        const improvedLabel = entry.editedAt ? 'Edited' : 'Improved (AI)';
+        let tooltip = `${textType === 'original' ? 'Original (Whisper)' : improvedLabel}: ${text}\n\nDate: ${date}`;
         
         if (textType === 'improved' && entry.isPostProcessed && entry.postProcessingModel) {
             tooltip += `\nModel: ${entry.postProcessingModel}`;
         }
 
+        if (textType === 'improved' && entry.editedAt) {
+            tooltip += `\nEdited: ${new Date(entry.editedAt).toLocaleString('ru-RU')}`;
+        }
+
         // Add comparison if both versions exist
         if (entry.originalText && entry.originalText !== entry.text) {
             const otherText = textType === 'original' ? entry.text : entry.originalText;
@@ -68,12 +95,13 @@ export class TranscriptionHistoryItem extends vscode.TreeItem {
         });
         const duration = entry.duration ? `${entry.duration.toFixed(1)}s` : '';
         const postProcessedIcon = entry.isPostProcessed ? ' ✨' : '';
-        return `${timestamp} ${duration}${postProcessedIcon}`.trim();
+        const editedIcon = entry.editedAt ? ' ✏️' : '';
+        return `${timestamp} ${duration}${postProcessedIcon}${editedIcon}`.trim();
     }
 
     private formatEntryTooltip(entry: TranscriptionEntry): string {
         const date = new Date(entry.timestamp).toLocaleString('ru-RU');
-        const mode = entry.mode === 'insertOrClipboard' ? 'Insert/Clipboard' : 'New Chat';
+        const mode = entry.mode === 'insertOrClipboard' ? 'Insert/Clipboard' : (entry.mode === 'transcribeFile' ? 'File' : 'New Chat');
         const duration = entry.duration ? `Duration: ${entry.duration.toFixed(1)}s` : '';
         const language = entry.language ? `Language: ${entry.language}` : '';
         
@@ -81,7 +109,12 @@ export class TranscriptionHistoryItem extends vscode.TreeItem {
             `Date: ${date}`,
             `Mode: ${mode}`,
             duration,
-            language
+            language,
+            entry.sourceFile ? `File: ${entry.sourceFile}` : '',
+            entry.workspaceFolder ? `Workspace: ${vscode.Uri.parse(entry.workspaceFolder).path.split('/').pop()}` : '',
+            entry.activeFile ? `Active file: ${entry.activeFile}` : '',
+            entry.segments?.length ? `Timestamps: ${entry.segments.length} segments` : '',
+            entry.audioFile ? 'Recording kept' : ''
         ];
 
         // Add post-processing information if available
@@ -93,6 +126,9 @@ export class TranscriptionHistoryItem extends vscode.TreeItem {
     }
 
     getTextForAction(): string {
+        if (this.entry && this.textType === 'variant') {
+            return this.entry.variants?.[this.variantIndex!]?.text || '';
+        }
         if (this.entry && this.textType) {
             return this.textType === 'original' ? (this.entry.originalText || this.entry.text) : this.entry.text;
         }
@@ -103,6 +139,13 @@ export class TranscriptionHistoryItem extends vscode.TreeItem {
 /**
  * Data provider for transcription history
  */
+// Quick pick item of a history search result
+interface SearchResultItem extends vscode.QuickPickItem {
+    match: HistorySearchMatch;
+}
+
+const GROUP_ID_PREFIX = 'group:';
+
 export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<TranscriptionHistoryItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<TranscriptionHistoryItem | undefined | void> = 
         new vscode.EventEmitter<TranscriptionHistoryItem | undefined | void>();
@@ -110,10 +153,25 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         this._onDidChangeTreeData.event;
 
     private cursorIntegration: CursorIntegration;
+    private treeView: vscode.TreeView<TranscriptionHistoryItem> | undefined;
+
+    // Matches of the last search, highlighted in the tree until cleared
+    private searchMatches: Map<string, HistorySearchMatch> | null = null;
+
+    // Only entries dictated in the open workspace folders are listed unless "all" is chosen
+    private workspaceOnly: boolean;
+
+    // Temporary files of entries open for editing, by path
+    private editedEntries = new Map<string, string>();
+    private editListeners: vscode.Disposable[] = [];
 
     constructor(
-        private historyManager: TranscriptionHistoryManager
+        private historyManager: TranscriptionHistoryManager,
+        private audioArchive?: AudioArchive,
+        private workspaceState?: vscode.Memento
     ) {
+        this.workspaceOnly = workspaceState?.get<boolean>(WORKSPACE_ONLY_KEY) ?? true;
+
         // Initialize CursorIntegration for chat work
         this.cursorIntegration = new CursorIntegration({
             primaryStrategy: CursorIntegrationStrategy.AICHAT_COMMAND,
@@ -127,16 +185,79 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
             useMarkdownFormat: false,
             timeout: 5000
         });
+
+        // Saving an edit document writes the text back to its entry
+        this.editListeners.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.saveEditedEntry(document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.discardEditDocument(document))
+        );
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Attaches the tree view so search results can be revealed
+     */
+    setTreeView(treeView: vscode.TreeView<TranscriptionHistoryItem>): void {
+        this.treeView = treeView;
+        this.updateWorkspaceScope();
+    }
+
+    /**
+     * Switches between entries of this workspace and entries of all workspaces
+     */
+    setWorkspaceOnly(workspaceOnly: boolean): void {
+        this.workspaceOnly = workspaceOnly;
+        this.workspaceState?.update(WORKSPACE_ONLY_KEY, workspaceOnly);
+        this.updateWorkspaceScope();
+        this.refresh();
+    }
+
+    private updateWorkspaceScope(): void {
+        vscode.commands.executeCommand('setContext', 'speechToTextWhisper.historyWorkspaceOnly', this.workspaceOnly);
+        if (this.treeView) {
+            this.treeView.description = this.isWorkspaceFilterActive() ? 'This workspace' : undefined;
+        }
+    }
+
+    // Windows without a folder have nothing to filter by, so they list every entry
+    private isWorkspaceFilterActive(): boolean {
+        return this.workspaceOnly && !!vscode.workspace.workspaceFolders?.length;
+    }
+
+    /**
+     * Entries listed in the view and searched, after the workspace filter
+     */
+    private async getVisibleEntries(): Promise<TranscriptionEntry[]> {
+        const history = await this.historyManager.getHistory();
+        if (!this.isWorkspaceFilterActive()) {
+            return history.entries;
+        }
+
+        const folders = vscode.workspace.workspaceFolders!.map(folder => folder.uri.toString());
+        return filterByWorkspace(history.entries, folders);
+    }
+
     getTreeItem(element: TranscriptionHistoryItem): vscode.TreeItem {
         return element;
     }
 
+    async getParent(element: TranscriptionHistoryItem): Promise<TranscriptionHistoryItem | undefined> {
+        if (element.isGroupHeader || !element.entry) {
+            return undefined;
+        }
+
+        if (element.textType) {
+            return this.createEntryItem(element.entry);
+        }
+
+        const groups = this.groupEntriesByDate(await this.getVisibleEntries());
+        const groupName = Object.keys(groups).find(name => groups[name].some(entry => entry.id === element.entry!.id));
+        return groupName ? this.createGroupItem(groupName, groups[groupName].length) : undefined;
+    }
+
     async getChildren(element?: TranscriptionHistoryItem): Promise<TranscriptionHistoryItem[]> {
         if (!element) {
             // Root level - show groups
@@ -145,7 +266,7 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
 
         if (element.isGroupHeader) {
             // Group level - show entries
-            const groupName = element.label.split(' (')[0]; // Extract group name from "Today (3)" format
+            const groupName = element.id!.substring(GROUP_ID_PREFIX.length);
             return this.getGroupEntries(groupName);
         }
 
@@ -158,46 +279,65 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
     }
 
     private async getRootItems(): Promise<TranscriptionHistoryItem[]> {
-        const history = await this.historyManager.getHistory();
+        const entries = await this.getVisibleEntries();
         
-        if (!history?.entries.length) {
+        if (!entries.length) {
             return [this.createEmptyItem()];
         }
 
-        const entries = history.entries;
         const groups = this.groupEntriesByDate(entries);
         
-        return Object.entries(groups).map(([groupName, groupEntries]) => {
-            const item = new TranscriptionHistoryItem(
-                `${groupName} (${groupEntries.length})`,
-                vscode.TreeItemCollapsibleState.Expanded,
-                undefined,
-                true
-            );
-            return item;
-        });
+        return Object.entries(groups).map(([groupName, groupEntries]) => this.createGroupItem(groupName, groupEntries.length));
+    }
+
+    private createGroupItem(groupName: string, count: number): TranscriptionHistoryItem {
+        const item = new TranscriptionHistoryItem(
+            `${groupName} (${count})`,
+            vscode.TreeItemCollapsibleState.Expanded,
+            undefined,
+            true
+        );
+        item.id = `${GROUP_ID_PREFIX}${groupName}`;
+        return item;
+    }
+
+    private createEntryItem(entry: TranscriptionEntry): TranscriptionHistoryItem {
+        const match = this.searchMatches?.get(entry.id);
+        let label: string | vscode.TreeItemLabel = this.formatEntryTitle(entry);
+
+        // Search results show the matching snippet with the terms highlighted
+        if (match) {
+            const prefix = `${label.split(' - ')[0]} - `;
+            label = {
+                label: prefix + match.snippet,
+                highlights: match.highlights.map(([start, end]) => [start + prefix.length, end + prefix.length] as [number, number])
+            };
+        }
+
+        const item = new TranscriptionHistoryItem(
+            label,
+            vscode.TreeItemCollapsibleState.Expanded,
+            entry,
+            false
+        );
+        item.id = entry.id;
+        if (match) {
+            item.iconPath = new vscode.ThemeIcon('search');
+        }
+        return item;
     }
 
     private async getGroupEntries(groupCategory: string): Promise<TranscriptionHistoryItem[]> {
-        const history = await this.historyManager.getHistory();
+        const entries = await this.getVisibleEntries();
         
-        if (!history?.entries.length) {
+        if (!entries.length) {
             return [];
         }
 
-        const entries = history.entries;
         const groups = this.groupEntriesByDate(entries);
         const groupEntries = groups[groupCategory] || [];
 
-        return groupEntries.map(entry => {
-            const item = new TranscriptionHistoryItem(
-                this.formatEntryTitle(entry),
-                vscode.TreeItemCollapsibleState.Expanded,
-                entry,
-                false
-            );
-            return item;
-        });
+        return groupEntries.map(entry => this.createEntryItem(entry));
     }
 
     private getTextVariants(entry: TranscriptionEntry): TranscriptionHistoryItem[] {
@@ -213,10 +353,10 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         );
         variants.push(originalItem);
 
-        // Show improved text if post-processing was applied
-        if (entry.isPostProcessed && entry.originalText && entry.originalText !== entry.text) {
+        // Show improved text if post-processing or an edit changed it
+        if ((entry.isPostProcessed || entry.editedAt) && entry.originalText && entry.originalText !== entry.text) {
             const improvedItem = new TranscriptionHistoryItem(
-                'Improved (AI)',
+                entry.editedAt ? 'Edited' : 'Improved (AI)',
                 vscode.TreeItemCollapsibleState.None,
                 entry,
                 false,
@@ -225,6 +365,18 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
             variants.push(improvedItem);
         }
 
+        // Re-transcriptions of the kept recording and texts replaced by edits
+        (entry.variants || []).forEach((variant, index) => {
+            variants.push(new TranscriptionHistoryItem(
+                variant.kind === 'revision' ? 'Previous text' : `Re-transcribed${variant.model ? ` (${variant.model})` : ''}`,
+                vscode.TreeItemCollapsibleState.None,
+                entry,
+                false,
+                'variant',
+                index
+            ));
+        });
+
         return variants;
     }
 
@@ -248,6 +400,7 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
 
         const groups: Record<string, TranscriptionEntry[]> = {
+            'Pinned': [],
             'Today': [],
             'Yesterday': [],
             'This week': [],
@@ -255,6 +408,11 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         };
 
         for (const entry of entries) {
+            if (entry.pinned) {
+                groups['Pinned'].push(entry);
+                continue;
+            }
+
             const entryDate = new Date(entry.timestamp);
             const entryDay = new Date(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate());
 
@@ -276,14 +434,15 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
     }
 
     private createEmptyItem(): TranscriptionHistoryItem {
+        const workspaceFilter = this.isWorkspaceFilterActive();
         const item = new TranscriptionHistoryItem(
-            'No transcriptions yet',
+            workspaceFilter ? 'No transcriptions in this workspace' : 'No transcriptions yet',
             vscode.TreeItemCollapsibleState.None,
             undefined,
             false
         );
         item.iconPath = new vscode.ThemeIcon('info');
-        item.description = 'Start recording to see history';
+        item.description = workspaceFilter ? 'Show all workspaces to see the rest' : 'Start recording to see history';
         return item;
     }
 
@@ -301,8 +460,7 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
 
         try {
             await vscode.env.clipboard.writeText(text);
-            const textType = item.textType === 'original' ? 'Original' : 'Improved';
-            vscode.window.showInformationMessage(`✅ ${textType} text copied to clipboard`);
+            vscode.window.showInformationMessage(`✅ ${this.describeTextType(item)} text copied to clipboard`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to copy: ${(error as Error).message}`);
         }
@@ -323,13 +481,62 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
             const textInserter = new TextInserter();
             await textInserter.insertText(text, { mode: 'cursor' });
             
-            const textType = item.textType === 'original' ? 'Original' : 'Improved';
-            vscode.window.showInformationMessage(`✅ ${textType} text inserted at cursor`);
+            vscode.window.showInformationMessage(`✅ ${this.describeTextType(item)} text inserted at cursor`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to insert text: ${(error as Error).message}`);
         }
     }
 
+    /**
+     * Opens the entry text (or the chosen variant of it) in a temporary document; saving it replaces
+     * the entry text and keeps the previous one as a revision
+     */
+    async editEntry(item: TranscriptionHistoryItem): Promise<void> {
+        if (!item?.entry) {
+            vscode.window.showErrorMessage('No transcription entry to edit');
+            return;
+        }
+
+        try {
+            const directory = path.join(os.tmpdir(), 'speech-to-text-whisper-edits');
+            const filePath = path.join(directory, `${item.entry.id}.txt`);
+            await fs.promises.mkdir(directory, { recursive: true });
+            await fs.promises.writeFile(filePath, item.getTextForAction() || item.entry.text, 'utf8');
+            this.editedEntries.set(filePath, item.entry.id);
+
+            const document = await vscode.workspace.openTextDocument(filePath);
+            await vscode.window.showTextDocument(document, { preview: false });
+            vscode.window.setStatusBarMessage('Save the document to update the history entry', 5000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open the entry for editing: ${(error as Error).message}`);
+        }
+    }
+
+    private async saveEditedEntry(document: vscode.TextDocument): Promise<void> {
+        const entryId = this.editedEntries.get(document.uri.fsPath);
+        if (!entryId) {
+            return;
+        }
+
+        const result = await this.historyManager.updateEntry(entryId, document.getText());
+        if (!result.success) {
+            vscode.window.showErrorMessage(`Failed to update the entry: ${result.error}`);
+            return;
+        }
+
+        if (result.data?.changed) {
+            this.refresh();
+            vscode.window.showInformationMessage('✅ Transcription updated; the previous text is kept as a revision');
+        }
+    }
+
+    private discardEditDocument(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        if (this.editedEntries.delete(filePath)) {
+            fs.promises.unlink(filePath).catch(() => undefined);
+        }
+    }
+
     /**
      * Deletes the entry from the history
      */
@@ -360,6 +567,314 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         }
     }
 
+    /**
+     * Searches text, original text and re-transcriptions with optional filters, then reveals the chosen entry
+     */
+    async search(): Promise<void> {
+        const entries = await this.getVisibleEntries();
+        if (!entries.length) {
+            vscode.window.showInformationMessage('No transcriptions yet');
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+        const filterButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('filter'), tooltip: 'Add Filter' };
+        quickPick.placeholder = 'Words or "phrases"; filters: lang:en mode:insert|chat|file processed:yes|no date:today|yesterday|week|month after:/before:YYYY-MM-DD';
+        quickPick.buttons = [filterButton];
+        let choosingFilter = false;
+
+        const update = () => {
+            const query = parseSearchQuery(quickPick.value);
+            const matches = searchHistory(entries, query);
+            quickPick.title = `Search History (${matches.length} of ${entries.length})`;
+            quickPick.items = matches.map(match => ({
+                label: match.snippet,
+                description: new Date(match.entry.timestamp).toLocaleString('ru-RU'),
+                detail: [
+                    match.entry.language,
+                    match.entry.isPostProcessed ? '✨ post-processed' : '',
+                    match.field === 'text' ? '' : (match.field === 'originalText' ? 'in original text' : 'in re-transcription')
+                ].filter(Boolean).join(' · '),
+                alwaysShow: true,
+                match
+            }));
+        };
+
+        quickPick.onDidChangeValue(update);
+        quickPick.onDidTriggerButton(async () => {
+            choosingFilter = true;
+            const token = await this.pickFilterToken(entries);
+            choosingFilter = false;
+            if (token) {
+                quickPick.value = `${quickPick.value.trim()} ${token}`.trim();
+            }
+            quickPick.show();
+            update();
+        });
+        quickPick.onDidAccept(async () => {
+            const selected = quickPick.activeItems[0];
+            const query = parseSearchQuery(quickPick.value);
+            quickPick.hide();
+            if (selected) {
+                await this.showSearchResults(searchHistory(entries, query), selected.match.entry);
+            }
+        });
+        quickPick.onDidHide(() => {
+            if (!choosingFilter) {
+                quickPick.dispose();
+            }
+        });
+
+        update();
+        quickPick.show();
+    }
+
+    /**
+     * Removes search highlighting from the tree
+     */
+    clearSearch(): void {
+        this.searchMatches = null;
+        vscode.commands.executeCommand('setContext', 'speechToTextWhisper.historySearchActive', false);
+        this.refresh();
+    }
+
+    private async showSearchResults(matches: HistorySearchMatch[], selected: TranscriptionEntry): Promise<void> {
+        this.searchMatches = new Map(matches.map(match => [match.entry.id, match]));
+        vscode.commands.executeCommand('setContext', 'speechToTextWhisper.historySearchActive', true);
+        this.refresh();
+
+        if (this.treeView) {
+            await this.treeView.reveal(this.createEntryItem(selected), { select: true, focus: true, expand: true });
+        }
+    }
+
+    /**
+     * Lets the user pick one filter, returned as a query token
+     */
+    private async pickFilterToken(entries: TranscriptionEntry[]): Promise<string | undefined> {
+        const languages = [...new Set(entries.map(entry => entry.language.toLowerCase()))].sort();
+        const separator = (label: string) => ({ label, kind: vscode.QuickPickItemKind.Separator, token: '' });
+
+        const items = [
+            separator('Date'),
+            { label: 'Today', token: 'date:today' },
+            { label: 'Yesterday', token: 'date:yesterday' },
+            { label: 'Last 7 days', token: 'date:week' },
+            { label: 'Last 30 days', token: 'date:month' },
+            { label: 'Custom range...', token: 'custom' },
+            separator('Language'),
+            ...languages.map(language => ({ label: language, token: `lang:${language}` })),
+            separator('Mode'),
+            ...Object.keys(MODE_FILTER_NAMES).map(name => ({ label: name, token: `mode:${name}` })),
+            separator('Post-processing'),
+            { label: 'Post-processed', token: 'processed:yes' },
+            { label: 'Not post-processed', token: 'processed:no' }
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Add a filter to the search' });
+        if (picked?.token !== 'custom') {
+            return picked?.token;
+        }
+
+        const range = await vscode.window.showInputBox({
+            prompt: 'Date range as YYYY-MM-DD..YYYY-MM-DD (either side may be empty)',
+            validateInput: value => /^(\d{4}-\d{2}-\d{2})?\.\.(\d{4}-\d{2}-\d{2})?$/.test(value.trim()) ? undefined : 'Use YYYY-MM-DD..YYYY-MM-DD'
+        });
+        if (!range) {
+            return undefined;
+        }
+
+        const [after, before] = range.trim().split('..');
+        return [after ? `after:${after}` : '', before ? `before:${before}` : ''].filter(Boolean).join(' ');
+    }
+
+    /**
+     * Plays the kept recording of an entry with the system audio player
+     */
+    async playAudio(item: TranscriptionHistoryItem): Promise<void> {
+        const audioFile = item?.entry?.audioFile;
+        const audioPath = audioFile && this.audioArchive ? this.audioArchive.getPath(audioFile) : null;
+        if (!audioPath) {
+            vscode.window.showErrorMessage('The recording for this entry is no longer kept');
+            return;
+        }
+
+        const opened = await vscode.env.openExternal(vscode.Uri.file(audioPath));
+        if (!opened) {
+            vscode.window.showErrorMessage(`Failed to open the recording: ${audioPath}`);
+        }
+    }
+
+    private describeTextType(item: TranscriptionHistoryItem): string {
+        switch (item.textType) {
+            case 'original':
+                return 'Original';
+            case 'variant':
+                return item.entry?.variants?.[item.variantIndex!]?.kind === 'revision' ? 'Previous' : 'Re-transcribed';
+            default:
+                return item.entry?.editedAt ? 'Edited' : 'Improved';
+        }
+    }
+
+    /**
+     * Exports the timed segments of an entry as SRT, VTT or timestamped Markdown
+     */
+    async exportSubtitles(item: TranscriptionHistoryItem | undefined, format: SubtitleFormat): Promise<void> {
+        const entry = item?.entry ?? await this.pickTimedEntry();
+        if (!entry) {
+            return;
+        }
+
+        if (!entry.segments?.length) {
+            vscode.window.showErrorMessage('This transcription has no timestamps. Enable speechToTextWhisper.timestamps and record again.');
+            return;
+        }
+
+        const extension = format === 'markdown' ? 'md' : format;
+        const baseName = entry.sourceFile
+            ? entry.sourceFile.replace(/\.[^./\\]+$/, '')
+            : `transcription-${entry.timestamp.replace(/[:.]/g, '-')}`;
+        const defaultUri = entry.sourceFile
+            ? vscode.Uri.file(`${baseName}.${extension}`)
+            : vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir()), `${baseName}.${extension}`);
+
+        const filters: Record<SubtitleFormat, Record<string, string[]>> = {
+            srt: { 'SubRip Subtitles': ['srt'] },
+            vtt: { 'WebVTT Subtitles': ['vtt'] },
+            markdown: { 'Markdown': ['md'] }
+        };
+
+        try {
+            const targetUri = await vscode.window.showSaveDialog({ defaultUri, filters: filters[format] });
+            if (!targetUri) {
+                return;
+            }
+
+            const title = entry.sourceFile ? entry.sourceFile.split(/[\\/]/).pop() : new Date(entry.timestamp).toLocaleString();
+            const content = formatSubtitles(entry.segments, format, title);
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(content, 'utf8'));
+
+            const action = await vscode.window.showInformationMessage(`✅ Exported ${entry.segments.length} segments to ${targetUri.fsPath}`, 'Open');
+            if (action === 'Open') {
+                await vscode.window.showTextDocument(targetUri);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Lets the user choose an entry with timestamps when an export runs from the Command Palette
+     */
+    private async pickTimedEntry(): Promise<TranscriptionEntry | undefined> {
+        const timedEntries = (await this.getVisibleEntries()).filter(entry => entry.segments?.length);
+
+        if (timedEntries.length === 0) {
+            vscode.window.showInformationMessage('No transcriptions with timestamps yet. Enable speechToTextWhisper.timestamps to keep them.');
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            timedEntries.map(entry => ({
+                label: this.formatEntryTitle(entry),
+                description: entry.sourceFile?.split(/[\\/]/).pop(),
+                detail: new Date(entry.timestamp).toLocaleString('ru-RU'),
+                entry
+            })),
+            { placeHolder: 'Select a transcription to export' }
+        );
+        return picked?.entry;
+    }
+
+    /**
+     * Pins or unpins an entry; pinned entries are listed first and never pruned
+     */
+    async setPinned(item: TranscriptionHistoryItem, pinned: boolean): Promise<void> {
+        if (!item?.entry) {
+            vscode.window.showErrorMessage(`No transcription entry to ${pinned ? 'pin' : 'unpin'}`);
+            return;
+        }
+
+        const result = await this.historyManager.setPinned(item.entry.id, pinned);
+        if (result.success) {
+            this.refresh();
+        } else {
+            vscode.window.showErrorMessage(`Failed to ${pinned ? 'pin' : 'unpin'}: ${result.error}`);
+        }
+    }
+
+    /**
+     * Exports the whole history as JSON (re-importable), CSV or a Markdown journal
+     */
+    async exportHistory(): Promise<void> {
+        const history = await this.historyManager.getHistory();
+        if (!history.entries.length) {
+            vscode.window.showInformationMessage('No transcriptions to export');
+            return;
+        }
+
+        const formats: Array<vscode.QuickPickItem & { format: HistoryExportFormat; extension: string }> = [
+            { label: 'JSON', description: 'Full history, can be imported again', format: 'json', extension: 'json' },
+            { label: 'CSV', description: 'One row per transcription', format: 'csv', extension: 'csv' },
+            { label: 'Markdown', description: 'Journal grouped by day', format: 'markdown', extension: 'md' }
+        ];
+        const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Export format' });
+        if (!picked) {
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+        const fileName = `transcription-history-${new Date().toISOString().slice(0, 10)}.${picked.extension}`;
+
+        try {
+            const targetUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.joinPath(folder, fileName),
+                filters: { [picked.label]: [picked.extension] }
+            });
+            if (!targetUri) {
+                return;
+            }
+
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(exportHistory(history, picked.format), 'utf8'));
+            vscode.window.showInformationMessage(`✅ Exported ${history.entries.length} transcriptions to ${targetUri.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export history: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Imports a JSON export, merging entries by ID
+     */
+    async importHistory(): Promise<void> {
+        const selection = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import',
+            filters: { 'Transcription History': ['json'] }
+        });
+        if (!selection?.[0]) {
+            return;
+        }
+
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(selection[0])).toString('utf8');
+            const result = await this.historyManager.importHistory(JSON.parse(content));
+            if (!result.success) {
+                vscode.window.showErrorMessage(`Failed to import history: ${result.error}`);
+                return;
+            }
+
+            this.refresh();
+            const { added, skipped, dropped } = result.data;
+            const notes = [
+                skipped ? `${skipped} already present` : '',
+                dropped ? `${dropped} oldest removed by the history limit` : ''
+            ].filter(Boolean).join(', ');
+            vscode.window.showInformationMessage(`✅ Imported ${added} transcriptions${notes ? ` (${notes})` : ''}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to import history: ${(error as Error).message}`);
+        }
+    }
+
     /**
      * Clears the entire history
      */
@@ -392,5 +907,6 @@ export class TranscriptionHistoryProvider implements vscode.TreeDataProvider<Tra
         if (this.cursorIntegration) {
             this.cursorIntegration.dispose();
         }
+        this.editListeners.forEach(listener => listener.dispose());
     }
 } 
\ No newline at end of file
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { DailyUsage, formatCost, formatUsageDay, getMonthRange, summarizeUsage } from '../core/UsageStats';
+import { ModelPrice } from '../core/OpenAIModels';
+
+const CHART_DAYS = 30;
+const TABLE_MONTHS = 12;
+
+/**
+ * Webview with the daily cost of the last 30 days and monthly totals
+ */
+export class UsageChartPanel {
+    private static currentPanel: UsageChartPanel | undefined;
+
+    private constructor(private readonly panel: vscode.WebviewPanel) {
+        panel.onDidDispose(() => {
+            UsageChartPanel.currentPanel = undefined;
+        });
+    }
+
+    /**
+     * Opens the chart or updates the open one
+     */
+    static show(days: DailyUsage[], prices: Record<string, ModelPrice>): void {
+        if (!UsageChartPanel.currentPanel) {
+            const panel = vscode.window.createWebviewPanel(
+                'speechToTextWhisper.usageChart',
+                'Speech to Text Usage',
+                vscode.ViewColumn.Active,
+                { enableScripts: false }
+            );
+            UsageChartPanel.currentPanel = new UsageChartPanel(panel);
+        }
+
+        UsageChartPanel.currentPanel.update(days, prices);
+        UsageChartPanel.currentPanel.panel.reveal();
+    }
+
+    /**
+     * Refreshes the open chart after new usage was recorded
+     */
+    static refresh(days: DailyUsage[], prices: Record<string, ModelPrice>): void {
+        UsageChartPanel.currentPanel?.update(days, prices);
+    }
+
+    private update(days: DailyUsage[], prices: Record<string, ModelPrice>): void {
+        this.panel.webview.html = this.render(days, prices);
+    }
+
+    private render(days: DailyUsage[], prices: Record<string, ModelPrice>): string {
+        const now = new Date();
+        const dailyCosts: Array<{ date: string; transcription: number; postProcessing: number }> = [];
+        for (let offset = CHART_DAYS - 1; offset >= 0; offset--) {
+            const date = formatUsageDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset));
+            const summary = summarizeUsage(days, prices, date, date);
+            const costOf = (kind: string) => Object.values(summary.byModel)
+                .filter(usage => usage.kind === kind)
+                .reduce((total, usage) => total + usage.cost, 0);
+            dailyCosts.push({ date, transcription: costOf('transcription'), postProcessing: costOf('postProcessing') });
+        }
+
+        const monthRows: string[] = [];
+        for (let offset = 0; offset > -TABLE_MONTHS; offset--) {
+            const { from, to } = getMonthRange(now, offset);
+            const summary = summarizeUsage(days, prices, from, to);
+            if (summary.requests === 0 && offset < 0) {
+                continue;
+            }
+            monthRows.push(`<tr>
+                <td>${from.slice(0, 7)}</td>
+                <td>${(summary.audioSeconds / 60).toFixed(1)}</td>
+                <td>${(summary.promptTokens + summary.completionTokens).toLocaleString('en-US')}</td>
+                <td>${summary.requests}</td>
+                <td>${summary.failures}</td>
+                <td>${formatCost(summary.cost)}</td>
+            </tr>`);
+        }
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px; }
+        .transcription { fill: var(--vscode-charts-blue); }
+        .postProcessing { fill: var(--vscode-charts-purple); }
+        .axis { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+        .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; }
+        table { border-collapse: collapse; margin-top: 24px; }
+        th, td { padding: 4px 12px; text-align: right; border-bottom: 1px solid var(--vscode-panel-border); }
+        th:first-child, td:first-child { text-align: left; }
+        .note { color: var(--vscode-descriptionForeground); margin-top: 16px; }
+    </style>
+</head>
+<body>
+    <h2>Estimated cost, last ${CHART_DAYS} days</h2>
+    <div class="legend">
+        <span style="background: var(--vscode-charts-blue)"></span>Transcription
+        <span style="background: var(--vscode-charts-purple)"></span>Post-processing
+    </div>
+    ${this.renderChart(dailyCosts)}
+    <h2>Monthly totals</h2>
+    <table>
+        <tr><th>Month</th><th>Audio min</th><th>Tokens</th><th>Requests</th><th>Failed</th><th>Cost</th></tr>
+        ${monthRows.join('\n')}
+    </table>
+    <p class="note">Costs are estimates from speechToTextWhisper.usage.prices; models without a price (local Whisper, custom gateways) count as free.</p>
+</body>
+</html>`;
+    }
+
+    private renderChart(dailyCosts: Array<{ date: string; transcription: number; postProcessing: number }>): string {
+        const width = 720;
+        const height = 200;
+        const barWidth = width / dailyCosts.length;
+        const maxCost = Math.max(...dailyCosts.map(day => day.transcription + day.postProcessing), 0.01);
+
+        const bars = dailyCosts.map((day, index) => {
+            const x = index * barWidth + 2;
+            const transcriptionHeight = (day.transcription / maxCost) * height;
+            const postProcessingHeight = (day.postProcessing / maxCost) * height;
+            const title = `<title>${day.date}: ${formatCost(day.transcription + day.postProcessing)}</title>`;
+            return `<g>${title}
+                <rect class="transcription" x="${x}" y="${height - transcriptionHeight}" width="${barWidth - 4}" height="${transcriptionHeight}"></rect>
+                <rect class="postProcessing" x="${x}" y="${height - transcriptionHeight - postProcessingHeight}" width="${barWidth - 4}" height="${postProcessingHeight}"></rect>
+            </g>`;
+        }).join('\n');
+
+        const labels = dailyCosts
+            .map((day, index) => index % 5 === 0 ? `<text class="axis" x="${index * barWidth + 2}" y="${height + 14}">${day.date.slice(5)}</text>` : '')
+            .join('');
+
+        return `<svg width="${width}" height="${height + 20}" role="img" aria-label="Daily cost">
+            ${bars}
+            ${labels}
+            <text class="axis" x="${width - 2}" y="10" text-anchor="end">max ${formatCost(maxCost)}</text>
+        </svg>`;
+    }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { UsageTracker } from '../core/UsageTracker';
+import { DailyUsage, UsageSummary, describeUsage, formatUsageDay, getMonthRange, summarizeUsage } from '../core/UsageStats';
+import { ModelPrice } from '../core/OpenAIModels';
+import { UsageBudget, checkBudget, hasBudgetLimits } from '../core/UsageBudget';
+
+/**
+ * Usage tree item: a period with its totals, or one model within it
+ */
+export class UsageItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly summary?: UsageSummary
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+/**
+ * Data provider for the Usage view: today, this month and last month with a per-model breakdown
+ */
+export class UsageProvider implements vscode.TreeDataProvider<UsageItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<UsageItem | undefined | void> = new vscode.EventEmitter<UsageItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<UsageItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    constructor(
+        private usageTracker: UsageTracker,
+        private getPrices: () => Record<string, ModelPrice>,
+        private getBudget: () => UsageBudget
+    ) {
+        usageTracker.onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: UsageItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: UsageItem): Promise<UsageItem[]> {
+        if (!element) {
+            return this.getPeriods();
+        }
+        if (element.summary) {
+            return this.getModelItems(element.summary);
+        }
+        return [];
+    }
+
+    private getPeriods(): UsageItem[] {
+        const days = this.usageTracker.getDays();
+        const prices = this.getPrices();
+        const today = formatUsageDay(new Date());
+        const thisMonth = getMonthRange();
+        const lastMonth = getMonthRange(new Date(), -1);
+
+        const items = [
+            this.createPeriodItem('Today', summarizeUsage(days, prices, today, today)),
+            this.createPeriodItem('This month', summarizeUsage(days, prices, thisMonth.from, thisMonth.to)),
+            this.createPeriodItem('Last month', summarizeUsage(days, prices, lastMonth.from, lastMonth.to))
+        ];
+
+        const budget = this.getBudget();
+        if (hasBudgetLimits(budget)) {
+            items.push(this.createBudgetItem(days, prices, budget));
+        }
+
+        const chartItem = new UsageItem('Show Usage Chart', vscode.TreeItemCollapsibleState.None);
+        chartItem.iconPath = new vscode.ThemeIcon('graph');
+        chartItem.command = { command: 'speechToTextWhisper.usage.showChart', title: 'Show Usage Chart' };
+        items.push(chartItem);
+
+        return items;
+    }
+
+    private createPeriodItem(label: string, summary: UsageSummary): UsageItem {
+        const hasModels = Object.keys(summary.byModel).length > 0;
+        const item = new UsageItem(
+            label,
+            hasModels ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            summary
+        );
+        item.description = hasModels ? describeUsage(summary) : 'No usage';
+        item.tooltip = 'Estimated from the price table (speechToTextWhisper.usage.prices)';
+        item.iconPath = new vscode.ThemeIcon('calendar');
+        return item;
+    }
+
+    private createBudgetItem(days: DailyUsage[], prices: Record<string, ModelPrice>, budget: UsageBudget): UsageItem {
+        const status = checkBudget(days, prices, budget);
+        const item = new UsageItem('Budget', vscode.TreeItemCollapsibleState.None);
+        item.description = `${Math.round(status.ratio * 100)}% · ${status.description}`;
+        item.tooltip = status.level === 'exceeded'
+            ? 'Budget reached; see speechToTextWhisper.usage.budget.action'
+            : 'Closest of the daily and monthly limits (speechToTextWhisper.usage.budget)';
+        item.iconPath = new vscode.ThemeIcon(status.level === 'ok' ? 'pass' : (status.level === 'warning' ? 'warning' : 'error'));
+        return item;
+    }
+
+    private getModelItems(summary: UsageSummary): UsageItem[] {
+        return Object.entries(summary.byModel)
+            .sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests)
+            .map(([key, usage]) => {
+                const model = key.substring(key.indexOf(':') + 1);
+                const item = new UsageItem(model, vscode.TreeItemCollapsibleState.None);
+                item.description = describeUsage(usage);
+                item.tooltip = `${usage.kind === 'transcription' ? 'Transcription' : 'Post-processing'}: ${model}`;
+                item.iconPath = new vscode.ThemeIcon(usage.kind === 'transcription' ? 'mic' : 'sparkle');
+                return item;
+            });
+    }
+}
@@ -19,6 +19,7 @@ export enum ErrorType {
     TEXT_INSERTION_FAILED = 'text_insertion_failed',
     AUDIO_RECORDING_FAILED = 'audio_recording_failed',
     CONFIGURATION_ERROR = 'configuration_error',
+    BUDGET_EXCEEDED = 'budget_exceeded',
     UNKNOWN_ERROR = 'unknown_error'
 }
 
@@ -228,6 +229,14 @@ export class ErrorHandler {
             message: 'Configuration error. Please check your settings.',
             userActionRequired: true
         }],
+        [ErrorType.BUDGET_EXCEEDED, {
+            type: ErrorType.BUDGET_EXCEEDED,
+            severity: ErrorSeverity.CRITICAL,
+            displayStrategy: DisplayStrategy.POPUP,
+            recoveryAction: RecoveryAction.OPEN_SETTINGS,
+            message: 'Usage budget reached. API calls are paused until the budget period resets or the limit is raised.',
+            userActionRequired: true
+        }],
         [ErrorType.UNKNOWN_ERROR, {
             type: ErrorType.UNKNOWN_ERROR,
             severity: ErrorSeverity.ERROR,
@@ -297,6 +306,9 @@ export class ErrorHandler {
         if (message.includes('rate limit') || message.includes('too many requests')) {
             return ErrorType.API_RATE_LIMIT;
         }
+        if (message.includes('usage budget')) {
+            return ErrorType.BUDGET_EXCEEDED;
+        }
         if (message.includes('quota') || message.includes('insufficient funds')) {
             return ErrorType.API_QUOTA_EXCEEDED;
         }